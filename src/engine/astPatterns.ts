@@ -0,0 +1,536 @@
+/**
+ * AST Patterns Module
+ * Learns structural edits from TypeScript/JavaScript fixes and matches them
+ * on the syntax tree of the code being edited
+ */
+
+import * as ts from 'typescript';
+import { AstPattern, BugCategory, BugPattern, GitHubFile } from '../types';
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  ts: ts.ScriptKind.TS,
+  mts: ts.ScriptKind.TS,
+  cts: ts.ScriptKind.TS,
+  tsx: ts.ScriptKind.TSX,
+  js: ts.ScriptKind.JS,
+  mjs: ts.ScriptKind.JS,
+  cjs: ts.ScriptKind.JS,
+  jsx: ts.ScriptKind.JSX,
+};
+
+/**
+ * A structural edit found in one fix
+ */
+export interface AstFinding {
+  ast: AstPattern;
+  category: BugCategory;
+  riskBase: number;
+  /** Line-based fallback, also used for quick fixes and the statistics panel */
+  regex: string;
+  /** Line of the buggy code in the file before the fix (1-based) */
+  line: number;
+  buggyExample: string;
+  fixedExample: string;
+}
+
+/**
+ * A file before and after a fix, with the lines the diff touched
+ */
+interface FileRevision {
+  before: ts.SourceFile;
+  after: ts.SourceFile;
+  /** Removed lines, numbered in `before` (1-based) */
+  removed: Set<number>;
+  /** Added lines, numbered in `after` (1-based) */
+  added: Set<number>;
+}
+
+export class AstPatternExtractor {
+  /**
+   * Whether a file can be parsed by the TypeScript compiler
+   */
+  static supports(filename: string): boolean {
+    return scriptKindFor(filename) !== undefined;
+  }
+
+  /**
+   * Find the structural edits a fix made to one file. Returns undefined when
+   * the file can't be analyzed (contents not loaded, or the patch doesn't
+   * line up with them), so the caller can fall back to line-based detection.
+   */
+  extract(file: GitHubFile): AstFinding[] | undefined {
+    const kind = scriptKindFor(file.filename);
+    if (kind === undefined || file.content === undefined || !file.patch) {
+      return undefined;
+    }
+
+    const revision = AstPatternExtractor.reversePatch(file.content, file.patch);
+    if (!revision) {
+      console.log(`[CodeGhost] Patch for ${file.filename} doesn't match its contents, using line-based extraction`);
+      return undefined;
+    }
+
+    const parse = (text: string) => ts.createSourceFile(file.filename, text, ts.ScriptTarget.Latest, true, kind);
+    const files: FileRevision = {
+      before: parse(revision.before),
+      after: parse(file.content),
+      removed: revision.removed,
+      added: revision.added,
+    };
+
+    const findings = new Map<string, AstFinding>();
+    for (const finding of [
+      ...this.findOptionalChains(files),
+      ...this.findAddedAwaits(files),
+      ...this.findLoopBounds(files),
+    ]) {
+      const key = JSON.stringify(finding.ast);
+      if (!findings.has(key)) {
+        findings.set(key, finding);
+      }
+    }
+    return Array.from(findings.values());
+  }
+
+  /**
+   * `user.name` rewritten as `user?.name`
+   */
+  private findOptionalChains(files: FileRevision): AstFinding[] {
+    const findings: AstFinding[] = [];
+
+    for (const fixed of collect(files.after, ts.isPropertyAccessExpression)) {
+      if (!fixed.questionDotToken || !touches(fixed, files.after, files.added)) {
+        continue;
+      }
+
+      const unguarded = normalize(fixed.getText(files.after)).replace(/\?\./g, '.');
+      const buggy = this.findCounterpart(files, fixed, ts.isPropertyAccessExpression, (node) =>
+        normalize(node.getText(files.before)).replace(/!\./g, '.') === unguarded
+      );
+      const object = nameOf(fixed.expression);
+      if (!buggy || !object) {
+        continue;
+      }
+
+      const property = fixed.name.text;
+      findings.push(
+        this.finding(files, buggy, fixed, {
+          ast: { kind: 'optional_chain', object, property },
+          category: 'null_check_missing',
+          riskBase: 8,
+          regex: String.raw`\b${escapeRegExp(object)}\.${escapeRegExp(property)}\b(?!\?)`,
+        })
+      );
+    }
+
+    return findings;
+  }
+
+  /**
+   * `load()` rewritten as `await load()`
+   */
+  private findAddedAwaits(files: FileRevision): AstFinding[] {
+    const findings: AstFinding[] = [];
+
+    for (const awaited of collect(files.after, ts.isAwaitExpression)) {
+      const fixed = skipParentheses(awaited.expression);
+      if (!ts.isCallExpression(fixed) || !touches(awaited, files.after, files.added)) {
+        continue;
+      }
+
+      const call = normalize(fixed.getText(files.after));
+      const buggy = this.findCounterpart(
+        files,
+        fixed,
+        ts.isCallExpression,
+        (node) => normalize(node.getText(files.before)) === call && !ts.isAwaitExpression(outerParent(node))
+      );
+      const callee = nameOf(fixed.expression);
+      if (!buggy || !callee) {
+        continue;
+      }
+
+      findings.push(
+        this.finding(files, buggy, awaited, {
+          ast: { kind: 'missing_await', callee },
+          category: 'missing_await',
+          riskBase: 7,
+          regex: String.raw`(?<!await\s+)\b${escapeRegExp(callee)}\s*\(`,
+        })
+      );
+    }
+
+    return findings;
+  }
+
+  /**
+   * `i <= items.length` rewritten as `i < items.length` in a `for` condition
+   */
+  private findLoopBounds(files: FileRevision): AstFinding[] {
+    const findings: AstFinding[] = [];
+
+    for (const loop of collect(files.after, ts.isForStatement)) {
+      const fixed = loop.condition;
+      if (
+        !fixed ||
+        !ts.isBinaryExpression(fixed) ||
+        fixed.operatorToken.kind !== ts.SyntaxKind.LessThanToken ||
+        !touches(fixed, files.after, files.added)
+      ) {
+        continue;
+      }
+
+      const left = normalize(fixed.left.getText(files.after));
+      const right = normalize(fixed.right.getText(files.after));
+      const buggy = this.findCounterpart(
+        files,
+        fixed,
+        ts.isBinaryExpression,
+        (node) =>
+          node.operatorToken.kind === ts.SyntaxKind.LessThanEqualsToken &&
+          ts.isForStatement(node.parent) &&
+          node.parent.condition === node &&
+          normalize(node.left.getText(files.before)) === left &&
+          normalize(node.right.getText(files.before)) === right
+      );
+      const bound = nameOf(fixed.right);
+      if (!buggy || !bound) {
+        continue;
+      }
+
+      findings.push(
+        this.finding(files, buggy, fixed, {
+          ast: { kind: 'inclusive_loop_bound', bound },
+          category: 'off_by_one_loop',
+          riskBase: 9,
+          regex:
+            bound === 'length'
+              ? String.raw`for\s*\([^;]*;\s*\w+\s*<=\s*\w+\.length`
+              : String.raw`for\s*\([^;]*;\s*\w+\s*<=\s*[\w.]*\b${escapeRegExp(bound)}\b`,
+        })
+      );
+    }
+
+    return findings;
+  }
+
+  /**
+   * The node in the pre-fix file, on a removed line of the same function,
+   * that the fixed node replaced
+   */
+  private findCounterpart<T extends ts.Node>(
+    files: FileRevision,
+    fixed: ts.Node,
+    test: (node: ts.Node) => node is T,
+    matches: (node: T) => boolean
+  ): T | undefined {
+    const scope = functionName(fixed);
+    return collect(files.before, test).find(
+      (node) => touches(node, files.before, files.removed) && functionName(node) === scope && matches(node)
+    );
+  }
+
+  private finding(
+    files: FileRevision,
+    buggy: ts.Node,
+    fixed: ts.Node,
+    result: Pick<AstFinding, 'ast' | 'category' | 'riskBase' | 'regex'>
+  ): AstFinding {
+    const line = lineOf(buggy, files.before);
+    return {
+      ...result,
+      line,
+      buggyExample: lineText(files.before, line),
+      fixedExample: lineText(files.after, lineOf(fixed, files.after)),
+    };
+  }
+
+  /**
+   * Rebuild the pre-fix file from the post-fix contents and the patch.
+   * Returns undefined when the patch's context doesn't match the contents.
+   */
+  static reversePatch(
+    content: string,
+    patch: string
+  ): { before: string; removed: Set<number>; added: Set<number> } | undefined {
+    const after = content.split(/\r?\n/);
+    const before: string[] = [];
+    const removed = new Set<number>();
+    const added = new Set<number>();
+    let next = 0; // Index of the next unread line of `after`
+    let inHunk = false;
+
+    for (const rawLine of patch.split('\n')) {
+      const line = rawLine.replace(/\r$/, '');
+      const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+      if (hunk) {
+        // An empty new side ("+0,0" or "+12,0") starts after the given line
+        const start = hunk[2] === '0' ? parseInt(hunk[1], 10) : parseInt(hunk[1], 10) - 1;
+        if (start < next || start > after.length) {
+          return undefined;
+        }
+        before.push(...after.slice(next, start));
+        next = start;
+        inHunk = true;
+        continue;
+      }
+      if (!inHunk || line.startsWith('\\')) {
+        continue;
+      }
+
+      if (line.startsWith('-')) {
+        before.push(line.substring(1));
+        removed.add(before.length);
+      } else if (line.startsWith('+')) {
+        if (after[next] !== line.substring(1)) {
+          return undefined;
+        }
+        added.add(next + 1);
+        next++;
+      } else {
+        // Context; some tools strip the leading space of empty lines
+        if (after[next] !== line.substring(1)) {
+          return undefined;
+        }
+        before.push(after[next]);
+        next++;
+      }
+    }
+
+    before.push(...after.slice(next));
+    return { before: before.join('\n'), removed, added };
+  }
+}
+
+/**
+ * A structural pattern found in the scanned document
+ */
+export interface AstMatch {
+  pattern: BugPattern;
+  /** 0-based line */
+  line: number;
+}
+
+export class AstPatternMatcher {
+  /**
+   * Find where the structural patterns occur in a TypeScript/JavaScript
+   * document. Unlike a regex, this skips accesses that are already guarded,
+   * calls that are awaited or returned, and loops that aren't bounded by the
+   * learned bound.
+   */
+  match(text: string, filePath: string, language: string, patterns: BugPattern[]): AstMatch[] {
+    const structural = patterns.filter((pattern) => pattern.ast);
+    if (structural.length === 0) {
+      return [];
+    }
+
+    const kind = scriptKindFor(filePath) ?? (language === 'javascript' ? ts.ScriptKind.JS : ts.ScriptKind.TS);
+    const sourceFile = ts.createSourceFile(filePath, text, ts.ScriptTarget.Latest, true, kind);
+    const matches: AstMatch[] = [];
+
+    const visit = (node: ts.Node) => {
+      for (const pattern of structural) {
+        const at = this.matchNode(node, pattern.ast!, sourceFile);
+        if (at) {
+          matches.push({ pattern, line: sourceFile.getLineAndCharacterOfPosition(at.getStart(sourceFile)).line });
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return matches;
+  }
+
+  /**
+   * The node to report when `node` is an instance of the pattern
+   */
+  private matchNode(node: ts.Node, ast: AstPattern, sourceFile: ts.SourceFile): ts.Node | undefined {
+    switch (ast.kind) {
+      case 'optional_chain': {
+        if (!ts.isPropertyAccessExpression(node) || node.questionDotToken || node.name.text !== ast.property) {
+          return undefined;
+        }
+        // Templates leave `object` unset to match any object
+        const object = nameOf(node.expression);
+        if (
+          object !== undefined &&
+          (ast.object === undefined || object === ast.object) &&
+          !ts.isNonNullExpression(node.expression) &&
+          !isGuarded(node, object, sourceFile)
+        ) {
+          return node.name;
+        }
+        return undefined;
+      }
+
+      case 'missing_await':
+        if (ts.isCallExpression(node) && nameOf(node.expression) === ast.callee && isFloating(node)) {
+          return node;
+        }
+        return undefined;
+
+      case 'inclusive_loop_bound':
+        if (
+          ts.isForStatement(node) &&
+          node.condition &&
+          ts.isBinaryExpression(node.condition) &&
+          node.condition.operatorToken.kind === ts.SyntaxKind.LessThanEqualsToken &&
+          (ast.bound === undefined || nameOf(node.condition.right) === ast.bound)
+        ) {
+          return node.condition;
+        }
+        return undefined;
+    }
+  }
+}
+
+function scriptKindFor(filename: string): ts.ScriptKind | undefined {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  return extension ? SCRIPT_KINDS[extension] : undefined;
+}
+
+function collect<T extends ts.Node>(sourceFile: ts.SourceFile, test: (node: ts.Node) => node is T): T[] {
+  const nodes: T[] = [];
+  const visit = (node: ts.Node) => {
+    if (test(node)) {
+      nodes.push(node);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return nodes;
+}
+
+/**
+ * Whether any line the node spans is in `lines` (1-based)
+ */
+function touches(node: ts.Node, sourceFile: ts.SourceFile, lines: Set<number>): boolean {
+  const first = lineOf(node, sourceFile);
+  const last = sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1;
+  for (let line = first; line <= last; line++) {
+    if (lines.has(line)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function lineOf(node: ts.Node, sourceFile: ts.SourceFile): number {
+  return sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+}
+
+function lineText(sourceFile: ts.SourceFile, line: number): string {
+  return sourceFile.text.split(/\r?\n/)[line - 1]?.trim() ?? '';
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, '');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function skipParentheses(node: ts.Expression): ts.Expression {
+  return ts.isParenthesizedExpression(node) ? skipParentheses(node.expression) : node;
+}
+
+function outerParent(node: ts.Node): ts.Node {
+  let parent = node.parent;
+  while (parent && ts.isParenthesizedExpression(parent)) {
+    parent = parent.parent;
+  }
+  return parent;
+}
+
+/**
+ * The name an expression ends in: `user` for `this.user`, `fetchData` for
+ * `api.fetchData`, `length` for `items.length`
+ */
+function nameOf(node: ts.Node): string | undefined {
+  if (ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) {
+    return node.text;
+  }
+  if (node.kind === ts.SyntaxKind.ThisKeyword) {
+    return 'this';
+  }
+  if (ts.isPropertyAccessExpression(node)) {
+    return node.name.text;
+  }
+  if (ts.isNonNullExpression(node) || ts.isParenthesizedExpression(node)) {
+    return nameOf(node.expression);
+  }
+  return undefined;
+}
+
+/**
+ * Name of the function a node sits in, so a fix is compared against the
+ * same function's old version
+ */
+function functionName(node: ts.Node): string {
+  for (let current = node.parent; current; current = current.parent) {
+    if (ts.isFunctionLike(current)) {
+      if (current.name && (ts.isIdentifier(current.name) || ts.isStringLiteral(current.name))) {
+        return current.name.text;
+      }
+      const holder = current.parent;
+      if (holder && (ts.isVariableDeclaration(holder) || ts.isPropertyAssignment(holder)) && ts.isIdentifier(holder.name)) {
+        return holder.name.text;
+      }
+      return '<anonymous>';
+    }
+  }
+  return '<module>';
+}
+
+/**
+ * Whether a property access only runs once its object was checked:
+ * `user && user.name`, `if (user) { user.name }`, `user ? user.name : ''`
+ */
+function isGuarded(node: ts.Node, object: string, sourceFile: ts.SourceFile): boolean {
+  const mentions = (condition: ts.Node) =>
+    new RegExp(`\\b${escapeRegExp(object)}\\b`).test(condition.getText(sourceFile));
+
+  for (let child = node, parent = node.parent; parent && !ts.isFunctionLike(parent); child = parent, parent = parent.parent) {
+    if (
+      ts.isBinaryExpression(parent) &&
+      parent.right === child &&
+      (parent.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken ||
+        parent.operatorToken.kind === ts.SyntaxKind.BarBarToken ||
+        parent.operatorToken.kind === ts.SyntaxKind.QuestionQuestionToken) &&
+      mentions(parent.left)
+    ) {
+      return true;
+    }
+    if (ts.isIfStatement(parent) && parent.thenStatement === child && mentions(parent.expression)) {
+      return true;
+    }
+    if (ts.isConditionalExpression(parent) && parent.whenTrue === child && mentions(parent.condition)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether a call's promise is dropped or used as a value without waiting:
+ * a statement of its own, assigned, or tested. Awaited, returned, chained
+ * (`.then()`) and passed-on calls are left alone.
+ */
+function isFloating(call: ts.CallExpression): boolean {
+  const parent = outerParent(call);
+  if (ts.isExpressionStatement(parent)) {
+    return true;
+  }
+  if (ts.isVariableDeclaration(parent)) {
+    return parent.initializer !== undefined && skipParentheses(parent.initializer) === call;
+  }
+  if (ts.isBinaryExpression(parent)) {
+    return parent.operatorToken.kind === ts.SyntaxKind.EqualsToken && skipParentheses(parent.right) === call;
+  }
+  if (ts.isIfStatement(parent)) {
+    return true;
+  }
+  return ts.isConditionalExpression(parent) && skipParentheses(parent.condition) === call;
+}
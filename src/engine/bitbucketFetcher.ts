@@ -0,0 +1,154 @@
+/**
+ * Bitbucket Fetcher Module
+ * Fetches commits from Bitbucket Cloud (API 2.0)
+ */
+
+import { CancellationSignal, GitHubCommit, LinkedIssue } from '../types';
+import { PullRequestDetails, RemoteCommitSource, RemoteSourceOptions } from './commitSource';
+import { FileRename } from './pathHistory';
+import { parseUnifiedDiff } from './gitLogParser';
+
+export const BITBUCKET_API_URL = 'https://api.bitbucket.org/2.0';
+
+interface BitbucketCommit {
+  hash: string;
+  message: string;
+  date: string;
+  author: {
+    raw: string;
+    user?: { display_name?: string };
+  };
+}
+
+interface BitbucketDiffStat {
+  status: string;
+  old?: { path: string } | null;
+  new?: { path: string } | null;
+}
+
+interface BitbucketPullRequest {
+  id: number;
+  title: string;
+  description?: string;
+  links: { html?: { href: string } };
+}
+
+export class BitbucketFetcher extends RemoteCommitSource {
+  readonly name = 'Bitbucket';
+
+  constructor(
+    token: string,
+    private workspace: string,
+    private repo: string,
+    apiUrl: string = BITBUCKET_API_URL,
+    options: RemoteSourceOptions = {}
+  ) {
+    super(apiUrl, { Authorization: `Bearer ${token}` }, options);
+  }
+
+  protected async fetchCommitPage(page: number, perPage: number): Promise<GitHubCommit[]> {
+    const response = await this.get<{ values: BitbucketCommit[] }>(
+      `/repositories/${this.workspace}/${this.repo}/commits`,
+      { params: { pagelen: perPage, page } }
+    );
+    return response.values.map((commit) => this.toCommit(commit));
+  }
+
+  /**
+   * Fetch detailed commit info including file diffs
+   */
+  async fetchCommitDetails(sha: string, cancellation?: CancellationSignal): Promise<GitHubCommit> {
+    try {
+      const details = await this.get<BitbucketCommit>(
+        `/repositories/${this.workspace}/${this.repo}/commit/${sha}`,
+        { immutable: true, cancellation }
+      );
+      const diff = await this.get<string>(`/repositories/${this.workspace}/${this.repo}/diff/${sha}`, {
+        text: true,
+        immutable: true,
+        cancellation,
+      });
+
+      const commit = this.toCommit(details);
+      commit.files = parseUnifiedDiff(sha, diff);
+      return commit;
+    } catch (error: any) {
+      throw new Error(`Failed to fetch commit details for ${sha}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Net renames between two commits from the diffstat API (`head..base`
+   * is what `head` changed since `base`)
+   */
+  protected async fetchRenames(base: string, head: string): Promise<FileRename[]> {
+    const renames: FileRename[] = [];
+    const perPage = 500;
+
+    for (let page = 1; ; page++) {
+      const response = await this.get<{ values: BitbucketDiffStat[] }>(
+        `/repositories/${this.workspace}/${this.repo}/diffstat/${head}..${base}`,
+        { params: { pagelen: perPage, page }, immutable: true }
+      );
+      for (const stat of response.values || []) {
+        if (stat.status === 'renamed' && stat.old && stat.new && stat.old.path !== stat.new.path) {
+          renames.push({ sha: head, from: stat.old.path, to: stat.new.path });
+        }
+      }
+      if ((response.values || []).length < perPage) {
+        return renames;
+      }
+    }
+  }
+
+  /**
+   * Pull request containing the commit. Bitbucket has no labels, so only
+   * the number and title are known.
+   */
+  protected async fetchPullRequest(sha: string, cancellation?: CancellationSignal): Promise<PullRequestDetails | undefined> {
+    const response = await this.get<{ values: BitbucketPullRequest[] }>(
+      `/repositories/${this.workspace}/${this.repo}/commit/${sha}/pullrequests`,
+      { cancellation }
+    );
+
+    const pull = response.values?.[0];
+    return pull
+      ? { number: pull.id, title: pull.title, body: pull.description, url: pull.links.html?.href, labels: [] }
+      : undefined;
+  }
+
+  /**
+   * Issue kind (`bug`, `enhancement`, ...) from the repository's issue
+   * tracker; Bitbucket issues have no labels
+   */
+  protected async fetchIssue(issueNumber: number, cancellation?: CancellationSignal): Promise<LinkedIssue | undefined> {
+    const issue = await this.get<{ kind?: string }>(
+      `/repositories/${this.workspace}/${this.repo}/issues/${issueNumber}`,
+      { cancellation }
+    );
+    return { number: issueNumber, labels: [], type: issue.kind };
+  }
+
+  protected async fetchRawFile(sha: string, path: string): Promise<string | undefined> {
+    return this.get<string>(
+      `/repositories/${this.workspace}/${this.repo}/src/${sha}/${RemoteCommitSource.encodePath(path)}`,
+      { text: true, immutable: true }
+    );
+  }
+
+  private toCommit(commit: BitbucketCommit): GitHubCommit {
+    // "Jane Doe <jane@example.com>"
+    const raw = commit.author.raw.match(/^(.*?)\s*<([^>]+)>$/);
+    return {
+      sha: commit.hash,
+      commit: {
+        message: commit.message,
+        author: {
+          name: commit.author.user?.display_name || raw?.[1] || commit.author.raw || 'Unknown',
+          email: raw?.[2],
+          date: commit.date,
+        },
+      },
+    };
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * Commit Classifier Module
+ * Decides which commits are bug fixes, shared by every commit source
+ */
+
+import { ClassifierConfig, CommitClassification, GitHubCommit } from '../types';
+import { FixHistory } from './fixHistory';
+import { loadWorkspaceConfig } from './workspaceConfig';
+
+export const DEFAULT_CLASSIFIER_CONFIG: ClassifierConfig = {
+  includePatterns: [
+    String.raw`\bfix(e[sd]|ing)?\b`,
+    String.raw`\bbug(s|fix)?\b`,
+    String.raw`\bhotfix\b`,
+    String.raw`\bcrash(es|ed|ing)?\b`,
+    String.raw`\bregression\b`,
+    String.raw`\bbug-\d+\b`,
+  ],
+  excludePatterns: [String.raw`^merge branch\b`, String.raw`\bfix(ed)? (typo|lint|formatting|whitespace)\b`],
+  conventionalTypes: ['fix', 'bugfix', 'hotfix'],
+  trailers: ['Fixes', 'Closes', 'Resolves', 'Bug'],
+  includeAuthors: [],
+  excludeAuthors: [String.raw`\[bot\]$`, '^dependabot', '^renovate'],
+  includePaths: [],
+  excludePaths: [],
+  minConfidence: 0.5,
+  mode: 'message',
+  bugLabels: ['bug', 'regression', 'bugfix', 'defect', 'type: bug', 'kind/bug', 'incident'],
+  bugIssueTypes: ['bug', 'incident'],
+};
+
+// Conventional Commit types that describe non-fix work
+const NON_FIX_TYPES = ['feat', 'docs', 'style', 'refactor', 'test', 'chore', 'build', 'ci', 'perf'];
+
+const CONVENTIONAL_CONFIDENCE = 0.9;
+const TRAILER_CONFIDENCE = 0.8;
+// Per matching include pattern: one keyword alone ("fix", "bug") stays
+// below the default minConfidence, two or any stronger signal clear it
+const PATTERN_CONFIDENCE = 0.4;
+const REVERT_CONFIDENCE = 0.85;
+const NON_FIX_TYPE_PENALTY = 0.5;
+const PR_LABEL_CONFIDENCE = 0.95;
+const ISSUE_CONFIDENCE = 0.9;
+
+export class CommitClassifier {
+  private config: ClassifierConfig;
+  private includeRegexes: RegExp[];
+  private excludeRegexes: RegExp[];
+  private includeAuthorRegexes: RegExp[];
+  private excludeAuthorRegexes: RegExp[];
+  private includePathRegexes: RegExp[];
+  private excludePathRegexes: RegExp[];
+
+  constructor(config: Partial<ClassifierConfig> = {}) {
+    this.config = { ...DEFAULT_CLASSIFIER_CONFIG, ...config };
+    this.includeRegexes = this.compileAll(this.config.includePatterns, 'im');
+    this.excludeRegexes = this.compileAll(this.config.excludePatterns, 'im');
+    this.includeAuthorRegexes = this.compileAll(this.config.includeAuthors, 'i');
+    this.excludeAuthorRegexes = this.compileAll(this.config.excludeAuthors, 'i');
+    this.includePathRegexes = this.config.includePaths.map((glob) => CommitClassifier.globToRegExp(glob));
+    this.excludePathRegexes = this.config.excludePaths.map((glob) => CommitClassifier.globToRegExp(glob));
+  }
+
+  /**
+   * Build a classifier from `.codeghost/config.json` (key `classifier`),
+   * with explicitly configured VS Code settings taking precedence
+   */
+  static fromWorkspace(
+    workspacePath: string,
+    settings: Partial<ClassifierConfig> = {}
+  ): CommitClassifier {
+    const fileConfig = loadWorkspaceConfig(workspacePath).classifier || {};
+    return new CommitClassifier({ ...fileConfig, ...settings });
+  }
+
+  /**
+   * Whether classification needs `label_evidence` from the hosting service
+   */
+  get usesLabels(): boolean {
+    return this.config.mode !== 'message';
+  }
+
+  /**
+   * Classify a commit from its message, author and (depending on the mode)
+   * the labels of its pull request and closed issues
+   */
+  classify(commit: GitHubCommit): CommitClassification {
+    const message = commit.commit.message;
+    const subject = message.split('\n')[0];
+    const author = `${commit.commit.author.name} ${commit.commit.author.email || ''}`.trim();
+    const reasons: string[] = [];
+
+    const excludedAuthor = this.excludeAuthorRegexes.find((regex) => regex.test(author));
+    if (excludedAuthor) {
+      return { isFix: false, confidence: 0, reasons: [`author excluded by /${excludedAuthor.source}/`] };
+    }
+
+    if (
+      this.includeAuthorRegexes.length > 0 &&
+      !this.includeAuthorRegexes.some((regex) => regex.test(author))
+    ) {
+      return { isFix: false, confidence: 0, reasons: ['author not in include list'] };
+    }
+
+    const excludedMessage = this.excludeRegexes.find((regex) => regex.test(message));
+    if (excludedMessage) {
+      return { isFix: false, confidence: 0, reasons: [`message excluded by /${excludedMessage.source}/`] };
+    }
+
+    // Combine independent signals with a noisy-or
+    let missProbability = 1;
+    let penalty = 0;
+
+    if (this.usesLabels) {
+      for (const [confidence, reason] of this.labelSignals(commit)) {
+        missProbability *= 1 - confidence;
+        reasons.push(reason);
+      }
+      if (this.config.mode === 'labels') {
+        if (reasons.length === 0) {
+          const evidence = commit.label_evidence;
+          reasons.push(
+            evidence?.pull_request || evidence?.issues.length
+              ? 'no bug labels on pull request or issues'
+              : 'no pull request or closed issue found'
+          );
+        }
+        return this.result(missProbability, 0, reasons);
+      }
+    }
+
+    const conventional = subject.match(/^(\w+)(?:\([^)]*\))?!?:\s/);
+    if (conventional) {
+      const type = conventional[1].toLowerCase();
+      if (this.config.conventionalTypes.map((t) => t.toLowerCase()).includes(type)) {
+        missProbability *= 1 - CONVENTIONAL_CONFIDENCE;
+        reasons.push(`conventional commit type "${type}"`);
+      } else if (NON_FIX_TYPES.includes(type)) {
+        penalty += NON_FIX_TYPE_PENALTY;
+        reasons.push(`non-fix conventional commit type "${type}"`);
+      }
+    }
+
+    // Rolling a change back means it broke something
+    const reverted = FixHistory.parseRevert(message);
+    if (reverted) {
+      missProbability *= 1 - REVERT_CONFIDENCE;
+      reasons.push(`reverts ${reverted.substring(0, 7)}`);
+    }
+
+    const trailer = this.findTrailer(message);
+    if (trailer) {
+      missProbability *= 1 - TRAILER_CONFIDENCE;
+      reasons.push(`trailer "${trailer}"`);
+    }
+
+    for (const included of this.includeRegexes.filter((regex) => regex.test(message))) {
+      missProbability *= 1 - PATTERN_CONFIDENCE;
+      reasons.push(`message matches /${included.source}/`);
+    }
+
+    return this.result(missProbability, penalty, reasons);
+  }
+
+  private result(missProbability: number, penalty: number, reasons: string[]): CommitClassification {
+    const confidence = Math.max(0, Math.round((1 - missProbability - penalty) * 100) / 100);
+
+    return {
+      isFix: confidence >= this.config.minConfidence,
+      confidence,
+      reasons,
+    };
+  }
+
+  /**
+   * Fix signals from the pull request's labels and the closed issues'
+   * labels or types, as [confidence, reason] pairs
+   */
+  private labelSignals(commit: GitHubCommit): Array<[number, string]> {
+    const evidence = commit.label_evidence;
+    if (!evidence) {
+      return [];
+    }
+
+    const bugLabels = new Set(this.config.bugLabels.map((label) => label.toLowerCase()));
+    const bugTypes = new Set(this.config.bugIssueTypes.map((type) => type.toLowerCase()));
+    const signals: Array<[number, string]> = [];
+
+    const pr = evidence.pull_request;
+    const prLabel = pr?.labels.find((label) => bugLabels.has(label.toLowerCase()));
+    if (pr && prLabel) {
+      signals.push([PR_LABEL_CONFIDENCE, `PR #${pr.number} labelled "${prLabel}"`]);
+    }
+
+    for (const issue of evidence.issues) {
+      const label = issue.labels.find((l) => bugLabels.has(l.toLowerCase()));
+      if (issue.type && bugTypes.has(issue.type.toLowerCase())) {
+        signals.push([ISSUE_CONFIDENCE, `closes #${issue.number} of type "${issue.type}"`]);
+      } else if (label) {
+        signals.push([ISSUE_CONFIDENCE, `closes #${issue.number} labelled "${label}"`]);
+      }
+    }
+
+    return signals;
+  }
+
+  /**
+   * Keep the commits classified as bug fixes, recording the classification
+   * on each of them
+   */
+  filterBugCommits(commits: GitHubCommit[]): GitHubCommit[] {
+    return commits.filter((commit) => {
+      commit.classification = this.classify(commit);
+      return commit.classification.isFix;
+    });
+  }
+
+  /**
+   * Apply the path filters to a commit whose files are known, dropping
+   * files outside the configured paths.
+   * Returns false when no files are left to learn from.
+   */
+  applyPathFilters(commit: GitHubCommit): boolean {
+    if (!commit.files || (this.includePathRegexes.length === 0 && this.excludePathRegexes.length === 0)) {
+      return true;
+    }
+
+    commit.files = commit.files.filter((file) => {
+      if (this.excludePathRegexes.some((regex) => regex.test(file.filename))) {
+        return false;
+      }
+      return (
+        this.includePathRegexes.length === 0 ||
+        this.includePathRegexes.some((regex) => regex.test(file.filename))
+      );
+    });
+
+    return commit.files.length > 0;
+  }
+
+  /**
+   * Find a configured trailer such as `Fixes: #12` or an inline `fixes #12`
+   */
+  private findTrailer(message: string): string | undefined {
+    for (const trailer of this.config.trailers) {
+      const escaped = trailer.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const asTrailer = new RegExp(`^${escaped}:\\s*\\S+`, 'im');
+      const inline = new RegExp(`\\b${escaped}\\s+([\\w.-]+/[\\w.-]+)?#\\d+`, 'i');
+      if (asTrailer.test(message) || inline.test(message)) {
+        return trailer;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Compile user-supplied regexes, skipping (and logging) invalid ones
+   */
+  private compileAll(sources: string[], flags: string): RegExp[] {
+    const compiled: RegExp[] = [];
+    for (const source of sources) {
+      try {
+        compiled.push(new RegExp(source, flags));
+      } catch (error) {
+        console.error(`[CodeGhost] Invalid classifier regex: ${source}`, error);
+      }
+    }
+    return compiled;
+  }
+
+  /**
+   * Convert a path glob (`src/**`, `*.ts`, `[Mm]akefile`, `[!_]*.py`) into a
+   * regex over repo-relative paths
+   */
+  static globToRegExp(glob: string): RegExp {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+      const char = glob[i];
+      if (char === '*' && glob[i + 1] === '*') {
+        i++;
+        if (glob[i + 1] === '/') {
+          i++;
+          source += '(?:.*/)?';
+        } else {
+          source += '.*';
+        }
+      } else if (char === '*') {
+        source += '[^/]*';
+      } else if (char === '?') {
+        source += '[^/]';
+      } else if (char === '[' && glob.indexOf(']', i + 2) !== -1) {
+        // A `]` right after the opening bracket is a member, as in gitignore
+        const end = glob.indexOf(']', i + 2);
+        const members = glob.substring(i + 1, end);
+        const negated = members.startsWith('!') || members.startsWith('^');
+        const escaped = (negated ? members.substring(1) : members).replace(/[\\\]^]/g, '\\$&');
+        source += negated ? `[^/${escaped}]` : `[${escaped}]`;
+        i = end;
+      } else {
+        source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+    // Patterns without a slash match at any depth and directories match
+    // everything below them, like .gitignore
+    const prefix = glob.replace(/\/$/, '').includes('/') ? '^' : '(^|/)';
+    const suffix = glob.endsWith('/') ? '.*' : '';
+    return new RegExp(`${prefix}${source.replace(/^\//, '')}${suffix}$`);
+  }
+}
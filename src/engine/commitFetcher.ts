@@ -1,90 +1,172 @@
 /**
  * Commit Fetcher Module
- * Fetches commits from GitHub and identifies bug-related ones
+ * Fetches commits from GitHub (or GitHub Enterprise) and identifies bug-related ones
  */
 
-import axios, { AxiosInstance } from 'axios';
-import { GitHubCommit } from '../types';
-
-export class CommitFetcher {
-  private axiosInstance: AxiosInstance;
-  private bugKeywords = ['fix', 'bug', 'error', 'crash', 'hotfix', 'issue', 'patch'];
-
-  constructor(private token: string) {
-    this.axiosInstance = axios.create({
-      baseURL: 'https://api.github.com',
-      headers: {
+import { CancellationSignal, GitHubCommit, LinkedIssue } from '../types';
+import { PullRequestDetails, RemoteCommitSource, RemoteSourceOptions } from './commitSource';
+import { FileRename } from './pathHistory';
+
+export const GITHUB_API_URL = 'https://api.github.com';
+
+export class CommitFetcher extends RemoteCommitSource {
+  readonly name = 'GitHub';
+
+  constructor(
+    token: string,
+    private owner: string,
+    private repo: string,
+    apiUrl: string = GITHUB_API_URL,
+    options: RemoteSourceOptions = {}
+  ) {
+    super(
+      apiUrl,
+      {
         Authorization: `token ${token}`,
         Accept: 'application/vnd.github.v3+json',
       },
-    });
+      options
+    );
   }
 
   /**
-   * Fetch commits from a GitHub repository
+   * Fetch one page of commits from the default branch
    */
-  async fetchCommits(
-    owner: string,
-    repo: string,
-    maxCommits: number = 100
-  ): Promise<GitHubCommit[]> {
-    try {
-      const perPage = Math.min(maxCommits, 100);
-      const pages = Math.ceil(maxCommits / perPage);
-      const allCommits: GitHubCommit[] = [];
-
-      for (let page = 1; page <= pages; page++) {
-        const response = await this.axiosInstance.get<GitHubCommit[]>(
-          `/repos/${owner}/${repo}/commits`,
-          {
-            params: {
-              per_page: perPage,
-              page,
-            },
-          }
-        );
-
-        allCommits.push(...response.data);
-
-        if (response.data.length < perPage) {
-          break; // No more commits
-        }
-      }
+  protected async fetchCommitPage(page: number, perPage: number): Promise<GitHubCommit[]> {
+    // Conditional request: an unchanged page comes back as a free 304
+    return this.get<GitHubCommit[]>(`/repos/${this.owner}/${this.repo}/commits`, {
+      params: {
+        per_page: perPage,
+        page,
+      },
+    });
+  }
 
-      return allCommits.slice(0, maxCommits);
-    } catch (error: any) {
-      throw new Error(`Failed to fetch commits: ${error.message}`);
+  /**
+   * Check the stored commit against the current head with the compare API,
+   * which also catches commits that still exist but were rewritten away
+   */
+  async isAncestorOfHead(sha: string): Promise<boolean> {
+    const [head] = await this.fetchCommitPage(1, 1);
+    if (!head) {
+      return false;
     }
+    return this.isAncestor(sha, head.sha);
   }
 
   /**
-   * Filter commits that are likely bug fixes
+   * Check whether a previously scanned commit is still an ancestor of `head`.
+   * Returns false when the commit is unknown or was rewritten away
+   * (force-push, rebase), in which case callers should rebuild from scratch.
    */
-  filterBugCommits(commits: GitHubCommit[]): GitHubCommit[] {
-    return commits.filter((commit) => {
-      const message = commit.commit.message.toLowerCase();
-      return this.bugKeywords.some((keyword) => message.includes(keyword));
-    });
+  async isAncestor(sha: string, head: string): Promise<boolean> {
+    if (sha === head) {
+      return true;
+    }
+
+    try {
+      const comparison = await this.get<{ status: string }>(
+        `/repos/${this.owner}/${this.repo}/compare/${sha}...${head}`,
+        { immutable: true }
+      );
+      return comparison.status === 'ahead' || comparison.status === 'identical';
+    } catch (error: any) {
+      if (error.response && (error.response.status === 404 || error.response.status === 422)) {
+        return false;
+      }
+      throw new Error(`Failed to compare ${sha} with ${head}: ${error.message}`);
+    }
   }
 
   /**
    * Fetch detailed commit info including file diffs
    */
-  async fetchCommitDetails(
-    owner: string,
-    repo: string,
-    sha: string
-  ): Promise<GitHubCommit> {
+  async fetchCommitDetails(sha: string, cancellation?: CancellationSignal): Promise<GitHubCommit> {
     try {
-      const response = await this.axiosInstance.get<GitHubCommit>(
-        `/repos/${owner}/${repo}/commits/${sha}`
-      );
-      return response.data;
+      // Commits are immutable, so a cached copy never needs revalidating
+      return await this.get<GitHubCommit>(`/repos/${this.owner}/${this.repo}/commits/${sha}`, {
+        immutable: true,
+        cancellation,
+      });
     } catch (error: any) {
       throw new Error(`Failed to fetch commit details for ${sha}: ${error.message}`);
     }
   }
 
+  /**
+   * Pull request that merged the commit (the first merged one if several)
+   */
+  protected async fetchPullRequest(sha: string, cancellation?: CancellationSignal): Promise<PullRequestDetails | undefined> {
+    const pulls = await this.get<
+      Array<{
+        number: number;
+        title: string;
+        body: string | null;
+        html_url: string;
+        merged_at: string | null;
+        labels: Array<{ name: string }>;
+      }>
+    >(`/repos/${this.owner}/${this.repo}/commits/${sha}/pulls`, { cancellation });
+
+    const pull = pulls.find((p) => p.merged_at) ?? pulls[0];
+    return pull
+      ? {
+          number: pull.number,
+          title: pull.title,
+          body: pull.body ?? undefined,
+          url: pull.html_url,
+          labels: pull.labels.map((l) => l.name),
+        }
+      : undefined;
+  }
+
+  /**
+   * Issue labels and (organization) issue type
+   */
+  protected async fetchIssue(issueNumber: number, cancellation?: CancellationSignal): Promise<LinkedIssue | undefined> {
+    const issue = await this.get<{ labels: Array<{ name: string }>; type?: { name: string } | null }>(
+      `/repos/${this.owner}/${this.repo}/issues/${issueNumber}`,
+      { cancellation }
+    );
+    return { number: issueNumber, labels: issue.labels.map((l) => l.name), type: issue.type?.name };
+  }
+
+  /**
+   * File contents through the contents API; files over 1 MB come back
+   * without content and are skipped
+   */
+  protected async fetchRawFile(sha: string, path: string): Promise<string | undefined> {
+    const file = await this.get<{ content?: string; encoding?: string }>(
+      `/repos/${this.owner}/${this.repo}/contents/${RemoteCommitSource.encodePath(path)}`,
+      { params: { ref: sha }, immutable: true }
+    );
+    return file.encoding === 'base64' && file.content !== undefined
+      ? Buffer.from(file.content, 'base64').toString('utf-8')
+      : undefined;
+  }
+
+  /**
+   * Net renames between two commits from the compare API (which lists up
+   * to 300 files)
+   */
+  protected async fetchRenames(base: string, head: string): Promise<FileRename[]> {
+    const comparison = await this.get<{ files?: Array<{ filename: string; previous_filename?: string; status: string }> }>(
+      `/repos/${this.owner}/${this.repo}/compare/${base}...${head}`,
+      { immutable: true }
+    );
+    return (comparison.files || [])
+      .filter((file) => file.status === 'renamed' && file.previous_filename)
+      .map((file) => ({ sha: head, from: file.previous_filename!, to: file.filename }));
+  }
+
+  /**
+   * API base URL for a GitHub host: api.github.com for github.com,
+   * `/api/v3` on the host for GitHub Enterprise Server
+   */
+  static apiUrlForHost(host: string): string {
+    return host === 'github.com' ? GITHUB_API_URL : `https://${host}/api/v3`;
+  }
+
   /**
    * Parse GitHub repository URL to extract owner and repo
    */
@@ -106,25 +188,4 @@ export class CommitFetcher {
 
     return null;
   }
-
-  /**
-   * Get remote URL from git config
-   */
-  static async getRemoteUrl(workspacePath: string): Promise<string | null> {
-    const fs = require('fs');
-    const path = require('path');
-
-    try {
-      const gitConfigPath = path.join(workspacePath, '.git', 'config');
-      if (!fs.existsSync(gitConfigPath)) {
-        return null;
-      }
-
-      const config = fs.readFileSync(gitConfigPath, 'utf-8');
-      const match = config.match(/url\s*=\s*(.+)/);
-      return match ? match[1].trim() : null;
-    } catch {
-      return null;
-    }
-  }
 }
@@ -0,0 +1,192 @@
+/**
+ * Commit Links Module
+ * Parses issue, pull request, Jira and co-author references out of commit messages
+ */
+
+import { CoAuthor, CommitLinks, CommitSourceKind, IssueLink, JiraLink, PullRequestLink } from '../types';
+
+export type ForgeKind = Exclude<CommitSourceKind, 'local'>;
+
+export interface CommitLinkContext {
+  /** Web URL of the repository, e.g. `https://github.com/owner/repo` */
+  repoWebUrl?: string;
+  /** Which forge's URL layout `repoWebUrl` follows */
+  forge?: ForgeKind;
+  /** Jira instance, e.g. `https://example.atlassian.net`; keys stay unlinked without it */
+  jiraBaseUrl?: string;
+}
+
+const CLOSING_KEYWORDS = 'close|closes|closed|fix|fixes|fixed|resolve|resolves|resolved';
+
+// "Fixes #12, #13", "closes org/repo#45", "Resolves: https://github.com/o/r/issues/7"
+const REFERENCE_SOURCE = '(?:(?:[\\w.-]+(?:\\/[\\w.-]+)+)?#\\d+|https?:\\/\\/\\S+\\/issues\\/\\d+)';
+const CLOSING_REFERENCE = new RegExp(
+  `\\b(${CLOSING_KEYWORDS}):?\\s+(${REFERENCE_SOURCE}(?:\\s*(?:,|and)\\s*${REFERENCE_SOURCE})*)`,
+  'gi'
+);
+// `group/sub/project#12` on GitLab; full URLs keep their own host
+const ISSUE_REFERENCE = /(?:([\w.-]+(?:\/[\w.-]+)+)?#(\d+))|(https?:\/\/[^\s/]+\/(\S+?)\/(?:-\/)?issues\/(\d+))/g;
+
+// Prefixes that look like Jira keys but are standards and encodings
+const NOT_JIRA = new Set(['UTF', 'SHA', 'ISO', 'RFC', 'CVE', 'GH', 'HTTP', 'TLS', 'SSL', 'ES', 'MD', 'WIN']);
+const JIRA_KEY = /\b([A-Z][A-Z0-9]{1,9})-(\d+)\b/g;
+
+const CO_AUTHOR = /^co-authored-by:\s*(.+?)\s*(?:<([^>]*)>)?\s*$/gim;
+
+// GitHub merge commits and squash merges, GitLab merge commits
+const GITHUB_MERGE = /^Merge pull request #(\d+)/;
+const SQUASH_SUFFIX = /\(#(\d+)\)\s*$/;
+const GITLAB_MERGE = /See merge request [\w./-]*!(\d+)/;
+
+export class CommitLinkParser {
+  constructor(private context: CommitLinkContext = {}) {}
+
+  /**
+   * Extract every link from a full commit message. A pull request reported
+   * by the commit source wins over one guessed from the message.
+   */
+  parse(sha: string, message: string, pullRequest?: PullRequestLink): CommitLinks {
+    return {
+      commit_url: this.commitUrl(sha),
+      issues: this.parseIssues(message),
+      jira: this.parseJira(message),
+      pull_request: pullRequest ?? this.parsePullRequest(message),
+      co_authors: this.parseCoAuthors(message),
+    };
+  }
+
+  /**
+   * Issues closed by the commit. Plain mentions (`see #12`) are left out,
+   * since they rarely describe the bug being fixed.
+   */
+  private parseIssues(message: string): IssueLink[] {
+    const issues = new Map<string, IssueLink>();
+
+    for (const closing of message.matchAll(CLOSING_REFERENCE)) {
+      const keyword = closing[1].toLowerCase();
+      for (const ref of closing[2].matchAll(ISSUE_REFERENCE)) {
+        const repo = this.foreignRepo(ref[1] ?? ref[4]);
+        const number = Number(ref[2] ?? ref[5]);
+        const key = `${repo ?? ''}#${number}`;
+        if (!issues.has(key)) {
+          issues.set(key, { repo, number, keyword, url: ref[3] ?? this.issueUrl(number, repo) });
+        }
+      }
+    }
+
+    return Array.from(issues.values());
+  }
+
+  private parseJira(message: string): JiraLink[] {
+    const keys = new Set<string>();
+    for (const match of message.matchAll(JIRA_KEY)) {
+      if (!NOT_JIRA.has(match[1])) {
+        keys.add(match[0]);
+      }
+    }
+
+    const baseUrl = this.context.jiraBaseUrl?.replace(/\/+$/, '');
+    return Array.from(keys, (key) => ({ key, url: baseUrl ? `${baseUrl}/browse/${key}` : undefined }));
+  }
+
+  private parsePullRequest(message: string): PullRequestLink | undefined {
+    const subject = message.split('\n')[0];
+    const match =
+      subject.match(GITHUB_MERGE) ?? subject.match(SQUASH_SUFFIX) ?? message.match(GITLAB_MERGE);
+    if (!match) {
+      return undefined;
+    }
+
+    const number = Number(match[1]);
+    return { number, labels: [], url: this.pullRequestUrl(number) };
+  }
+
+  private parseCoAuthors(message: string): CoAuthor[] {
+    const authors: CoAuthor[] = [];
+    for (const match of message.matchAll(CO_AUTHOR)) {
+      authors.push({ name: match[1], email: match[2] || undefined });
+    }
+    return authors;
+  }
+
+  private commitUrl(sha: string): string | undefined {
+    const { repoWebUrl, forge } = this.context;
+    if (!repoWebUrl) {
+      return undefined;
+    }
+    switch (forge) {
+      case 'gitlab':
+        return `${repoWebUrl}/-/commit/${sha}`;
+      case 'bitbucket':
+        return `${repoWebUrl}/commits/${sha}`;
+      default:
+        return `${repoWebUrl}/commit/${sha}`;
+    }
+  }
+
+  private issueUrl(number: number, repo?: string): string | undefined {
+    const base = this.repoUrl(repo);
+    if (!base) {
+      return undefined;
+    }
+    return this.context.forge === 'gitlab' ? `${base}/-/issues/${number}` : `${base}/issues/${number}`;
+  }
+
+  private pullRequestUrl(number: number): string | undefined {
+    const base = this.context.repoWebUrl;
+    if (!base) {
+      return undefined;
+    }
+    switch (this.context.forge) {
+      case 'gitlab':
+        return `${base}/-/merge_requests/${number}`;
+      case 'bitbucket':
+        return `${base}/pull-requests/${number}`;
+      case 'gitea':
+        return `${base}/pulls/${number}`;
+      default:
+        return `${base}/pull/${number}`;
+    }
+  }
+
+  /**
+   * Drop the repository part of a reference when it names this repository
+   */
+  private foreignRepo(repo?: string): string | undefined {
+    if (!repo || !this.context.repoWebUrl) {
+      return repo;
+    }
+    try {
+      const ownPath = new URL(this.context.repoWebUrl).pathname.replace(/^\/+/, '');
+      return repo === ownPath ? undefined : repo;
+    } catch {
+      return repo;
+    }
+  }
+
+  /**
+   * Web URL of this repository, or of `owner/repo` on the same host
+   */
+  private repoUrl(repo?: string): string | undefined {
+    const base = this.context.repoWebUrl;
+    if (!base || !repo) {
+      return base;
+    }
+    try {
+      return `${new URL(base).origin}/${repo}`;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Best guess at the forge behind a remote host, for remotes scanned
+   * through local Git
+   */
+  static forgeForHost(host: string): ForgeKind {
+    if (host === 'bitbucket.org') return 'bitbucket';
+    if (/(^|\.)gitlab\b/.test(host)) return 'gitlab';
+    if (host === 'codeberg.org' || /gitea|forgejo/.test(host)) return 'gitea';
+    return 'github';
+  }
+}
@@ -0,0 +1,658 @@
+/**
+ * Commit Source Module
+ * Common interface for everything CodeGhost can read commit history from
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CancellationSignal, GitHubCommit, GitHubFile, LinkedIssue, PullRequestLink } from '../types';
+import { CommitClassifier } from './commitClassifier';
+import { CommitLinkParser } from './commitLinks';
+import { FileRename, PathHistory } from './pathHistory';
+import { ResponseCache } from './responseCache';
+
+export interface CommitSource {
+  /** Human-readable name used in progress messages */
+  readonly name: string;
+
+  /**
+   * Fetch the newest `maxCommits` commits (without diffs).
+   * When `sinceSha` is given, every commit newer than it is returned, even
+   * more than `maxCommits`, so the checkpoint never skips any; sources that
+   * read several branches also leave out what the previous scan's
+   * `scannedTips` reach.
+   */
+  fetchCommits(maxCommits: number, sinceSha?: string, scannedTips?: string[]): Promise<GitHubCommit[]>;
+
+  /**
+   * Commits the last `fetchCommits()` started from, when the source reads
+   * several branches; saved with the checkpoint for the next refresh
+   */
+  readonly scannedTips?: string[];
+
+  /**
+   * Check whether a previously scanned commit is still part of the history.
+   * Sources without an ancestry API may only look `searchDepth` commits back.
+   */
+  isAncestorOfHead(sha: string, searchDepth: number): Promise<boolean>;
+
+  /**
+   * Filter commits that are likely bug fixes
+   */
+  filterBugCommits(commits: GitHubCommit[], classifier?: CommitClassifier): GitHubCommit[];
+
+  /**
+   * Fetch one commit including its file diffs
+   */
+  fetchCommitDetails(sha: string): Promise<GitHubCommit>;
+
+  /**
+   * Fetch diffs for several commits, calling `onCommit` as each one arrives.
+   * Once `cancellation` is requested the batch stops early and resolves with
+   * the commits completed so far.
+   */
+  fetchCommitDetailsBatch(
+    shas: string[],
+    onCommit?: (commit: GitHubCommit) => void,
+    cancellation?: CancellationSignal
+  ): Promise<GitHubCommit[]>;
+
+  /**
+   * Collect the renames needed to map historical paths to current ones
+   * @param commits Every commit in the scanned window, newest first
+   * @param detailedCommits The commits whose diffs were fetched
+   */
+  fetchPathHistory(commits: GitHubCommit[], detailedCommits: GitHubCommit[]): Promise<PathHistory>;
+
+  /**
+   * Contents of a file as of a commit (for AST extraction), or undefined
+   * when it can't be read
+   */
+  fetchFileContent(sha: string, path: string): Promise<string | undefined>;
+
+  /**
+   * Set `label_evidence` (pull request labels, closed issues' labels and
+   * types) on each commit. Only hosted sources can do this.
+   */
+  fetchLabelEvidence?(commits: GitHubCommit[], cancellation?: CancellationSignal): Promise<void>;
+}
+
+/**
+ * Pull request as returned by a source, including the description that
+ * may close issues
+ */
+export interface PullRequestDetails extends PullRequestLink {
+  body?: string;
+}
+
+/**
+ * Thrown when a hosted API's rate limit is exhausted for longer than we are
+ * willing to wait
+ */
+export class RateLimitError extends Error {
+  constructor(message: string, public readonly resetAt: Date) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+export interface RemoteSourceOptions {
+  /** Cache for conditional (ETag) requests; responses aren't cached without one */
+  cache?: ResponseCache;
+  /** Number of commit detail requests in flight at once */
+  concurrency?: number;
+  /** Look up the pull request each detailed commit landed with (one extra request per commit) */
+  resolvePullRequests?: boolean;
+}
+
+interface RequestOptions {
+  params?: Record<string, any>;
+  /** Return the raw body (e.g. a `.diff`) instead of parsed JSON */
+  text?: boolean;
+  /** The response never changes (e.g. a commit by SHA), so a cached copy is used as is */
+  immutable?: boolean;
+  /** Ends retry and rate limit pauses early, for the batch the request belongs to */
+  cancellation?: CancellationSignal;
+}
+
+// Longest rate limit pause we sit through before giving up on the batch
+const MAX_RATE_LIMIT_WAIT_MS = 60 * 1000;
+const MAX_RETRIES = 4;
+const BASE_RETRY_DELAY_MS = 1000;
+
+/**
+ * Base class for hosted (HTTP API) commit sources.
+ * Subclasses provide paging and commit details; walking history back to a
+ * known SHA, batching, caching, rate limit handling and rename collection
+ * are shared.
+ */
+export abstract class RemoteCommitSource implements CommitSource {
+  abstract readonly name: string;
+  protected axiosInstance: AxiosInstance;
+
+  /** Largest page size the API accepts */
+  protected maxPageSize = 100;
+
+  /** Hosted APIs are rate limited, so only this many diffs are fetched */
+  protected maxDetailedCommits = 50;
+
+  private cache: ResponseCache | undefined;
+  private concurrency: number;
+  private resolvePullRequests: boolean;
+  // A scan asks about the same pull requests and issues more than once
+  private pullRequests = new Map<string, Promise<PullRequestDetails | undefined>>();
+  private issues = new Map<number, Promise<LinkedIssue | undefined>>();
+  // Set when the API reported an exhausted quota; requests wait until then
+  private rateLimitResetAt = 0;
+
+  constructor(baseURL: string, headers: Record<string, string>, options: RemoteSourceOptions = {}) {
+    this.axiosInstance = axios.create({
+      baseURL: baseURL.replace(/\/+$/, ''),
+      headers,
+    });
+    this.cache = options.cache;
+    this.concurrency = Math.max(1, options.concurrency ?? 4);
+    this.resolvePullRequests = options.resolvePullRequests ?? false;
+  }
+
+  /**
+   * Fetch one page (1-based) of commits, newest first
+   */
+  protected abstract fetchCommitPage(page: number, perPage: number): Promise<GitHubCommit[]>;
+
+  /**
+   * Fetch one commit including its file diffs; `cancellation` ends pauses
+   * for retries and rate limits early
+   */
+  abstract fetchCommitDetails(sha: string, cancellation?: CancellationSignal): Promise<GitHubCommit>;
+
+  /**
+   * Pull request a commit landed with; sources without such an API keep
+   * the default
+   */
+  protected async fetchPullRequest(sha: string, cancellation?: CancellationSignal): Promise<PullRequestDetails | undefined> {
+    return undefined;
+  }
+
+  /**
+   * Labels and type of an issue in this repository
+   */
+  protected async fetchIssue(issueNumber: number, cancellation?: CancellationSignal): Promise<LinkedIssue | undefined> {
+    return undefined;
+  }
+
+  /**
+   * Raw contents of a file at a commit
+   */
+  protected abstract fetchRawFile(sha: string, path: string): Promise<string | undefined>;
+
+  /**
+   * Files renamed after `base` up to `head`. Compare APIs report the net
+   * rename of the range, which is attributed to `head`; sources that can
+   * tell the commit of each rename report that instead.
+   */
+  protected abstract fetchRenames(base: string, head: string): Promise<FileRename[]>;
+
+  async fetchCommits(maxCommits: number = 100, sinceSha?: string): Promise<GitHubCommit[]> {
+    try {
+      // Paging goes on until the last scanned commit, however far back it is
+      return (await this.walkCommits(sinceSha ? Number.POSITIVE_INFINITY : maxCommits, sinceSha)).commits;
+    } catch (error: any) {
+      throw new Error(`Failed to fetch commits: ${error.message}`);
+    }
+  }
+
+  /**
+   * Without an ancestry API the best we can do is look for the commit in
+   * the newest `searchDepth` commits; anything older triggers a rebuild
+   */
+  async isAncestorOfHead(sha: string, searchDepth: number): Promise<boolean> {
+    return (await this.walkCommits(searchDepth, sha)).found;
+  }
+
+  filterBugCommits(
+    commits: GitHubCommit[],
+    classifier: CommitClassifier = new CommitClassifier()
+  ): GitHubCommit[] {
+    return classifier.filterBugCommits(commits);
+  }
+
+  /**
+   * Fetch commit details with up to `concurrency` requests in flight.
+   * Results keep the order of `shas`; a cancelled batch resolves with the
+   * commits completed so far.
+   */
+  async fetchCommitDetailsBatch(
+    shas: string[],
+    onCommit?: (commit: GitHubCommit) => void,
+    cancellation?: CancellationSignal
+  ): Promise<GitHubCommit[]> {
+    if (shas.length > this.maxDetailedCommits) {
+      console.log(`[CodeGhost] ${this.name}: only fetching details for the newest ${this.maxDetailedCommits} of ${shas.length} commits`);
+    }
+
+    const queue = shas.slice(0, this.maxDetailedCommits);
+    const detailed: Array<GitHubCommit | undefined> = new Array(queue.length);
+
+    await this.forEachConcurrently(
+      queue,
+      async (sha, index) => {
+        const commit = await this.fetchCommitDetails(sha, cancellation);
+        if (this.resolvePullRequests) {
+          commit.pull_request = RemoteCommitSource.withoutBody(await this.lookupPullRequest(commit.sha, cancellation));
+        }
+        detailed[index] = commit;
+        onCommit?.(commit);
+      },
+      cancellation
+    );
+
+    return detailed.filter((commit): commit is GitHubCommit => commit !== undefined);
+  }
+
+  /**
+   * Look up each commit's pull request and the issues it or its pull
+   * request closes (by closing keywords in the message or description)
+   */
+  async fetchLabelEvidence(commits: GitHubCommit[], cancellation?: CancellationSignal): Promise<void> {
+    const linkParser = new CommitLinkParser();
+
+    await this.forEachConcurrently(
+      commits,
+      async (commit) => {
+        const pull = await this.lookupPullRequest(commit.sha, cancellation);
+        const text = `${commit.commit.message}\n${pull?.body ?? ''}`;
+        const numbers = new Set(
+          linkParser
+            .parse(commit.sha, text)
+            .issues.filter((issue) => !issue.repo)
+            .map((issue) => issue.number)
+        );
+
+        const issues: LinkedIssue[] = [];
+        for (const issueNumber of numbers) {
+          const issue = await this.lookupIssue(issueNumber, cancellation);
+          if (issue) {
+            issues.push(issue);
+          }
+        }
+
+        commit.label_evidence = { pull_request: RemoteCommitSource.withoutBody(pull), issues };
+      },
+      cancellation
+    );
+  }
+
+  /**
+   * Run `task` over `items` with up to `concurrency` calls in flight.
+   * Stops at the first failure, or quietly once cancellation is requested.
+   */
+  private async forEachConcurrently<T>(
+    items: T[],
+    task: (item: T, index: number) => Promise<void>,
+    cancellation?: CancellationSignal
+  ): Promise<void> {
+    let next = 0;
+    let failure: unknown;
+
+    const worker = async () => {
+      while (next < items.length && failure === undefined && !cancellation?.isCancellationRequested) {
+        const index = next++;
+        try {
+          await task(items[index], index);
+        } catch (error) {
+          failure ??= error;
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, items.length) }, worker));
+
+    if (failure !== undefined && !cancellation?.isCancellationRequested) {
+      // Subclasses wrap request errors, so report an exhausted quota explicitly
+      throw this.rateLimitError() ?? failure;
+    }
+  }
+
+  /**
+   * A missing pull request never fails the commit it belongs to
+   */
+  private lookupPullRequest(sha: string, cancellation?: CancellationSignal): Promise<PullRequestDetails | undefined> {
+    let pending = this.pullRequests.get(sha);
+    if (!pending) {
+      pending = this.optional(() => this.fetchPullRequest(sha, cancellation), `pull request for ${sha.substring(0, 7)}`);
+      this.pullRequests.set(sha, pending);
+    }
+    return pending;
+  }
+
+  private lookupIssue(issueNumber: number, cancellation?: CancellationSignal): Promise<LinkedIssue | undefined> {
+    let pending = this.issues.get(issueNumber);
+    if (!pending) {
+      pending = this.optional(() => this.fetchIssue(issueNumber, cancellation), `issue #${issueNumber}`);
+      this.issues.set(issueNumber, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Treat a failed lookup as "unknown", except for an exhausted quota
+   */
+  private async optional<T>(lookup: () => Promise<T | undefined>, what: string): Promise<T | undefined> {
+    try {
+      return await lookup();
+    } catch (error: any) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      if (error.response?.status !== 404) {
+        console.log(`[CodeGhost] ${this.name}: could not look up ${what}: ${error.message}`);
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Repository path for use in a URL, keeping the slashes
+   */
+  protected static encodePath(path: string): string {
+    return path.split('/').map(encodeURIComponent).join('/');
+  }
+
+  private static withoutBody(pull: PullRequestDetails | undefined): PullRequestLink | undefined {
+    if (!pull) {
+      return undefined;
+    }
+    const { body, ...link } = pull;
+    return link;
+  }
+
+  /**
+   * Renames on the commits fetched in detail, plus the ones made anywhere in
+   * the scanned window (e.g. a move in a refactoring commit), from the
+   * source's compare API. Without the latter, only the detailed commits'
+   * renames are known.
+   */
+  async fetchPathHistory(
+    commits: GitHubCommit[],
+    detailedCommits: GitHubCommit[]
+  ): Promise<PathHistory> {
+    const renames = PathHistory.renamesIn(detailedCommits);
+    if (commits.length > 1) {
+      const head = commits[0].sha;
+      const base = commits[commits.length - 1].sha;
+      const range = await this.optional(() => this.fetchRenames(base, head), `renames since ${base.substring(0, 7)}`);
+      renames.push(...(range || []));
+    }
+    return new PathHistory(
+      commits.map((c) => c.sha),
+      renames
+    );
+  }
+
+  /**
+   * A file that can't be fetched (too large, deleted, no access) is simply
+   * left to line-based extraction
+   */
+  async fetchFileContent(sha: string, path: string): Promise<string | undefined> {
+    return this.optional(() => this.fetchRawFile(sha, path), `${path} at ${sha.substring(0, 7)}`);
+  }
+
+  /**
+   * Page through history until `maxCommits` commits were read or `stopAt`
+   * was reached (exclusive)
+   */
+  protected async walkCommits(
+    maxCommits: number,
+    stopAt?: string
+  ): Promise<{ commits: GitHubCommit[]; found: boolean }> {
+    const perPage = Math.min(maxCommits, this.maxPageSize);
+    const pages = Math.ceil(maxCommits / perPage);
+    const commits: GitHubCommit[] = [];
+
+    for (let page = 1; page <= pages; page++) {
+      const pageCommits = await this.fetchCommitPage(page, perPage);
+
+      const stopIndex = stopAt ? pageCommits.findIndex((commit) => commit.sha === stopAt) : -1;
+      if (stopIndex >= 0) {
+        commits.push(...pageCommits.slice(0, stopIndex));
+        return { commits: commits.slice(0, maxCommits), found: true };
+      }
+
+      commits.push(...pageCommits);
+
+      if (pageCommits.length < perPage) {
+        break; // No more commits
+      }
+    }
+
+    return { commits: commits.slice(0, maxCommits), found: false };
+  }
+
+  /**
+   * GET through the response cache, retrying rate-limited and transient
+   * failures. Cached responses are revalidated with `If-None-Match` /
+   * `If-Modified-Since`; a 304 doesn't count against GitHub's quota.
+   */
+  protected async get<T>(url: string, options: RequestOptions = {}): Promise<T> {
+    const key = ResponseCache.keyFor(`${this.axiosInstance.defaults.baseURL}${url}`, options.params);
+    const cached = this.cache?.get<T>(key);
+    if (cached && options.immutable) {
+      return cached.data;
+    }
+
+    const headers: Record<string, string> = {};
+    if (cached?.etag) headers['If-None-Match'] = cached.etag;
+    if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForRateLimit(options.cancellation);
+
+      try {
+        const response = await this.axiosInstance.get<T>(url, {
+          params: options.params,
+          headers,
+          validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
+          ...(options.text ? { responseType: 'text', transformResponse: (data: string) => data } : {}),
+        });
+        this.recordRateLimit(response.headers);
+
+        if (response.status === 304 && cached) {
+          return cached.data;
+        }
+
+        const etag = response.headers['etag'];
+        const lastModified = response.headers['last-modified'];
+        if (this.cache && (etag || lastModified || options.immutable)) {
+          this.cache.set(key, {
+            url,
+            etag,
+            lastModified,
+            fetchedAt: new Date().toISOString(),
+            data: response.data,
+          });
+        }
+        return response.data;
+      } catch (error: any) {
+        const delay = this.retryDelay(error, attempt);
+        if (delay === undefined) {
+          throw error;
+        }
+        if (delay > 0) {
+          console.log(`[CodeGhost] ${this.name}: request failed (${error.message}), retrying in ${Math.ceil(delay / 1000)}s`);
+          await this.sleep(delay, options.cancellation);
+        }
+      }
+    }
+  }
+
+  /**
+   * How long to wait before retrying a failed request, or undefined when it
+   * shouldn't be retried
+   */
+  private retryDelay(error: any, attempt: number): number | undefined {
+    if (attempt >= MAX_RETRIES) {
+      return undefined;
+    }
+
+    const response = error.response;
+    if (!response) {
+      // Network error or timeout
+      return BASE_RETRY_DELAY_MS * 2 ** attempt;
+    }
+
+    const status: number = response.status;
+    const headers = response.headers || {};
+    const remaining = headers['x-ratelimit-remaining'] ?? headers['ratelimit-remaining'];
+    const retryAfter = Number(headers['retry-after']);
+    const rateLimited = status === 429 || (status === 403 && (remaining === '0' || retryAfter > 0));
+
+    if (rateLimited) {
+      this.recordRateLimit(headers);
+      if (retryAfter > 0) {
+        return retryAfter * 1000; // Secondary rate limit
+      }
+      // An exhausted quota is waited out by waitForRateLimit() on the next attempt
+      return this.rateLimitResetAt > Date.now() ? 0 : BASE_RETRY_DELAY_MS * 2 ** attempt;
+    }
+
+    if (status >= 500) {
+      return BASE_RETRY_DELAY_MS * 2 ** attempt;
+    }
+    return undefined;
+  }
+
+  /**
+   * Remember when the quota resets once it has run out
+   * (GitHub/Gitea: `X-RateLimit-*`, GitLab: `RateLimit-*`)
+   */
+  private recordRateLimit(headers: Record<string, any>): void {
+    const remaining = headers['x-ratelimit-remaining'] ?? headers['ratelimit-remaining'];
+    const reset = Number(headers['x-ratelimit-reset'] ?? headers['ratelimit-reset']);
+    if (remaining === '0' && reset > 0) {
+      // Reset is an epoch timestamp in seconds
+      this.rateLimitResetAt = Math.max(this.rateLimitResetAt, reset * 1000);
+    }
+  }
+
+  /**
+   * Pause until an exhausted quota resets, or fail when that is too far off
+   */
+  private async waitForRateLimit(cancellation?: CancellationSignal): Promise<void> {
+    const wait = this.rateLimitResetAt - Date.now();
+    if (wait <= 0) {
+      return;
+    }
+
+    const error = this.rateLimitError();
+    if (error) {
+      throw error;
+    }
+
+    console.log(`[CodeGhost] ${this.name}: rate limit reached, waiting ${Math.ceil(wait / 1000)}s`);
+    await this.sleep(wait, cancellation);
+  }
+
+  /**
+   * Error for a quota that resets too far in the future to wait for
+   */
+  private rateLimitError(): RateLimitError | undefined {
+    if (this.rateLimitResetAt - Date.now() <= MAX_RATE_LIMIT_WAIT_MS) {
+      return undefined;
+    }
+    const resetAt = new Date(this.rateLimitResetAt);
+    return new RateLimitError(
+      `${this.name} rate limit exceeded, resets at ${resetAt.toLocaleTimeString()}`,
+      resetAt
+    );
+  }
+
+  /**
+   * Sleep that ends early (with an error) when the batch the request belongs
+   * to is cancelled
+   */
+  private async sleep(ms: number, cancellation?: CancellationSignal): Promise<void> {
+    const until = Date.now() + ms;
+    while (Date.now() < until) {
+      if (cancellation?.isCancellationRequested) {
+        throw new Error('Cancelled');
+      }
+      await new Promise((resolve) => setTimeout(resolve, Math.min(250, until - Date.now())));
+    }
+  }
+
+  /**
+   * Build a file entry from a unified diff patch, counting changed lines
+   */
+  protected static toFile(
+    filename: string,
+    status: string,
+    patch: string,
+    previousFilename?: string
+  ): GitHubFile {
+    let additions = 0;
+    let deletions = 0;
+    for (const line of patch.split('\n')) {
+      if (line.startsWith('+') && !line.startsWith('+++')) additions++;
+      if (line.startsWith('-') && !line.startsWith('---')) deletions++;
+    }
+
+    return {
+      filename,
+      previous_filename: previousFilename,
+      status,
+      additions,
+      deletions,
+      changes: additions + deletions,
+      patch,
+    };
+  }
+}
+
+/**
+ * Get remote URL from git config
+ */
+export async function getRemoteUrl(workspacePath: string): Promise<string | null> {
+  try {
+    const gitConfigPath = path.join(workspacePath, '.git', 'config');
+    if (!fs.existsSync(gitConfigPath)) {
+      return null;
+    }
+
+    const config = fs.readFileSync(gitConfigPath, 'utf-8');
+    const match = config.match(/url\s*=\s*(.+)/);
+    return match ? match[1].trim() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Split a Git remote URL (https, ssh or scp-style) into host and repo path,
+ * e.g. `git@gitlab.example.com:group/sub/project.git` →
+ * `{ host: 'gitlab.example.com', path: 'group/sub/project' }`
+ */
+export function parseRemoteUrl(url: string): { host: string; path: string } | null {
+  const trimmed = url.trim().replace(/\/+$/, '').replace(/\.git$/, '');
+
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)) {
+    try {
+      const parsed = new URL(trimmed);
+      // Keep the port for web URLs (self-hosted on :8443); an ssh port says
+      // nothing about where the API lives
+      const host = parsed.protocol.startsWith('http') ? parsed.host : parsed.hostname;
+      const repoPath = decodeURIComponent(parsed.pathname.replace(/^\/+/, ''));
+      return repoPath ? { host, path: repoPath } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  const scp = trimmed.match(/^(?:[^@/]+@)?([^:/]+):(.+)$/);
+  if (scp) {
+    return { host: scp[1], path: scp[2].replace(/^\/+/, '') };
+  }
+
+  return null;
+}
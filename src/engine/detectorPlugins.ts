@@ -0,0 +1,308 @@
+/**
+ * Detector Plugins Module
+ * Loads team-defined bug detectors from .codeghost/detectors/
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { BUG_CATEGORIES, BugCategory } from '../types';
+
+/**
+ * What a detector sees of one fix: a removed line, the added line that
+ * replaced it, and the whole hunk on both sides
+ */
+export interface DetectorInput {
+  buggyLine: string;
+  fixedLine: string;
+  buggyHunk: string[];
+  fixedHunk: string[];
+  language: string;
+  filename: string;
+}
+
+export interface DetectorResult {
+  regex: string;
+  category: BugCategory;
+  riskBase: number;
+  /** Shown on matches instead of the category's generic explanation */
+  reason?: string;
+  /** Regex the opening line of a block around the match must match, e.g. `^\s*for\b` */
+  enclosing?: string;
+}
+
+/**
+ * An example fix a plugin must (or must not) learn from
+ */
+export interface DetectorFixture {
+  name?: string;
+  language?: string;
+  buggy: string;
+  fixed: string;
+  /** Whether the detector should fire on this fix (default true) */
+  detects?: boolean;
+  /** More lines the learned regex must flag; the buggy line is always checked */
+  matches?: string[];
+  /** More lines it must not flag; the fixed line is always checked */
+  ignores?: string[];
+}
+
+export interface DetectorPlugin {
+  id: string;
+  /** File the plugin was loaded from */
+  source: string;
+  enabled: boolean;
+  /** Languages the plugin applies to; all when unset */
+  languages?: string[];
+  fixtures: DetectorFixture[];
+  detect(input: DetectorInput): DetectorResult | null;
+}
+
+export interface DetectorLoadOptions {
+  /** Load `.js` plugins; they run with the extension's privileges */
+  allowScripts?: boolean;
+  /** Per-plugin overrides of the `enabled` flag, by id */
+  enabled?: Record<string, boolean>;
+}
+
+/**
+ * Declarative rule as written in a `.json` / `.yaml` file
+ */
+interface RuleDefinition {
+  id: string;
+  enabled?: boolean;
+  languages?: string[];
+  /** Compare single lines (default) or the removed/added hunk as a whole */
+  scope?: 'line' | 'hunk';
+  /** Regex the buggy code matches and the fixed code no longer does */
+  buggy: string;
+  /** Regex the fixed code must match */
+  fixed?: string;
+  /** Regex to learn; `$1` / `$<name>` insert (escaped) groups of the `buggy` match. Defaults to `buggy`. */
+  regex?: string;
+  category?: BugCategory;
+  riskBase?: number;
+  reason?: string;
+  fixtures?: DetectorFixture[];
+}
+
+const RULE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+const SCRIPT_EXTENSIONS = ['.js', '.cjs'];
+
+export class DetectorPluginLoader {
+  constructor(private options: DetectorLoadOptions = {}) {}
+
+  /**
+   * Load every plugin in `.codeghost/detectors/`, including disabled ones.
+   * Files that fail to load are reported in `problems` and skipped.
+   */
+  load(workspacePath: string): { plugins: DetectorPlugin[]; problems: string[] } {
+    const dir = path.join(workspacePath, '.codeghost', 'detectors');
+    const plugins: DetectorPlugin[] = [];
+    const problems: string[] = [];
+
+    if (!fs.existsSync(dir)) {
+      return { plugins, problems };
+    }
+
+    for (const name of fs.readdirSync(dir).sort()) {
+      const file = path.join(dir, name);
+      const extension = path.extname(name).toLowerCase();
+      try {
+        let plugin: DetectorPlugin | undefined;
+        if (RULE_EXTENSIONS.includes(extension)) {
+          plugin = this.loadRule(file);
+        } else if (SCRIPT_EXTENSIONS.includes(extension)) {
+          if (!this.options.allowScripts) {
+            problems.push(`${name}: script detectors are disabled (codeghost.detectors.allowScripts)`);
+            continue;
+          }
+          plugin = this.loadScript(file);
+        }
+        if (!plugin) {
+          continue;
+        }
+
+        if (plugins.some((other) => other.id === plugin!.id)) {
+          throw new Error(`duplicate id "${plugin.id}"`);
+        }
+        plugin.enabled = this.options.enabled?.[plugin.id] ?? plugin.enabled;
+        plugins.push(plugin);
+      } catch (error: any) {
+        problems.push(`${name}: ${error.message}`);
+      }
+    }
+
+    return { plugins, problems };
+  }
+
+  /**
+   * Enabled plugins whose fixtures pass; the others are reported
+   */
+  loadActive(workspacePath: string): { plugins: DetectorPlugin[]; problems: string[] } {
+    const { plugins, problems } = this.load(workspacePath);
+    const active: DetectorPlugin[] = [];
+
+    for (const plugin of plugins.filter((p) => p.enabled)) {
+      const failures = DetectorPluginLoader.runFixtures(plugin);
+      if (failures.length > 0) {
+        problems.push(`${plugin.id}: disabled, ${failures.length} fixture(s) failed (${failures[0]})`);
+      } else {
+        active.push(plugin);
+      }
+    }
+
+    if (active.length > 0) {
+      console.log(`[CodeGhost] Loaded ${active.length} detector plugin(s): ${active.map((p) => p.id).join(', ')}`);
+    }
+    return { plugins: active, problems };
+  }
+
+  /**
+   * Check a plugin against its fixtures; returns one message per failure
+   */
+  static runFixtures(plugin: DetectorPlugin): string[] {
+    const failures: string[] = [];
+
+    plugin.fixtures.forEach((fixture, index) => {
+      const label = fixture.name ?? `fixture ${index + 1}`;
+      let result: DetectorResult | null;
+      try {
+        result = DetectorPluginLoader.run(plugin, {
+          buggyLine: fixture.buggy.trim(),
+          fixedLine: fixture.fixed.trim(),
+          buggyHunk: fixture.buggy.split('\n').map((line) => line.trim()),
+          fixedHunk: fixture.fixed.split('\n').map((line) => line.trim()),
+          language: fixture.language ?? plugin.languages?.[0] ?? 'unknown',
+          filename: '',
+        });
+      } catch (error: any) {
+        failures.push(`${label}: ${error.message}`);
+        return;
+      }
+
+      if ((fixture.detects ?? true) !== (result !== null)) {
+        failures.push(`${label}: expected the detector ${fixture.detects === false ? 'not ' : ''}to fire`);
+        return;
+      }
+      if (!result) {
+        return;
+      }
+
+      const regex = new RegExp(result.regex, 'i');
+      for (const line of [fixture.buggy, ...(fixture.matches || [])]) {
+        if (!regex.test(line)) {
+          failures.push(`${label}: /${result.regex}/ doesn't match "${line}"`);
+        }
+      }
+      for (const line of [fixture.fixed, ...(fixture.ignores || [])]) {
+        if (regex.test(line)) {
+          failures.push(`${label}: /${result.regex}/ also matches "${line}"`);
+        }
+      }
+    });
+
+    return failures;
+  }
+
+  /**
+   * Run a plugin on one fix and validate what it returns
+   */
+  static run(plugin: DetectorPlugin, input: DetectorInput): DetectorResult | null {
+    if (plugin.languages && !plugin.languages.includes(input.language)) {
+      return null;
+    }
+
+    const result = plugin.detect(input);
+    if (!result) {
+      return null;
+    }
+    if (typeof result.regex !== 'string') {
+      throw new Error('detector returned no regex');
+    }
+    new RegExp(result.regex); // Throws on an invalid pattern
+    if (result.enclosing !== undefined) {
+      new RegExp(result.enclosing);
+    }
+    if (!BUG_CATEGORIES.has(result.category)) {
+      throw new Error(`unknown category "${result.category}"`);
+    }
+
+    return {
+      regex: result.regex,
+      category: result.category,
+      riskBase: Math.min(10, Math.max(1, Math.round(Number(result.riskBase) || 5))),
+      reason: result.reason,
+      enclosing: result.enclosing,
+    };
+  }
+
+  private loadRule(file: string): DetectorPlugin {
+    const text = fs.readFileSync(file, 'utf-8');
+    const rule = (file.endsWith('.json') ? JSON.parse(text) : yaml.load(text)) as RuleDefinition;
+
+    if (!rule || typeof rule !== 'object' || typeof rule.id !== 'string' || typeof rule.buggy !== 'string') {
+      throw new Error('a rule needs an "id" and a "buggy" regex');
+    }
+    const category = rule.category ?? 'other';
+    if (!BUG_CATEGORIES.has(category)) {
+      throw new Error(`unknown category "${category}"`);
+    }
+
+    const buggy = new RegExp(rule.buggy, 'i');
+    const fixed = rule.fixed !== undefined ? new RegExp(rule.fixed, 'i') : undefined;
+
+    return {
+      id: rule.id,
+      source: file,
+      enabled: rule.enabled ?? true,
+      languages: rule.languages,
+      fixtures: rule.fixtures || [],
+      detect: (input) => {
+        const before = rule.scope === 'hunk' ? input.buggyHunk.join('\n') : input.buggyLine;
+        const after = rule.scope === 'hunk' ? input.fixedHunk.join('\n') : input.fixedLine;
+
+        const match = before.match(buggy);
+        if (!match || buggy.test(after) || (fixed && !fixed.test(after))) {
+          return null;
+        }
+        return {
+          regex: rule.regex !== undefined ? DetectorPluginLoader.substitute(rule.regex, match) : rule.buggy,
+          category,
+          riskBase: rule.riskBase ?? 5,
+          reason: rule.reason,
+        };
+      },
+    };
+  }
+
+  private loadScript(file: string): DetectorPlugin {
+    // Pick up edits made since the last scan
+    delete require.cache[require.resolve(file)];
+    const exported = require(file);
+    const module = exported?.default ?? exported;
+
+    if (!module || typeof module.id !== 'string' || typeof module.detect !== 'function') {
+      throw new Error('a script detector must export an "id" and a "detect" function');
+    }
+
+    return {
+      id: module.id,
+      source: file,
+      enabled: module.enabled ?? true,
+      languages: module.languages,
+      fixtures: module.fixtures || [],
+      detect: (input) => module.detect(input) ?? null,
+    };
+  }
+
+  /**
+   * Fill `$1` / `$<name>` in a rule's regex with escaped groups of the match
+   */
+  private static substitute(template: string, match: RegExpMatchArray): string {
+    const escape = (text = '') => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return template
+      .replace(/\$<(\w+)>/g, (_, name: string) => escape(match.groups?.[name]))
+      .replace(/\$(\d)/g, (_, index: string) => escape(match[Number(index)]));
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Feedback Module
+ * Records "Useful" / "False positive" reactions to matches in a team file
+ * and turns them into a per-pattern precision estimate
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { FeedbackEvent, FeedbackVerdict, PatternFeedback } from '../types';
+import { gitIdentity } from './gitProcess';
+
+export const DEFAULT_MAX_FALSE_POSITIVE_RATIO = 0.5;
+
+/** Votes a pattern needs before feedback can demote it */
+export const MIN_FEEDBACK_VOTES = 3;
+
+/**
+ * Beta prior on a pattern's precision: learned from real fixes, a pattern
+ * starts out trusted (mean 0.75), and a few votes move it noticeably
+ */
+const PRIOR_USEFUL = 3;
+const PRIOR_FALSE_POSITIVE = 1;
+export const PRIOR_PRECISION = PRIOR_USEFUL / (PRIOR_USEFUL + PRIOR_FALSE_POSITIVE);
+
+export class FeedbackStore {
+  private filePath: string;
+  private events: FeedbackEvent[] = [];
+  private summaries = new Map<string, PatternFeedback>();
+
+  /**
+   * @param maxFalsePositiveRatio Share of false-positive votes at which a
+   *   pattern is demoted
+   * @param supersededIds Ids of the retired patterns a pattern took over
+   *   (see `PatternStore.supersededIds`); votes on them count for it
+   */
+  constructor(
+    private workspacePath: string,
+    private maxFalsePositiveRatio: number = DEFAULT_MAX_FALSE_POSITIVE_RATIO,
+    private supersededIds: (patternId: string) => string[] = () => []
+  ) {
+    this.filePath = path.join(workspacePath, '.codeghost', 'feedback.jsonl');
+    this.reload();
+  }
+
+  /**
+   * Re-read the file, e.g. after a pull brought in the team's feedback
+   */
+  reload(): void {
+    this.events = this.readEvents();
+    this.summaries = this.summarize(this.events);
+  }
+
+  /**
+   * Append a verdict. The file only ever grows by whole lines, so copies
+   * edited on different branches merge by concatenation (`merge=union`).
+   */
+  async record(
+    patternId: string,
+    verdict: FeedbackVerdict,
+    location?: { file: string; line: number }
+  ): Promise<PatternFeedback> {
+    const event: FeedbackEvent = {
+      pattern_id: patternId,
+      verdict,
+      author: await gitIdentity(this.workspacePath),
+      created_at: new Date().toISOString(),
+      file: location?.file,
+      line: location?.line,
+    };
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, JSON.stringify(event) + '\n', 'utf-8');
+    } catch (error: any) {
+      throw new Error(`Failed to record feedback: ${error.message}`);
+    }
+
+    this.reload();
+    return this.get(patternId)!;
+  }
+
+  /**
+   * Feedback on a pattern, counting votes on the patterns it superseded;
+   * undefined when nobody reacted to it yet
+   */
+  get(patternId: string): PatternFeedback | undefined {
+    const superseded = this.supersededIds(patternId);
+    if (superseded.length === 0) {
+      return this.summaries.get(patternId);
+    }
+
+    const ids = new Set([patternId, ...superseded]);
+    const events = this.events
+      .filter((event) => ids.has(event.pattern_id))
+      .map((event) => ({ ...event, pattern_id: patternId }));
+    return this.summarize(events).get(patternId);
+  }
+
+  private readEvents(): FeedbackEvent[] {
+    let content: string;
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return [];
+      }
+      content = fs.readFileSync(this.filePath, 'utf-8');
+    } catch (error) {
+      console.error('[CodeGhost] Failed to read .codeghost/feedback.jsonl:', error);
+      return [];
+    }
+
+    const events: FeedbackEvent[] = [];
+    for (const line of content.split('\n')) {
+      if (line.trim() === '') {
+        continue;
+      }
+      try {
+        const event = JSON.parse(line);
+        if (typeof event.pattern_id === 'string' && (event.verdict === 'useful' || event.verdict === 'false_positive')) {
+          events.push(event);
+        }
+      } catch {
+        // A conflict marker or a line cut short by a crash
+        console.log(`[CodeGhost] Skipping unreadable feedback line: ${line.substring(0, 80)}`);
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Count each author's latest verdict per pattern and match location, so
+   * one person flagging several matches can still demote a pattern (a
+   * merge can repeat or reorder lines, so events are ordered by time, not
+   * position)
+   */
+  private summarize(events: FeedbackEvent[]): Map<string, PatternFeedback> {
+    const latest = new Map<string, FeedbackEvent>();
+    for (const event of events) {
+      const location = event.file !== undefined ? `${event.file}:${event.line ?? ''}` : '';
+      const key = `${event.pattern_id}\0${event.author}\0${location}`;
+      const previous = latest.get(key);
+      if (!previous || previous.created_at <= event.created_at) {
+        latest.set(key, event);
+      }
+    }
+
+    const summaries = new Map<string, PatternFeedback>();
+    for (const event of latest.values()) {
+      const summary = summaries.get(event.pattern_id) ?? { useful: 0, false_positive: 0, precision: 0, demoted: false };
+      summary[event.verdict]++;
+      summaries.set(event.pattern_id, summary);
+    }
+
+    for (const summary of summaries.values()) {
+      const votes = summary.useful + summary.false_positive;
+      summary.precision = (summary.useful + PRIOR_USEFUL) / (votes + PRIOR_USEFUL + PRIOR_FALSE_POSITIVE);
+      summary.demoted = votes >= MIN_FEEDBACK_VOTES && summary.false_positive / votes >= this.maxFalsePositiveRatio;
+    }
+    return summaries;
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * File Exclusions Module
+ * Recognizes generated, vendored and minified files, and files listed in
+ * .codeghostignore, which are neither learned from nor scanned
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { GitHubCommit } from '../types';
+import { CommitClassifier } from './commitClassifier';
+
+export type ExclusionReason =
+  | 'codeghostignore'
+  | 'generated'
+  | 'vendored'
+  | 'minified'
+  | 'lockfile'
+  | 'snapshot'
+  | 'build output';
+
+interface IgnoreRule {
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+/** A `.gitattributes` line; attributes map to true when set and false when unset */
+interface AttributeRule {
+  regex: RegExp;
+  attributes: Map<string, boolean>;
+}
+
+// Recognized by path alone, like GitHub Linguist's generated and vendored lists
+const PATH_RULES: Array<{ regex: RegExp; reason: ExclusionReason }> = [
+  {
+    regex:
+      /(?:^|\/)(?:package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb|Cargo\.lock|Gemfile\.lock|composer\.lock|poetry\.lock|Pipfile\.lock|go\.sum|flake\.lock|packages\.lock\.json)$/,
+    reason: 'lockfile',
+  },
+  { regex: /(?:^|\/)__snapshots__\/|\.snap$/, reason: 'snapshot' },
+  { regex: /[.-]min\.(?:js|mjs|css)$|\.(?:js|mjs|css)\.map$/, reason: 'minified' },
+  {
+    regex: /(?:^|\/)(?:node_modules|bower_components|vendor|third[_-]party|Godeps|\.yarn)\//,
+    reason: 'vendored',
+  },
+  { regex: /(?:^|\/)(?:dist|build|out)\//, reason: 'build output' },
+  {
+    regex: /\.pb\.(?:go|cc|h)$|_pb2(?:_grpc)?\.pyi?$|\.g\.dart$|\.generated\.\w+$|\.designer\.cs$|(?:^|\/)\.pnp\.c?js$/i,
+    reason: 'generated',
+  },
+];
+
+// `// Code generated by protoc-gen-go. DO NOT EDIT.`, `@generated`, `This file is auto-generated`
+const GENERATED_HEADER = /\bCode generated\b.*\bDO NOT EDIT\b|@generated\b|\bauto-?generated\b|\bgenerated by\b.*\bdo not (?:edit|modify)\b/i;
+const HEADER_LINES = 5;
+const HEADER_BYTES = 1024;
+
+// Linguist treats files whose lines average more than this many characters as minified
+const MINIFIED_LINE_LENGTH = 110;
+
+export class FileExclusions {
+  private ignoreRules: IgnoreRule[];
+  private attributeRules: AttributeRule[];
+
+  /**
+   * @param ignoreSource Contents of `.codeghostignore` (gitignore syntax)
+   * @param attributesSource Contents of `.gitattributes`, for `linguist-generated`
+   *   and `linguist-vendored`
+   */
+  constructor(private workspacePath: string, ignoreSource = '', attributesSource = '') {
+    this.ignoreRules = FileExclusions.parseIgnore(ignoreSource);
+    this.attributeRules = FileExclusions.parseAttributes(attributesSource);
+  }
+
+  /**
+   * Load `.codeghostignore` and `.gitattributes` from the workspace root
+   */
+  static fromWorkspace(workspacePath: string): FileExclusions {
+    const read = (name: string) => {
+      const file = path.join(workspacePath, name);
+      try {
+        return fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : '';
+      } catch (error) {
+        console.error(`[CodeGhost] Failed to read ${name}:`, error);
+        return '';
+      }
+    };
+    return new FileExclusions(workspacePath, read('.codeghostignore'), read('.gitattributes'));
+  }
+
+  /**
+   * Why a repo-relative path is excluded, or undefined when it isn't.
+   * Without `content`, the start of the file in the working tree is read to
+   * look for a generated-code header and minified lines.
+   *
+   * A `!pattern` in .codeghostignore, or `-linguist-generated` /
+   * `-linguist-vendored` in .gitattributes, re-includes a file the built-in
+   * rules would exclude.
+   */
+  check(relativePath: string, content?: string): ExclusionReason | undefined {
+    const ignored = this.matchIgnore(relativePath);
+    if (ignored !== undefined) {
+      return ignored ? 'codeghostignore' : undefined;
+    }
+
+    const generated = this.matchAttribute(relativePath, 'linguist-generated');
+    const vendored = this.matchAttribute(relativePath, 'linguist-vendored');
+    if (generated) {
+      return 'generated';
+    }
+    if (vendored) {
+      return 'vendored';
+    }
+
+    const byPath = PATH_RULES.find((rule) => rule.regex.test(relativePath))?.reason;
+    if (byPath && !(byPath === 'vendored' ? vendored === false : generated === false)) {
+      return byPath;
+    }
+    if (generated === false) {
+      return undefined;
+    }
+
+    const text = content ?? this.readHeader(relativePath);
+    if (text === undefined) {
+      return undefined;
+    }
+    if (GENERATED_HEADER.test(text.split('\n').slice(0, HEADER_LINES).join('\n'))) {
+      return 'generated';
+    }
+    if (FileExclusions.isMinified(text.split('\n'))) {
+      return 'minified';
+    }
+    return undefined;
+  }
+
+  /**
+   * Drop a commit's excluded files, recording each one's reason in
+   * `excluded`. Returns false when no files are left to learn from.
+   */
+  applyToCommit(commit: GitHubCommit, excluded: Map<string, ExclusionReason>): boolean {
+    if (!commit.files) {
+      return true;
+    }
+
+    commit.files = commit.files.filter((file) => {
+      // A few long changed lines don't make the file minified, so it is
+      // judged by its content or working-tree copy rather than the patch
+      const reason = this.check(file.filename, file.content);
+      if (reason) {
+        excluded.set(file.filename, reason);
+      }
+      return !reason;
+    });
+
+    return commit.files.length > 0;
+  }
+
+  /**
+   * Describe excluded files by reason, e.g. `3 generated, 1 .codeghostignore`
+   */
+  static summarize(excluded: Map<string, ExclusionReason>): string {
+    const counts = new Map<ExclusionReason, number>();
+    for (const reason of excluded.values()) {
+      counts.set(reason, (counts.get(reason) ?? 0) + 1);
+    }
+    return Array.from(counts)
+      .sort((a, b) => b[1] - a[1])
+      .map(([reason, count]) => `${count} ${reason === 'codeghostignore' ? '.codeghostignore' : reason}`)
+      .join(', ');
+  }
+
+  /**
+   * Last matching .codeghostignore rule: true if ignored, false if
+   * re-included by a negation, undefined if none matched. A file inside an
+   * ignored directory stays ignored, as in Git.
+   */
+  private matchIgnore(relativePath: string): boolean | undefined {
+    if (this.ignoreRules.length === 0) {
+      return undefined;
+    }
+
+    const segments = relativePath.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      if (this.lastIgnoreMatch(segments.slice(0, i).join('/'), true)) {
+        return true;
+      }
+    }
+    return this.lastIgnoreMatch(relativePath, false);
+  }
+
+  private lastIgnoreMatch(candidate: string, isDirectory: boolean): boolean | undefined {
+    let result: boolean | undefined;
+    for (const rule of this.ignoreRules) {
+      if ((isDirectory || !rule.directoryOnly) && rule.regex.test(candidate)) {
+        result = !rule.negated;
+      }
+    }
+    return result;
+  }
+
+  private matchAttribute(relativePath: string, attribute: string): boolean | undefined {
+    let result: boolean | undefined;
+    for (const rule of this.attributeRules) {
+      if (rule.attributes.has(attribute) && rule.regex.test(relativePath)) {
+        result = rule.attributes.get(attribute);
+      }
+    }
+    return result;
+  }
+
+  private readHeader(relativePath: string): string | undefined {
+    let fd: number | undefined;
+    try {
+      fd = fs.openSync(path.join(this.workspacePath, relativePath), 'r');
+      const buffer = Buffer.alloc(HEADER_BYTES);
+      const bytes = fs.readSync(fd, buffer, 0, HEADER_BYTES, 0);
+      return buffer.toString('utf-8', 0, bytes);
+    } catch {
+      // Deleted since the commit, or outside the workspace
+      return undefined;
+    } finally {
+      if (fd !== undefined) {
+        fs.closeSync(fd);
+      }
+    }
+  }
+
+  private static isMinified(lines: string[]): boolean {
+    const nonEmpty = lines.filter((line) => line.trim().length > 0);
+    if (nonEmpty.length === 0) {
+      return false;
+    }
+    const total = nonEmpty.reduce((sum, line) => sum + line.length, 0);
+    return total / nonEmpty.length > MINIFIED_LINE_LENGTH;
+  }
+
+  /**
+   * Parse gitignore syntax: `#` comments, `!` negations, trailing `/` for
+   * directories, and `\` escaping a leading `#` or `!`
+   */
+  private static parseIgnore(source: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    for (const raw of source.split(/\r?\n/)) {
+      let line = raw.replace(/(?<!\\)\s+$/, '');
+      if (line === '' || line.startsWith('#')) {
+        continue;
+      }
+
+      const negated = line.startsWith('!');
+      line = negated ? line.substring(1) : line.replace(/^\\([#!])/, '$1');
+      const directoryOnly = line.endsWith('/');
+      const glob = line.replace(/\/+$/, '');
+      if (glob === '') {
+        continue;
+      }
+      rules.push({ regex: CommitClassifier.globToRegExp(glob), negated, directoryOnly });
+    }
+    return rules;
+  }
+
+  /**
+   * Parse `.gitattributes` lines (`pattern attr -attr attr=value`), keeping
+   * the Linguist attributes
+   */
+  private static parseAttributes(source: string): AttributeRule[] {
+    const rules: AttributeRule[] = [];
+    for (const raw of source.split(/\r?\n/)) {
+      const [pattern, ...tokens] = raw.trim().split(/\s+/);
+      if (!pattern || pattern.startsWith('#')) {
+        continue;
+      }
+
+      const attributes = new Map<string, boolean>();
+      for (const token of tokens) {
+        const match = token.match(/^([-!]?)(linguist-(?:generated|vendored))(?:=(\w+))?$/);
+        if (match && match[1] !== '!') {
+          attributes.set(match[2], match[1] !== '-' && match[3] !== 'false');
+        }
+      }
+      if (attributes.size > 0) {
+        rules.push({ regex: CommitClassifier.globToRegExp(pattern), attributes });
+      }
+    }
+    return rules;
+  }
+}
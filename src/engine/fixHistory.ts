@@ -0,0 +1,293 @@
+/**
+ * Fix History Module
+ * Detects reverted fixes and fix-after-fix chains on the same lines
+ */
+
+import { BugPattern, GitHubCommit } from '../types';
+
+// "This reverts commit 1a2b3c4d." as written by `git revert`
+const REVERT_TRAILER = /\bThis reverts commit ([0-9a-f]{7,40})\b/i;
+
+/** Fixes further apart than this don't form a chain */
+const FIX_CHAIN_WINDOW_DAYS = 30;
+/** How far outside a hunk's changed lines a pattern's line may point */
+const LINE_TOLERANCE = 2;
+/** risk_base added for every extra attempt it took to fix the same code */
+const CHAIN_RISK_BOOST = 1;
+
+interface ChangedRegion {
+  sha: string;
+  date: number;
+  filename: string;
+  previousFilename?: string;
+  /** Old-side lines that were removed, or where lines were inserted */
+  oldLines: number[];
+  /** New-side lines that were added */
+  newLines: number[];
+  /** Lines (either side) a commit reference may point into */
+  start: number;
+  end: number;
+}
+
+export class FixHistory {
+  // Reverting commit -> reverted SHA (possibly abbreviated)
+  private reverts = new Map<string, string>();
+  private undone = new Set<string>();
+
+  /**
+   * @param commits Every commit in the scanned window, newest first
+   */
+  constructor(private commits: GitHubCommit[]) {
+    for (const commit of commits) {
+      const reverted = FixHistory.parseRevert(commit.commit.message);
+      if (reverted) {
+        this.reverts.set(commit.sha, reverted);
+      }
+    }
+    this.resolveUndone();
+  }
+
+  /**
+   * SHA named by a `git revert` message, if any
+   */
+  static parseRevert(message: string): string | undefined {
+    return message.match(REVERT_TRAILER)?.[1].toLowerCase();
+  }
+
+  /**
+   * Commits whose change was rolled back by a revert that is itself still in
+   * effect. Their "fixed" side is the code that got reverted, so patterns
+   * learned from them point the wrong way.
+   */
+  getUndoneCommits(): string[] {
+    return Array.from(this.undone);
+  }
+
+  isUndone(sha: string): boolean {
+    return Array.from(this.undone).some((undone) => FixHistory.sameSha(undone, sha));
+  }
+
+  /**
+   * Link references from revert commits to what they reverted, and mark and
+   * boost patterns whose code took several fix attempts
+   * @param detailedCommits Fix commits (with diffs) the patterns came from
+   */
+  annotatePatterns(patterns: BugPattern[], detailedCommits: GitHubCommit[]): void {
+    // Regions in a chain by commit and file, so each reference only checks
+    // the hunks of its own commit and file
+    const chained = new Map<string, Array<{ region: ChangedRegion; shas: string[] }>>();
+    for (const chain of this.findFixChains(detailedCommits)) {
+      for (const region of chain.regions) {
+        const key = `${region.sha}\0${region.filename}`;
+        if (!chained.has(key)) {
+          chained.set(key, []);
+        }
+        chained.get(key)!.push({ region, shas: chain.shas });
+      }
+    }
+
+    for (const pattern of patterns) {
+      let attempts = 1;
+
+      for (const ref of pattern.commits) {
+        const reverted = this.reverts.get(ref.sha);
+        if (reverted) {
+          ref.reverts = this.expandSha(reverted);
+        }
+
+        const chain = chained
+          .get(`${ref.sha}\0${ref.historical_file ?? ref.file}`)
+          ?.find(
+            ({ region }) => ref.line >= region.start - LINE_TOLERANCE && ref.line <= region.end + LINE_TOLERANCE
+          );
+        if (chain) {
+          ref.fix_chain = chain.shas.filter((sha) => sha !== ref.sha);
+          attempts = Math.max(attempts, chain.shas.length);
+        }
+      }
+
+      if (attempts > 1) {
+        pattern.risk_base = Math.min(10, pattern.risk_base + CHAIN_RISK_BOOST * (attempts - 1));
+      }
+    }
+  }
+
+  /**
+   * Group fixes that changed the same lines of a file within a short time,
+   * each group ordered oldest first
+   */
+  private findFixChains(commits: GitHubCommit[]): Array<{ shas: string[]; regions: ChangedRegion[] }> {
+    // Oldest first; commits from the same second keep history order (input is newest first)
+    const position = new Map(commits.map((commit, index) => [commit.sha, index]));
+    const regions = commits
+      .flatMap((commit) => this.changedRegions(commit))
+      .sort((a, b) => a.date - b.date || position.get(b.sha)! - position.get(a.sha)!);
+
+    // Union-find over regions
+    const parent = regions.map((_, index) => index);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+    // Each region is compared only with earlier regions of the same file
+    // (by its current or previous name) inside the window, walking back
+    // from the newest; the lines each one wrote are collected once
+    const windowMs = FIX_CHAIN_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+    const written = regions.map((region) => new Set(region.newLines));
+    const byFile = new Map<string, number[]>();
+    regions.forEach((b, later) => {
+      const names = b.previousFilename && b.previousFilename !== b.filename ? [b.filename, b.previousFilename] : [b.filename];
+      for (const name of names) {
+        const earlierRegions = byFile.get(name) || [];
+        for (let i = earlierRegions.length - 1; i >= 0; i--) {
+          const earlier = earlierRegions[i];
+          const a = regions[earlier];
+          if (b.date - a.date > windowMs) {
+            break;
+          }
+          if (a.sha !== b.sha && FixHistory.overlaps(written[earlier], b.oldLines)) {
+            parent[find(later)] = find(earlier);
+          }
+        }
+      }
+      if (!byFile.has(b.filename)) {
+        byFile.set(b.filename, []);
+      }
+      byFile.get(b.filename)!.push(later);
+    });
+
+    const groups = new Map<number, ChangedRegion[]>();
+    regions.forEach((region, index) => {
+      const root = find(index);
+      groups.set(root, [...(groups.get(root) || []), region]);
+    });
+
+    const chains: Array<{ shas: string[]; regions: ChangedRegion[] }> = [];
+    for (const group of groups.values()) {
+      const shas = Array.from(new Set(group.map((region) => region.sha)));
+      if (shas.length > 1) {
+        chains.push({ shas, regions: group });
+      }
+    }
+
+    if (chains.length > 0) {
+      console.log(`[CodeGhost] Found ${chains.length} fix chain(s) on repeatedly fixed code`);
+    }
+    return chains;
+  }
+
+  /**
+   * Changed line ranges of every hunk in a commit
+   */
+  private changedRegions(commit: GitHubCommit): ChangedRegion[] {
+    const date = Date.parse(commit.commit.author.date) || 0;
+    const regions: ChangedRegion[] = [];
+
+    for (const file of commit.files || []) {
+      if (!file.patch) {
+        continue;
+      }
+
+      let region: ChangedRegion | undefined;
+      let oldLine = 0;
+      let newLine = 0;
+      let replacing = false;
+
+      for (const line of file.patch.split('\n')) {
+        const hunk = line.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)/);
+        if (hunk) {
+          oldLine = parseInt(hunk[1], 10);
+          newLine = parseInt(hunk[2], 10);
+          region = {
+            sha: commit.sha,
+            date,
+            filename: file.filename,
+            previousFilename: file.previous_filename,
+            oldLines: [],
+            newLines: [],
+            start: Math.min(oldLine, newLine),
+            end: Math.max(oldLine, newLine),
+          };
+          regions.push(region);
+          continue;
+        }
+        if (!region) {
+          continue;
+        }
+
+        if (line.startsWith('-')) {
+          region.oldLines.push(oldLine);
+          region.end = Math.max(region.end, oldLine);
+          oldLine++;
+          replacing = true;
+        } else if (line.startsWith('+')) {
+          if (!replacing) {
+            region.oldLines.push(oldLine); // Insertion point of a pure insertion
+          }
+          region.newLines.push(newLine);
+          region.end = Math.max(region.end, newLine);
+          newLine++;
+        } else if (!line.startsWith('\\')) {
+          oldLine++;
+          newLine++;
+          replacing = false;
+        }
+      }
+    }
+
+    return regions.filter((region) => region.oldLines.length > 0);
+  }
+
+  /**
+   * A commit is undone when a revert of it is itself still in effect
+   * (reverting the revert reinstates it)
+   */
+  private resolveUndone(): void {
+    const memo = new Map<string, boolean>();
+
+    const undoneAt = (sha: string, depth: number): boolean => {
+      if (depth > this.reverts.size) {
+        return false; // Defensive: malformed revert cycles
+      }
+      const cached = memo.get(sha);
+      if (cached !== undefined) {
+        return cached;
+      }
+
+      let undone = false;
+      for (const [revert, reverted] of this.reverts) {
+        if (FixHistory.sameSha(reverted, sha) && !undoneAt(revert, depth + 1)) {
+          undone = true;
+          break;
+        }
+      }
+      memo.set(sha, undone);
+      return undone;
+    };
+
+    for (const reverted of new Set(this.reverts.values())) {
+      const sha = this.expandSha(reverted);
+      if (undoneAt(sha, 0)) {
+        this.undone.add(sha);
+      }
+    }
+  }
+
+  /**
+   * Full SHA for an abbreviated one, when the commit is in the window
+   */
+  private expandSha(sha: string): string {
+    return this.commits.find((commit) => FixHistory.sameSha(sha, commit.sha))?.sha ?? sha;
+  }
+
+  private static sameSha(a: string, b: string): boolean {
+    return a.length <= b.length ? b.startsWith(a) : a.startsWith(b);
+  }
+
+  /**
+   * Whether a later fix touched lines an earlier fix had just written.
+   * Line numbers are compared as-is: commits in between may shift them, but
+   * allowing slack here chains unrelated edits on neighbouring lines.
+   */
+  private static overlaps(earlierLines: ReadonlySet<number>, laterLines: number[]): boolean {
+    return laterLines.some((line) => earlierLines.has(line));
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * Git Log Parser Module
+ * Incrementally parses `git log -p --format=...` output into commits
+ */
+
+import { GitHubCommit, GitHubFile } from '../types';
+
+const COMMIT_START = '\x1d';
+const FIELD_SEPARATOR = '\x1f';
+const MESSAGE_END = '\x1e';
+
+/**
+ * `--format` argument producing the layout this parser expects:
+ * a header line, the raw message and an end-of-message line
+ */
+export const GIT_LOG_FORMAT = '--format=%x1d%H%x1f%an%x1f%ae%x1f%aI%n%B%n%x1e';
+
+export const DEFAULT_MAX_FILE_DIFF_BYTES = 256 * 1024;
+
+export interface GitLogParserOptions {
+  /** Per-file patch size above which the file is skipped */
+  maxFileDiffBytes: number;
+}
+
+interface FileInProgress {
+  filename: string;
+  previousFilename?: string;
+  status: string;
+  patchLines: string[];
+  patchBytes: number;
+  additions: number;
+  deletions: number;
+  skipReason?: string;
+  inHunks: boolean;
+}
+
+type ParserState = 'idle' | 'message' | 'diff';
+
+export class GitLogParser {
+  private state: ParserState = 'idle';
+  private commit: GitHubCommit | undefined;
+  private messageLines: string[] = [];
+  private file: FileInProgress | undefined;
+
+  constructor(
+    private onCommit: (commit: GitHubCommit) => void,
+    private options: GitLogParserOptions
+  ) {}
+
+  /**
+   * Feed one output line. `truncated` marks a line that was cut off because
+   * it exceeded the stream's line length limit.
+   */
+  push(line: string, truncated: boolean = false): void {
+    if (line.startsWith(COMMIT_START)) {
+      this.finishCommit();
+      this.startCommit(line.substring(COMMIT_START.length));
+      return;
+    }
+
+    switch (this.state) {
+      case 'message':
+        if (line === MESSAGE_END) {
+          this.commit!.commit.message = this.messageLines.join('\n').trim();
+          this.messageLines = [];
+          this.state = 'diff';
+        } else {
+          this.messageLines.push(line);
+        }
+        break;
+
+      case 'diff':
+        this.pushDiffLine(line, truncated);
+        break;
+
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Flush the last commit once the stream has ended
+   */
+  end(): void {
+    this.finishCommit();
+  }
+
+  private startCommit(header: string): void {
+    const [sha, author, email, date] = header.split(FIELD_SEPARATOR);
+    this.commit = {
+      sha,
+      commit: {
+        message: '',
+        author: {
+          name: author || 'Unknown',
+          email: email || undefined,
+          date: date || new Date().toISOString(),
+        },
+      },
+      files: [],
+    };
+    this.state = 'message';
+  }
+
+  private pushDiffLine(line: string, truncated: boolean): void {
+    if (line.startsWith('diff --git ')) {
+      this.finishFile();
+      this.startFile(line);
+      return;
+    }
+
+    if (line.startsWith('diff --cc ') || line.startsWith('diff --combined ')) {
+      // Combined merge diffs can't be paired line by line
+      this.finishFile();
+      return;
+    }
+
+    const file = this.file;
+    if (!file || file.skipReason) {
+      return;
+    }
+
+    if (!file.inHunks) {
+      if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+        file.skipReason = 'binary diff';
+      } else if (line.startsWith('new file mode ')) {
+        file.status = 'added';
+      } else if (line.startsWith('deleted file mode ')) {
+        file.status = 'removed';
+      } else if (line.startsWith('rename from ') || line.startsWith('copy from ')) {
+        file.status = line.startsWith('rename') ? 'renamed' : 'copied';
+        file.previousFilename = line.substring(line.indexOf(' from ') + 6);
+      } else if (line.startsWith('rename to ') || line.startsWith('copy to ')) {
+        file.filename = line.substring(line.indexOf(' to ') + 4);
+      } else if (line.startsWith('+++ ') && line !== '+++ /dev/null') {
+        file.filename = line.substring(4).replace(/^b\//, '');
+      } else if (line.startsWith('@@')) {
+        file.inHunks = true;
+      }
+
+      if (!file.inHunks) {
+        return;
+      }
+    }
+
+    if (line === '') {
+      // Blank separator between commits, patch lines always carry a prefix
+      return;
+    }
+
+    if (truncated) {
+      file.skipReason = 'line too long (minified or generated file?)';
+      file.patchLines = [];
+      return;
+    }
+
+    file.patchBytes += Buffer.byteLength(line, 'utf-8') + 1;
+    if (file.patchBytes > this.options.maxFileDiffBytes) {
+      file.skipReason = `diff larger than ${this.options.maxFileDiffBytes} bytes`;
+      file.patchLines = [];
+      return;
+    }
+
+    if (line.startsWith('+')) file.additions++;
+    if (line.startsWith('-')) file.deletions++;
+    file.patchLines.push(line);
+  }
+
+  private startFile(header: string): void {
+    // "diff --git a/file.ts b/file.ts"; the +++ line refines this later
+    const match = header.match(/^diff --git a\/(.+?) b\/(.+)$/);
+    this.file = {
+      filename: match ? match[2] : header.substring('diff --git '.length),
+      status: 'modified',
+      patchLines: [],
+      patchBytes: 0,
+      additions: 0,
+      deletions: 0,
+      inHunks: false,
+    };
+  }
+
+  private finishFile(): void {
+    const file = this.file;
+    this.file = undefined;
+
+    if (!file || !this.commit) {
+      return;
+    }
+
+    if (file.skipReason) {
+      console.log(
+        `[CodeGhost] Skipping ${file.filename} in ${this.commit.sha.substring(0, 7)}: ${file.skipReason}`
+      );
+      return;
+    }
+
+    if (file.patchLines.length === 0) {
+      return;
+    }
+
+    const parsed: GitHubFile = {
+      filename: file.filename,
+      previous_filename: file.previousFilename,
+      status: file.status,
+      additions: file.additions,
+      deletions: file.deletions,
+      changes: file.additions + file.deletions,
+      patch: file.patchLines.join('\n'),
+    };
+    this.commit.files!.push(parsed);
+  }
+
+  private finishCommit(): void {
+    this.finishFile();
+
+    if (this.commit) {
+      if (this.state === 'message') {
+        this.commit.commit.message = this.messageLines.join('\n').trim();
+      }
+      const commit = this.commit;
+      this.commit = undefined;
+      this.messageLines = [];
+      this.onCommit(commit);
+    }
+
+    this.state = 'idle';
+  }
+}
+
+/**
+ * Parse a plain `git diff`-style text (as served by hosting APIs) into files
+ */
+export function parseUnifiedDiff(
+  sha: string,
+  diff: string,
+  options: GitLogParserOptions = { maxFileDiffBytes: DEFAULT_MAX_FILE_DIFF_BYTES }
+): GitHubFile[] {
+  let files: GitHubFile[] = [];
+  const parser = new GitLogParser((commit) => {
+    files = commit.files || [];
+  }, options);
+
+  parser.push(`${COMMIT_START}${sha}`);
+  parser.push(MESSAGE_END);
+  for (const line of diff.split('\n')) {
+    parser.push(line.replace(/\r$/, ''));
+  }
+  parser.end();
+
+  return files;
+}
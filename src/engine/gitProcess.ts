@@ -0,0 +1,176 @@
+/**
+ * Git Process Module
+ * Runs git with argument arrays (no shell) and streams its output line by line
+ */
+
+import { spawn } from 'child_process';
+import * as os from 'os';
+import { CancellationSignal } from '../types';
+
+export class GitCommandError extends Error {
+  constructor(
+    message: string,
+    public readonly exitCode: number | null,
+    public readonly stderr: string
+  ) {
+    super(message);
+    this.name = 'GitCommandError';
+  }
+}
+
+export interface GitStreamOptions {
+  /** Text written to git's stdin (e.g. revisions for `--stdin`) */
+  stdin?: string;
+  /** Lines longer than this are cut off and reported as truncated */
+  maxLineLength?: number;
+  /** Stops git and resolves with whatever was streamed so far */
+  cancellation?: CancellationSignal;
+}
+
+const DEFAULT_MAX_LINE_LENGTH = 64 * 1024;
+const MAX_STDERR_LENGTH = 8 * 1024;
+
+/**
+ * Run git and hand every output line to `onLine` as it arrives.
+ * Memory stays bounded by `maxLineLength`: the rest of an overlong line is
+ * dropped instead of buffered.
+ */
+export function streamGit(
+  cwd: string,
+  args: string[],
+  onLine: (line: string, truncated: boolean) => void,
+  options: GitStreamOptions = {}
+): Promise<void> {
+  const maxLineLength = options.maxLineLength ?? DEFAULT_MAX_LINE_LENGTH;
+
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', ['-c', 'core.quotepath=off', ...args], {
+      cwd,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    let pending = '';
+    let truncated = false;
+    let stderr = '';
+    let failed = false;
+    let cancelled = false;
+
+    const fail = (error: Error) => {
+      if (!failed) {
+        failed = true;
+        child.kill();
+        reject(error);
+      }
+    };
+
+    const emit = (line: string, lineTruncated: boolean) => {
+      try {
+        onLine(line, lineTruncated);
+      } catch (error: any) {
+        fail(error);
+      }
+    };
+
+    const append = (text: string) => {
+      if (truncated) {
+        return;
+      }
+      pending += text;
+      if (pending.length > maxLineLength) {
+        pending = pending.substring(0, maxLineLength);
+        truncated = true;
+      }
+    };
+
+    child.stdout.setEncoding('utf-8');
+    child.stdout.on('data', (chunk: string) => {
+      if (failed || cancelled) {
+        return;
+      }
+
+      if (options.cancellation?.isCancellationRequested) {
+        cancelled = true;
+        child.kill();
+        resolve();
+        return;
+      }
+
+      let start = 0;
+      let newline = chunk.indexOf('\n', start);
+
+      while (newline !== -1) {
+        append(chunk.substring(start, newline));
+        emit(pending, truncated);
+        pending = '';
+        truncated = false;
+        start = newline + 1;
+        newline = chunk.indexOf('\n', start);
+      }
+
+      append(chunk.substring(start));
+    });
+
+    child.stderr.setEncoding('utf-8');
+    child.stderr.on('data', (chunk: string) => {
+      if (stderr.length < MAX_STDERR_LENGTH) {
+        stderr += chunk;
+      }
+    });
+
+    child.on('error', (error) => fail(error));
+
+    child.on('close', (code) => {
+      if (failed || cancelled) {
+        return;
+      }
+      if (pending.length > 0 || truncated) {
+        emit(pending, truncated);
+      }
+      if (code !== 0) {
+        fail(new GitCommandError(`git ${args[0]} exited with code ${code}: ${stderr.trim()}`, code, stderr));
+        return;
+      }
+      resolve();
+    });
+
+    child.stdin.on('error', () => {
+      // git may exit before reading all of stdin; the exit code reports it
+    });
+    child.stdin.end(options.stdin ?? '');
+  });
+}
+
+/**
+ * Run git and collect its (small) output as a string
+ */
+export async function runGit(cwd: string, args: string[], options: GitStreamOptions = {}): Promise<string> {
+  const lines: string[] = [];
+  await streamGit(cwd, args, (line) => lines.push(line), options);
+  return lines.join('\n');
+}
+
+/**
+ * Version of the git on the PATH, e.g. `[2, 39, 5]`; empty when its output
+ * can't be parsed
+ */
+export async function gitVersion(cwd: string): Promise<number[]> {
+  const match = (await runGit(cwd, ['--version'])).match(/(\d+)\.(\d+)(?:\.(\d+))?/);
+  return match ? match.slice(1).map((part) => Number(part ?? 0)) : [];
+}
+
+/**
+ * `Name <email>` from the Git config, falling back to the OS user when no
+ * identity is configured; recorded on suppressions and feedback
+ */
+export async function gitIdentity(cwd: string): Promise<string> {
+  try {
+    const name = (await runGit(cwd, ['config', 'user.name'])).trim();
+    const email = (await runGit(cwd, ['config', 'user.email'])).trim();
+    if (name) {
+      return email ? `${name} <${email}>` : name;
+    }
+  } catch {
+    // No Git identity configured
+  }
+  return os.userInfo().username;
+}
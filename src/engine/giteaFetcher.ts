@@ -0,0 +1,140 @@
+/**
+ * Gitea Fetcher Module
+ * Fetches commits from a Gitea or Forgejo instance (including Codeberg)
+ */
+
+import { CancellationSignal, GitHubCommit, LinkedIssue } from '../types';
+import { PullRequestDetails, RemoteCommitSource, RemoteSourceOptions } from './commitSource';
+import { parseUnifiedDiff } from './gitLogParser';
+import { FileRename } from './pathHistory';
+
+export class GiteaFetcher extends RemoteCommitSource {
+  readonly name = 'Gitea';
+
+  /**
+   * @param apiUrl API base URL, e.g. `https://codeberg.org/api/v1`
+   */
+  constructor(
+    token: string,
+    private owner: string,
+    private repo: string,
+    apiUrl: string,
+    options: RemoteSourceOptions = {}
+  ) {
+    super(apiUrl, { Authorization: `token ${token}` }, options);
+    // Gitea's default MAX_RESPONSE_ITEMS
+    this.maxPageSize = 50;
+  }
+
+  protected async fetchCommitPage(page: number, perPage: number): Promise<GitHubCommit[]> {
+    // Gitea mirrors GitHub's commit shape; skip the expensive per-commit extras
+    const commits = await this.get<GitHubCommit[]>(`/repos/${this.owner}/${this.repo}/commits`, {
+      params: { limit: perPage, page, stat: false, verification: false, files: false },
+    });
+    return commits.map((commit) => ({ sha: commit.sha, commit: commit.commit }));
+  }
+
+  /**
+   * Fetch detailed commit info including file diffs
+   */
+  async fetchCommitDetails(sha: string, cancellation?: CancellationSignal): Promise<GitHubCommit> {
+    try {
+      const details = await this.get<GitHubCommit>(`/repos/${this.owner}/${this.repo}/git/commits/${sha}`, {
+        params: { stat: false, verification: false, files: false },
+        immutable: true,
+        cancellation,
+      });
+      const diff = await this.get<string>(`/repos/${this.owner}/${this.repo}/git/commits/${sha}.diff`, {
+        text: true,
+        immutable: true,
+        cancellation,
+      });
+
+      return {
+        sha: details.sha,
+        commit: details.commit,
+        files: parseUnifiedDiff(sha, diff),
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to fetch commit details for ${sha}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Renames commit by commit: the compare API lists each commit's files
+   * with their status, and the diffs of the commits with a renamed file
+   * name the old path
+   */
+  protected async fetchRenames(base: string, head: string): Promise<FileRename[]> {
+    const comparison = await this.get<{
+      commits?: Array<{ sha: string; files?: Array<{ filename: string; status?: string }> }>;
+    }>(`/repos/${this.owner}/${this.repo}/compare/${base}...${head}`, { immutable: true });
+
+    const renames: FileRename[] = [];
+    for (const commit of comparison.commits || []) {
+      if (!(commit.files || []).some((file) => file.status === 'renamed')) {
+        continue;
+      }
+      const diff = await this.get<string>(`/repos/${this.owner}/${this.repo}/git/commits/${commit.sha}.diff`, {
+        text: true,
+        immutable: true,
+      });
+      let from: string | undefined;
+      for (const line of diff.split('\n')) {
+        if (line.startsWith('rename from ')) {
+          from = line.substring('rename from '.length).trim();
+        } else if (line.startsWith('rename to ') && from) {
+          renames.push({ sha: commit.sha, from, to: line.substring('rename to '.length).trim() });
+          from = undefined;
+        }
+      }
+    }
+    return renames;
+  }
+
+  /**
+   * Pull request that merged the commit; Gitea answers 404 when there is none
+   */
+  protected async fetchPullRequest(sha: string, cancellation?: CancellationSignal): Promise<PullRequestDetails | undefined> {
+    const pull = await this.get<{
+      number: number;
+      title: string;
+      body?: string;
+      html_url: string;
+      labels?: Array<{ name: string }>;
+    }>(`/repos/${this.owner}/${this.repo}/commits/${sha}/pull`, { cancellation });
+    return {
+      number: pull.number,
+      title: pull.title,
+      body: pull.body,
+      url: pull.html_url,
+      labels: (pull.labels || []).map((l) => l.name),
+    };
+  }
+
+  /**
+   * Issue labels; Gitea has no issue types
+   */
+  protected async fetchIssue(issueNumber: number, cancellation?: CancellationSignal): Promise<LinkedIssue | undefined> {
+    const issue = await this.get<{ labels?: Array<{ name: string }> }>(
+      `/repos/${this.owner}/${this.repo}/issues/${issueNumber}`,
+      { cancellation }
+    );
+    return { number: issueNumber, labels: (issue.labels || []).map((l) => l.name) };
+  }
+
+  protected async fetchRawFile(sha: string, path: string): Promise<string | undefined> {
+    return this.get<string>(`/repos/${this.owner}/${this.repo}/raw/${RemoteCommitSource.encodePath(path)}`, {
+      params: { ref: sha },
+      text: true,
+      immutable: true,
+    });
+  }
+
+  /**
+   * API base URL for a Gitea/Forgejo host
+   */
+  static apiUrlForHost(host: string): string {
+    return `https://${host}/api/v1`;
+  }
+}
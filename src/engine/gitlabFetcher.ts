@@ -0,0 +1,219 @@
+/**
+ * GitLab Fetcher Module
+ * Fetches commits from GitLab.com or a self-hosted GitLab instance
+ */
+
+import { CancellationSignal, GitHubCommit, GitHubFile, LinkedIssue } from '../types';
+import { PullRequestDetails, RemoteCommitSource, RemoteSourceOptions } from './commitSource';
+import { FileRename } from './pathHistory';
+
+export const GITLAB_API_URL = 'https://gitlab.com/api/v4';
+
+interface GitLabCommit {
+  id: string;
+  message: string;
+  author_name: string;
+  author_email: string;
+  authored_date: string;
+}
+
+interface GitLabDiff {
+  old_path: string;
+  new_path: string;
+  new_file: boolean;
+  renamed_file: boolean;
+  deleted_file: boolean;
+  diff: string;
+}
+
+interface GitLabMergeRequest {
+  iid: number;
+  title: string;
+  description: string | null;
+  web_url: string;
+  state: string;
+  labels: string[];
+}
+
+export class GitLabFetcher extends RemoteCommitSource {
+  readonly name = 'GitLab';
+  private projectUrl: string;
+
+  /**
+   * @param projectPath Full project path including (sub)groups, e.g. `group/sub/project`
+   */
+  constructor(
+    token: string,
+    projectPath: string,
+    apiUrl: string = GITLAB_API_URL,
+    options: RemoteSourceOptions = {}
+  ) {
+    super(apiUrl, { 'PRIVATE-TOKEN': token }, options);
+    this.projectUrl = `/projects/${encodeURIComponent(projectPath)}`;
+  }
+
+  protected async fetchCommitPage(page: number, perPage: number): Promise<GitHubCommit[]> {
+    const commits = await this.get<GitLabCommit[]>(`${this.projectUrl}/repository/commits`, {
+      params: { per_page: perPage, page },
+    });
+    return commits.map((commit) => this.toCommit(commit));
+  }
+
+  /**
+   * A commit is an ancestor of the head exactly when it is their merge base
+   */
+  async isAncestorOfHead(sha: string): Promise<boolean> {
+    const [head] = await this.fetchCommitPage(1, 1);
+    if (!head) {
+      return false;
+    }
+    if (head.sha === sha) {
+      return true;
+    }
+
+    try {
+      const mergeBase = await this.get<{ id: string }>(`${this.projectUrl}/repository/merge_base`, {
+        params: { refs: [sha, head.sha] },
+        immutable: true,
+      });
+      return mergeBase.id === sha;
+    } catch (error: any) {
+      if (error.response && (error.response.status === 404 || error.response.status === 400)) {
+        return false;
+      }
+      throw new Error(`Failed to find merge base of ${sha} and ${head.sha}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Fetch detailed commit info including file diffs
+   */
+  async fetchCommitDetails(sha: string, cancellation?: CancellationSignal): Promise<GitHubCommit> {
+    try {
+      const details = await this.get<GitLabCommit>(`${this.projectUrl}/repository/commits/${sha}`, {
+        immutable: true,
+        cancellation,
+      });
+      const commit = this.toCommit(details);
+      commit.files = await this.fetchDiffs(sha, cancellation);
+      return commit;
+    } catch (error: any) {
+      throw new Error(`Failed to fetch commit details for ${sha}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Page through a commit's diffs
+   */
+  private async fetchDiffs(sha: string, cancellation?: CancellationSignal): Promise<GitHubFile[]> {
+    const files: GitHubFile[] = [];
+    const perPage = this.maxPageSize;
+
+    for (let page = 1; ; page++) {
+      const diffs = await this.get<GitLabDiff[]>(`${this.projectUrl}/repository/commits/${sha}/diff`, {
+        params: { per_page: perPage, page },
+        immutable: true,
+        cancellation,
+      });
+
+      for (const diff of diffs) {
+        if (!diff.diff) {
+          continue; // Binary, collapsed or too large
+        }
+        const status = diff.new_file
+          ? 'added'
+          : diff.deleted_file
+            ? 'removed'
+            : diff.renamed_file
+              ? 'renamed'
+              : 'modified';
+        files.push(
+          RemoteCommitSource.toFile(
+            diff.new_path,
+            status,
+            diff.diff.replace(/\n$/, ''),
+            diff.renamed_file ? diff.old_path : undefined
+          )
+        );
+      }
+
+      if (diffs.length < perPage) {
+        return files;
+      }
+    }
+  }
+
+  /**
+   * Net renames between two commits from the repository compare API
+   */
+  protected async fetchRenames(base: string, head: string): Promise<FileRename[]> {
+    const comparison = await this.get<{ diffs?: GitLabDiff[] }>(`${this.projectUrl}/repository/compare`, {
+      params: { from: base, to: head },
+      immutable: true,
+    });
+    return (comparison.diffs || [])
+      .filter((diff) => diff.renamed_file && diff.old_path !== diff.new_path)
+      .map((diff) => ({ sha: head, from: diff.old_path, to: diff.new_path }));
+  }
+
+  /**
+   * Merge request that merged the commit (the first merged one if several)
+   */
+  protected async fetchPullRequest(sha: string, cancellation?: CancellationSignal): Promise<PullRequestDetails | undefined> {
+    const requests = await this.get<GitLabMergeRequest[]>(
+      `${this.projectUrl}/repository/commits/${sha}/merge_requests`,
+      { cancellation }
+    );
+
+    const request = requests.find((mr) => mr.state === 'merged') ?? requests[0];
+    return request
+      ? {
+          number: request.iid,
+          title: request.title,
+          body: request.description ?? undefined,
+          url: request.web_url,
+          labels: request.labels,
+        }
+      : undefined;
+  }
+
+  /**
+   * Issue labels and type (`issue`, `incident`, ...)
+   */
+  protected async fetchIssue(issueNumber: number, cancellation?: CancellationSignal): Promise<LinkedIssue | undefined> {
+    const issue = await this.get<{ labels: string[]; issue_type?: string }>(
+      `${this.projectUrl}/issues/${issueNumber}`,
+      { cancellation }
+    );
+    return { number: issueNumber, labels: issue.labels, type: issue.issue_type };
+  }
+
+  protected async fetchRawFile(sha: string, path: string): Promise<string | undefined> {
+    return this.get<string>(`${this.projectUrl}/repository/files/${encodeURIComponent(path)}/raw`, {
+      params: { ref: sha },
+      text: true,
+      immutable: true,
+    });
+  }
+
+  private toCommit(commit: GitLabCommit): GitHubCommit {
+    return {
+      sha: commit.id,
+      commit: {
+        message: commit.message,
+        author: {
+          name: commit.author_name || 'Unknown',
+          email: commit.author_email || undefined,
+          date: commit.authored_date,
+        },
+      },
+    };
+  }
+
+  /**
+   * API base URL for a GitLab host
+   */
+  static apiUrlForHost(host: string): string {
+    return host === 'gitlab.com' ? GITLAB_API_URL : `https://${host}/api/v4`;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Global Library Module
+ * User-level collection of the patterns learned in every initialized
+ * workspace, offered to repositories that haven't learned them yet
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BugPattern, LibraryFile, LibraryRepo } from '../types';
+
+export const LIBRARY_VERSION = 1;
+export const DEFAULT_LIBRARY_WEIGHT = 0.6;
+
+export class GlobalLibrary {
+  private filePath: string;
+  private file: LibraryFile = { version: LIBRARY_VERSION, repos: {} };
+  private loadedMtime = -1;
+  /** Patterns of the other repositories, merged by id */
+  private siblings: BugPattern[] = [];
+
+  /**
+   * @param storagePath The extension's global storage directory
+   * @param repo The current workspace; its own contribution is never served back to it
+   * @param weight Factor applied to the risk of library matches
+   */
+  constructor(
+    storagePath: string,
+    private repo: Omit<LibraryRepo, 'updated_at' | 'patterns'> & { key: string },
+    public readonly weight: number = DEFAULT_LIBRARY_WEIGHT
+  ) {
+    this.filePath = path.join(storagePath, 'pattern_library.json');
+    this.reload();
+  }
+
+  /**
+   * Re-read the library if another window changed it
+   */
+  reload(): void {
+    let mtime: number;
+    try {
+      mtime = fs.existsSync(this.filePath) ? fs.statSync(this.filePath).mtimeMs : 0;
+    } catch {
+      return;
+    }
+    if (mtime === this.loadedMtime) {
+      return;
+    }
+
+    this.file = this.read();
+    this.loadedMtime = mtime;
+    this.siblings = this.mergeSiblings();
+  }
+
+  /**
+   * Replace the current workspace's contribution with its patterns. Patterns
+   * imported from packs, quarantined and demoted ones stay out: the library
+   * only spreads what this repository learned and trusts.
+   */
+  contribute(patterns: BugPattern[]): number {
+    const own = patterns
+      .filter((p) => !p.origin && !p.quarantined && p.validation?.status !== 'demoted')
+      .map((p) => {
+        const copy: BugPattern = JSON.parse(JSON.stringify(p));
+        delete copy.validation;
+        delete copy.learned_in;
+        return copy;
+      });
+
+    // Other windows may have written since we loaded
+    this.file = this.read();
+    this.file.repos[this.repo.key] = {
+      name: this.repo.name,
+      source_repo: this.repo.source_repo,
+      updated_at: new Date().toISOString(),
+      patterns: own,
+    };
+
+    // Write beside the library and rename over it, so another window never
+    // reads a half-written file
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(tempPath, JSON.stringify(this.file, null, 2), 'utf-8');
+      fs.renameSync(tempPath, this.filePath);
+    } catch (error: any) {
+      fs.rmSync(tempPath, { force: true });
+      throw new Error(`Failed to save the global pattern library: ${error.message}`);
+    }
+
+    this.loadedMtime = -1;
+    this.reload();
+    console.log(`[CodeGhost] Contributed ${own.length} pattern(s) to the global library`);
+    return own.length;
+  }
+
+  /**
+   * Patterns other repositories learned for a language, leaving out the
+   * ones `exclude` (the workspace's own patterns) already covers
+   */
+  getPatternsByLanguage(language: string, exclude: ReadonlySet<string>): BugPattern[] {
+    return this.siblings.filter(
+      (p) => (p.language === language || p.language === 'unknown') && !exclude.has(p.id)
+    );
+  }
+
+  getPattern(patternId: string): BugPattern | undefined {
+    return this.siblings.find((p) => p.id === patternId);
+  }
+
+  /**
+   * Repositories in the library besides the current one
+   */
+  getSiblingCount(): number {
+    return Object.keys(this.file.repos).filter((key) => key !== this.repo.key).length;
+  }
+
+  private read(): LibraryFile {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        if (parsed.version > LIBRARY_VERSION) {
+          console.log(`[CodeGhost] The global pattern library is from a newer CodeGhost (version ${parsed.version}); ignoring it`);
+          return { version: LIBRARY_VERSION, repos: {} };
+        }
+        return { version: LIBRARY_VERSION, repos: parsed.repos || {} };
+      }
+    } catch (error) {
+      console.error('[CodeGhost] Failed to read the global pattern library:', error);
+    }
+    return { version: LIBRARY_VERSION, repos: {} };
+  }
+
+  /**
+   * One pattern per id across the sibling repositories: occurrences add up,
+   * risk is averaged by occurrences and `learned_in` names every repository
+   * that learned it
+   */
+  private mergeSiblings(): BugPattern[] {
+    const merged = new Map<string, BugPattern>();
+
+    for (const [key, repo] of Object.entries(this.file.repos)) {
+      if (key === this.repo.key) {
+        continue;
+      }
+      const label = repo.source_repo ? `${repo.name} (${repo.source_repo})` : repo.name;
+
+      for (const pattern of repo.patterns) {
+        const existing = merged.get(pattern.id);
+        if (!existing) {
+          merged.set(pattern.id, { ...pattern, commits: [...pattern.commits], learned_in: [label] });
+          continue;
+        }
+        const total = existing.occurrence_count + pattern.occurrence_count;
+        existing.risk_base = Math.round(
+          (existing.risk_base * existing.occurrence_count + pattern.risk_base * pattern.occurrence_count) /
+            Math.max(1, total)
+        );
+        existing.occurrence_count = total;
+        existing.commits.push(...pattern.commits);
+        existing.learned_in!.push(label);
+      }
+    }
+
+    return [...merged.values()];
+  }
+}
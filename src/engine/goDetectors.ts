@@ -0,0 +1,149 @@
+/**
+ * Go Detectors Module
+ * Learns patterns from Go fixes, in place of the JS-shaped built-ins
+ */
+
+import { DetectorResult } from './detectorPlugins';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** A `for` loop around the match; the scanner stops looking at the nearest function */
+const ENCLOSING_LOOP = String.raw`^\s*for\b`;
+
+export class GoDetectors {
+  /**
+   * Run the Go detectors on a removed line and the line that replaced it
+   */
+  detect(buggyLine: string, fixedLine: string): DetectorResult | null {
+    const detectors = [
+      this.detectIgnoredError,
+      this.detectDeferInLoop,
+      this.detectLoopVariableCapture,
+      this.detectNilMapDeclaration,
+    ];
+
+    for (const detector of detectors) {
+      const result = detector.call(this, buggyLine, fixedLine);
+      if (result) {
+        return result;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * `if m == nil { m = make(...) }` added above an unchanged `m[key] = value`
+   */
+  detectNilMapWrite(guarded: string, line: string): DetectorResult | null {
+    const target = escapeRegExp(guarded);
+    if (!new RegExp(String.raw`\b${target}\[[^\]]+\]\s*(?:=[^=]|\+\+|--|[-+*/]=)`).test(line)) {
+      return null;
+    }
+    return {
+      regex: String.raw`(?<![\w.])${target}\[[^\]]+\]\s*(?:=[^=]|\+\+|--|[-+*/]=)`,
+      category: 'null_check_missing',
+      riskBase: 8,
+      reason: `Writing to ${guarded} panics while the map is nil`,
+    };
+  }
+
+  /**
+   * `item := item` added above an unchanged `go func() {` in a loop over `item`
+   */
+  detectLoopVariableCopy(inserted: string, line: string): DetectorResult | null {
+    const copy = inserted.match(/^(\w+)\s*:=\s*(\w+)$/);
+    if (!copy || copy[1] !== copy[2] || !/^go\s+func\s*\(\s*\)/.test(line)) {
+      return null;
+    }
+    return this.captureResult(copy[1]);
+  }
+
+  /**
+   * `x, _ := f()`, `_ = f()` or a bare `f()` changed to check the error
+   */
+  private detectIgnoredError(buggyLine: string, fixedLine: string): DetectorResult | null {
+    if (!/\berr\b/.test(fixedLine) || /\berr\b/.test(buggyLine)) {
+      return null;
+    }
+
+    const call =
+      buggyLine.match(/,\s*_\s*:?=\s*([\w.]+)\s*\(/) ??
+      buggyLine.match(/^_\s*=\s*([\w.]+)\s*\(/) ??
+      buggyLine.match(/^([\w.]+)\s*\(.*\)$/);
+    const callee = call && escapeRegExp(call[1]);
+    if (!call || !new RegExp(String.raw`\berr\s*:?=\s*(?<![\w.])${callee}\s*\(`).test(fixedLine)) {
+      return null;
+    }
+
+    return {
+      regex: String.raw`(?:,\s*_\s*:?=\s*|^\s*_\s*=\s*|^\s*)${callee}\s*\(`,
+      category: 'missing_error_handling',
+      riskBase: 7,
+      reason: `The error returned by ${call[1]}() is ignored`,
+    };
+  }
+
+  /**
+   * `defer f.Close()` in a loop replaced by an explicit close (or moved into
+   * a closure called per iteration)
+   */
+  private detectDeferInLoop(buggyLine: string, fixedLine: string): DetectorResult | null {
+    const deferred = buggyLine.match(/^defer\s+([\w.]+)\s*\(/);
+    if (!deferred || /^defer\b/.test(fixedLine)) {
+      return null;
+    }
+
+    const callee = escapeRegExp(deferred[1]);
+    if (!new RegExp(String.raw`(?<![\w.])${callee}\s*\(`).test(fixedLine)) {
+      return null;
+    }
+    return {
+      regex: String.raw`^\s*defer\s+${callee}\s*\(`,
+      category: 'memory_leak',
+      riskBase: 6,
+      reason: `defer ${deferred[1]}() in a loop only runs when the function returns`,
+      enclosing: ENCLOSING_LOOP,
+    };
+  }
+
+  /**
+   * `go func() {` changed to `go func(item Item) {` to stop capturing the
+   * loop variable
+   */
+  private detectLoopVariableCapture(buggyLine: string, fixedLine: string): DetectorResult | null {
+    const parameter = fixedLine.match(/^go\s+func\s*\(\s*(\w+)\s+[^,)]+\)/);
+    if (!parameter || !/^go\s+func\s*\(\s*\)/.test(buggyLine)) {
+      return null;
+    }
+    return this.captureResult(parameter[1]);
+  }
+
+  /**
+   * A map declared with `var` replaced by `make(map...)` or a literal
+   */
+  private detectNilMapDeclaration(buggyLine: string, fixedLine: string): DetectorResult | null {
+    const declaration = buggyLine.match(/^var\s+(\w+)\s+map\[/);
+    if (
+      declaration &&
+      new RegExp(String.raw`\b${declaration[1]}\b.*(?:make\s*\(\s*map\[|map\[[^\]]+\][\w.*]+\s*\{)`).test(fixedLine)
+    ) {
+      return {
+        regex: String.raw`^\s*var\s+\w+\s+map\[[^\]]+\][\w.*\[\]]+\s*$`,
+        category: 'null_check_missing',
+        riskBase: 7,
+        reason: 'A map declared with var is nil; writing to it panics',
+      };
+    }
+    return null;
+  }
+
+  private captureResult(variable: string): DetectorResult {
+    return {
+      regex: String.raw`^\s*go\s+func\s*\(\s*\)`,
+      category: 'race_condition',
+      riskBase: 7,
+      reason: `Goroutine captures the loop variable ${variable}, shared by every iteration before Go 1.22`,
+      enclosing: String.raw`^\s*for\s+(?:\w+\s*,\s*)?${variable}\s*:?=`,
+    };
+  }
+}
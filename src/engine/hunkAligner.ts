@@ -0,0 +1,231 @@
+/**
+ * Hunk Aligner Module
+ * Pairs removed and added lines within each diff hunk by similarity
+ */
+
+/** Lines less alike than this are treated as unrelated, not as a rewrite */
+const MIN_SIMILARITY = 0.5;
+
+/**
+ * Alignment compares every removed line with every added one; blocks with
+ * more pairs than this (a rewritten file of a few thousand lines) are paired
+ * by position instead
+ */
+const MAX_ALIGNED_PAIRS = 200 * 200;
+
+export interface DiffLine {
+  type: 'context' | 'removed' | 'added';
+  text: string;
+  /** Line in the file before the change (context and removed lines) */
+  oldLine?: number;
+  /** Line in the file after the change (context and added lines) */
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  lines: DiffLine[];
+  /** Function context Git prints after the ranges (`@@ -3 +3 @@ async def load():`) */
+  header?: string;
+}
+
+/**
+ * A removed line and the added line that rewrote it
+ */
+export interface LinePair {
+  removed: DiffLine;
+  added: DiffLine;
+  similarity: number;
+}
+
+/**
+ * The hunk as it reads after the change: added lines without a counterpart
+ * are `inserted`, and lines only re-indented (e.g. wrapped in a new block)
+ * count as context.
+ */
+export interface AlignedLine {
+  kind: 'context' | 'inserted' | 'changed';
+  /** Trimmed text after the change */
+  text: string;
+  /** Line before the change, for context and changed lines */
+  oldLine?: number;
+}
+
+export interface AlignedHunk {
+  /** Rewritten lines, excluding pure re-indentation */
+  pairs: LinePair[];
+  lines: AlignedLine[];
+}
+
+export class HunkAligner {
+  /**
+   * Split a unified diff patch into hunks with line numbers on both sides
+   */
+  static parse(patch: string): DiffHunk[] {
+    const hunks: DiffHunk[] = [];
+    let hunk: DiffHunk | undefined;
+    let oldLine = 0;
+    let newLine = 0;
+
+    for (const line of patch.split('\n')) {
+      const header = line.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@ ?(.*)/);
+      if (header) {
+        oldLine = parseInt(header[1], 10);
+        newLine = parseInt(header[2], 10);
+        hunk = header[3] ? { lines: [], header: header[3] } : { lines: [] };
+        hunks.push(hunk);
+        continue;
+      }
+      if (!hunk || line.startsWith('\\')) {
+        continue;
+      }
+
+      if (line.startsWith('-')) {
+        hunk.lines.push({ type: 'removed', text: line.substring(1), oldLine: oldLine++ });
+      } else if (line.startsWith('+')) {
+        hunk.lines.push({ type: 'added', text: line.substring(1), newLine: newLine++ });
+      } else {
+        hunk.lines.push({ type: 'context', text: line.substring(1), oldLine: oldLine++, newLine: newLine++ });
+      }
+    }
+
+    return hunks;
+  }
+
+  /**
+   * Align each run of removed and added lines (between context lines) so
+   * that every removed line is paired with the most similar added line,
+   * keeping both sides in order
+   */
+  align(hunk: DiffHunk): AlignedHunk {
+    const result: AlignedHunk = { pairs: [], lines: [] };
+    let removed: DiffLine[] = [];
+    let added: DiffLine[] = [];
+
+    const flush = () => {
+      this.alignBlock(removed, added, result);
+      removed = [];
+      added = [];
+    };
+
+    for (const line of hunk.lines) {
+      if (line.type === 'removed') {
+        removed.push(line);
+      } else if (line.type === 'added') {
+        added.push(line);
+      } else {
+        flush();
+        result.lines.push({ kind: 'context', text: line.text.trim(), oldLine: line.oldLine });
+      }
+    }
+    flush();
+
+    return result;
+  }
+
+  private alignBlock(removed: DiffLine[], added: DiffLine[], result: AlignedHunk): void {
+    const partners = this.bestAlignment(removed, added);
+
+    added.forEach((line, index) => {
+      const partner = partners.get(index);
+      const text = line.text.trim();
+      if (!partner) {
+        result.lines.push({ kind: 'inserted', text });
+      } else if (partner.line.text.trim() === text) {
+        result.lines.push({ kind: 'context', text, oldLine: partner.line.oldLine });
+      } else {
+        result.lines.push({ kind: 'changed', text, oldLine: partner.line.oldLine });
+        result.pairs.push({ removed: partner.line, added: line, similarity: partner.similarity });
+      }
+    });
+  }
+
+  /**
+   * Order-preserving alignment maximizing total similarity
+   * (Needleman-Wunsch without gap penalties); returns added index -> partner
+   */
+  private bestAlignment(
+    removed: DiffLine[],
+    added: DiffLine[]
+  ): Map<number, { line: DiffLine; similarity: number }> {
+    const partners = new Map<number, { line: DiffLine; similarity: number }>();
+    if (removed.length === 0 || added.length === 0) {
+      return partners;
+    }
+
+    const removedTokens = removed.map((line) => HunkAligner.tokenize(line.text));
+    const addedTokens = added.map((line) => HunkAligner.tokenize(line.text));
+
+    if (removed.length * added.length > MAX_ALIGNED_PAIRS) {
+      // The n-th removed line goes with the n-th added one, if alike enough
+      for (let i = 0; i < Math.min(removed.length, added.length); i++) {
+        const pair = HunkAligner.dice(removedTokens[i], addedTokens[i]);
+        if (pair >= MIN_SIMILARITY) {
+          partners.set(i, { line: removed[i], similarity: pair });
+        }
+      }
+      return partners;
+    }
+
+    const similarity = removedTokens.map((r) => addedTokens.map((a) => HunkAligner.dice(r, a)));
+    const score: number[][] = Array.from({ length: removed.length + 1 }, () => new Array(added.length + 1).fill(0));
+
+    for (let i = 1; i <= removed.length; i++) {
+      for (let j = 1; j <= added.length; j++) {
+        const pair = similarity[i - 1][j - 1];
+        score[i][j] = Math.max(
+          score[i - 1][j],
+          score[i][j - 1],
+          pair >= MIN_SIMILARITY ? score[i - 1][j - 1] + pair : 0
+        );
+      }
+    }
+
+    for (let i = removed.length, j = added.length; i > 0 && j > 0; ) {
+      const pair = similarity[i - 1][j - 1];
+      if (pair >= MIN_SIMILARITY && score[i][j] === score[i - 1][j - 1] + pair) {
+        partners.set(j - 1, { line: removed[i - 1], similarity: pair });
+        i--;
+        j--;
+      } else if (score[i][j] === score[i - 1][j]) {
+        i--;
+      } else {
+        j--;
+      }
+    }
+
+    return partners;
+  }
+
+  /**
+   * Dice coefficient over the lines' tokens (identifiers, numbers and
+   * operator runs), ignoring whitespace
+   */
+  static similarity(a: string, b: string): number {
+    return HunkAligner.dice(HunkAligner.tokenize(a), HunkAligner.tokenize(b));
+  }
+
+  private static dice(tokensA: string[], tokensB: string[]): number {
+    if (tokensA.length === 0 && tokensB.length === 0) {
+      return 1;
+    }
+
+    const counts = new Map<string, number>();
+    for (const token of tokensA) {
+      counts.set(token, (counts.get(token) || 0) + 1);
+    }
+    let common = 0;
+    for (const token of tokensB) {
+      const count = counts.get(token) || 0;
+      if (count > 0) {
+        common++;
+        counts.set(token, count - 1);
+      }
+    }
+
+    return (2 * common) / (tokensA.length + tokensB.length);
+  }
+
+  private static tokenize(line: string): string[] {
+    return line.match(/\w+|[^\s\w]+/g) || [];
+  }
+}
@@ -3,160 +3,412 @@
  * Fetches commits from local git repository
  */
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { GitHubCommit, GitHubFile } from '../types';
+import { CancellationSignal, GitHubCommit, MergeDiffMode } from '../types';
+import { CommitClassifier } from './commitClassifier';
+import { CommitSource } from './commitSource';
+import { GitCommandError, gitVersion, runGit, streamGit } from './gitProcess';
+import { DEFAULT_MAX_FILE_DIFF_BYTES, GIT_LOG_FORMAT, GitLogParser } from './gitLogParser';
+import { FileRename, PathHistory } from './pathHistory';
 
-const execAsync = promisify(exec);
+export interface LocalGitFetcherOptions {
+  /** Per-file patch size above which a file's diff is skipped */
+  maxFileDiffBytes?: number;
+  /**
+   * Revisions and ranges to scan, e.g. `main` or `origin/release/*..HEAD`;
+   * ref names may contain globs
+   */
+  refs?: string[];
+  /** Scan every local and remote-tracking branch */
+  allBranches?: boolean;
+  /** Follow only the first parent of merges */
+  firstParent?: boolean;
+  /** Diff merges against their first parent, or skip their diffs */
+  mergeDiffs?: MergeDiffMode;
+}
+
+const GLOB_CHARS = /[*?[]/;
 
-export class LocalGitFetcher {
-  constructor(private workspacePath: string) {}
+/** First Git release with `--diff-merges` */
+const DIFF_MERGES_VERSION = [2, 31];
+
+export class LocalGitFetcher implements CommitSource {
+  readonly name = 'Local Git';
+  private maxFileDiffBytes: number;
+  private refs: string[];
+  private allBranches: boolean;
+  private firstParent: boolean;
+  private mergeDiffs: MergeDiffMode;
+  private mergeDiffArgs?: Promise<string[]>;
+  private tips: string[] = [];
+
+  constructor(private workspacePath: string, options: LocalGitFetcherOptions = {}) {
+    this.maxFileDiffBytes = options.maxFileDiffBytes ?? DEFAULT_MAX_FILE_DIFF_BYTES;
+    this.refs = options.refs?.length ? options.refs : ['HEAD'];
+    this.allBranches = options.allBranches ?? false;
+    this.firstParent = options.firstParent ?? false;
+    this.mergeDiffs = options.mergeDiffs ?? 'first-parent';
+  }
 
   /**
-   * Fetch commits from local git repository
+   * Fetch the newest `maxCommits` commits from the configured refs (HEAD by
+   * default). When `sinceSha` is given, every commit newer than it is
+   * returned, however many, and commits reachable from `scannedTips` are
+   * left out too.
    */
-  async fetchCommits(maxCommits: number = 100): Promise<GitHubCommit[]> {
+  async fetchCommits(maxCommits: number = 100, sinceSha?: string, scannedTips: string[] = []): Promise<GitHubCommit[]> {
     try {
-      const { stdout } = await execAsync(
-        `git log -${maxCommits} --pretty=format:"%H|%s|%an|%ad" --date=iso`,
-        { cwd: this.workspacePath }
-      );
-
-      const lines = stdout.trim().split('\n');
-      const commits: GitHubCommit[] = [];
-
-      for (const line of lines) {
-        const [sha, message, author, date] = line.split('|');
-        if (sha && message) {
-          commits.push({
-            sha,
-            commit: {
-              message,
-              author: {
-                name: author || 'Unknown',
-                date: date || new Date().toISOString(),
-              },
-            },
-          });
-        }
+      // Tips that no longer exist (a deleted branch after gc) exclude nothing
+      const args = ['log', '--ignore-missing', GIT_LOG_FORMAT];
+      if (!sinceSha) {
+        // A refresh must not cut off commits older than the newest few, or
+        // the checkpoint would move past them
+        args.push(`--max-count=${maxCommits}`);
+      }
+      if (this.firstParent) {
+        args.push('--first-parent');
       }
+      // Resolved up front, so the recorded tips are exactly where this log starts
+      const revisions = await this.resolveShas(await this.resolveRevisions());
+      this.tips = revisions.filter((rev) => !rev.startsWith('^'));
+      args.push(...revisions);
+      if (sinceSha) {
+        args.push(`^${this.assertSha(sinceSha)}`, ...scannedTips.map((tip) => `^${this.assertSha(tip)}`));
+      }
+      // Revisions end here, so none can be read as a path or an option
+      args.push('--');
 
-      return commits;
+      return await this.streamLog(args);
     } catch (error: any) {
       throw new Error(`Failed to fetch local commits: ${error.message}`);
     }
   }
 
+  /**
+   * Commits the last `fetchCommits()` started from. With several branches,
+   * the newest scanned commit alone doesn't cover the others, so the next
+   * refresh excludes all of them.
+   */
+  get scannedTips(): string[] {
+    return this.tips;
+  }
+
+  /**
+   * Check whether a previously scanned commit is still reachable from HEAD or
+   * one of the scanned refs.
+   * Returns false when the commit was rewritten away (force-push, rebase).
+   */
+  async isAncestorOfHead(sha: string): Promise<boolean> {
+    if (!LocalGitFetcher.isSha(sha)) {
+      return false;
+    }
+
+    const tips = ['HEAD', ...(await this.resolveTips())];
+    for (const tip of new Set(tips)) {
+      try {
+        await runGit(this.workspacePath, ['merge-base', '--is-ancestor', sha, tip]);
+        return true;
+      } catch (error) {
+        if (!(error instanceof GitCommandError)) {
+          throw error;
+        }
+        // Exit code 1 means "not an ancestor", 128 means the object is gone
+      }
+    }
+    return false;
+  }
+
   /**
    * Filter commits that are likely bug fixes
    */
-  filterBugCommits(commits: GitHubCommit[]): GitHubCommit[] {
-    const bugKeywords = ['fix', 'bug', 'error', 'crash', 'hotfix', 'issue', 'patch'];
-    return commits.filter((commit) => {
-      const message = commit.commit.message.toLowerCase();
-      return bugKeywords.some((keyword) => message.includes(keyword));
-    });
+  filterBugCommits(
+    commits: GitHubCommit[],
+    classifier: CommitClassifier = new CommitClassifier()
+  ): GitHubCommit[] {
+    return classifier.filterBugCommits(commits);
   }
 
   /**
    * Fetch detailed commit info with diffs
    */
   async fetchCommitDetails(sha: string): Promise<GitHubCommit> {
+    const [commit] = await this.fetchCommitDetailsBatch([sha]);
+    if (!commit) {
+      throw new Error(`Failed to fetch commit details for ${sha}: commit not found`);
+    }
+    return commit;
+  }
+
+  /**
+   * Fetch diffs for many commits with a single streamed `git log -p`.
+   * `onCommit` is called as each commit is parsed, so callers can report
+   * progress; oversized and binary file diffs are skipped. Cancelling stops
+   * git and keeps the commits parsed completely.
+   */
+  async fetchCommitDetailsBatch(
+    shas: string[],
+    onCommit?: (commit: GitHubCommit) => void,
+    cancellation?: CancellationSignal
+  ): Promise<GitHubCommit[]> {
+    if (shas.length === 0) {
+      return [];
+    }
+
     try {
-      // Get commit message
-      const { stdout: commitMsg } = await execAsync(
-        `git log --format=%s -n 1 ${sha}`,
-        { cwd: this.workspacePath }
+      const revisions = shas.map((sha) => this.assertSha(sha)).join('\n') + '\n';
+      return await this.streamLog(
+        [
+          'log',
+          '--no-walk=unsorted',
+          '--stdin',
+          '--patch',
+          '--find-renames',
+          '--unified=3',
+          ...(await this.diffMergesArgs()),
+          GIT_LOG_FORMAT,
+          '--',
+        ],
+        revisions,
+        onCommit,
+        cancellation
       );
+    } catch (error: any) {
+      throw new Error(`Failed to fetch commit details: ${error.message}`);
+    }
+  }
 
-      // Get commit author and date
-      const { stdout: authorInfo } = await execAsync(
-        `git log --format="%an|%ad" --date=iso -n 1 ${sha}`,
-        { cwd: this.workspacePath }
-      );
+  /**
+   * Collect the renames (`-M` detection) in the scanned window of history,
+   * so older paths can be mapped to current ones
+   */
+  async fetchPathHistory(commits: GitHubCommit[]): Promise<PathHistory> {
+    const order: string[] = [];
+    const renames: FileRename[] = [];
 
-      const [author, date] = authorInfo.trim().split('|');
+    if (commits.length === 0) {
+      return new PathHistory(order, renames);
+    }
 
-      // Get diff for each file
-      const { stdout: diffOutput } = await execAsync(
-        `git show --unified=3 --format="" ${sha}`,
-        { cwd: this.workspacePath }
+    try {
+      const revisions = commits.map((c) => this.assertSha(c.sha)).join('\n') + '\n';
+      const diffMerges = await this.diffMergesArgs();
+      await streamGit(
+        this.workspacePath,
+        [
+          'log',
+          '--no-walk=unsorted',
+          '--stdin',
+          '--find-renames',
+          '--name-status',
+          ...diffMerges,
+          '--format=%x1d%H',
+          '--',
+        ],
+        (line) => {
+          if (line.startsWith('\x1d')) {
+            order.push(line.substring(1));
+          } else if (line.startsWith('R') && order.length > 0) {
+            // "R087<TAB>old/path<TAB>new/path"
+            const [, from, to] = line.split('\t');
+            if (from && to) {
+              renames.push({ sha: order[order.length - 1], from, to });
+            }
+          }
+        },
+        { stdin: revisions }
       );
+    } catch (error: any) {
+      throw new Error(`Failed to read rename history: ${error.message}`);
+    }
 
-      const files = this.parseDiff(diffOutput);
+    return new PathHistory(order, renames);
+  }
 
-      return {
-        sha,
-        commit: {
-          message: commitMsg.trim(),
-          author: {
-            name: author || 'Unknown',
-            date: date || new Date().toISOString(),
-          },
-        },
-        files,
-      };
-    } catch (error: any) {
-      throw new Error(`Failed to fetch commit details for ${sha}: ${error.message}`);
+  /**
+   * Contents of a file at a commit, or undefined when it doesn't exist there
+   */
+  async fetchFileContent(sha: string, path: string): Promise<string | undefined> {
+    try {
+      return await runGit(this.workspacePath, ['show', `${this.assertSha(sha)}:${path}`]);
+    } catch (error) {
+      if (error instanceof GitCommandError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check if directory is a git repository
+   */
+  async isGitRepository(): Promise<boolean> {
+    try {
+      await runGit(this.workspacePath, ['rev-parse', '--git-dir']);
+      return true;
+    } catch {
+      return false;
     }
   }
 
   /**
-   * Parse git diff output into file changes
+   * Combined merge diffs can't be paired line by line, so merges are either
+   * diffed against their first parent or not at all. Git before 2.31 has no
+   * `--diff-merges`: there `-m --first-parent` diffs against the first
+   * parent (the logs using this don't walk history, so `--first-parent`
+   * changes nothing else), and merges get no diff by default.
    */
-  private parseDiff(diffOutput: string): GitHubFile[] {
-    const files: GitHubFile[] = [];
-    
-    // Split by "diff --git" but keep the delimiter
-    const fileDiffs = diffOutput.split(/(?=diff --git)/);
+  private diffMergesArgs(): Promise<string[]> {
+    if (!this.mergeDiffArgs) {
+      this.mergeDiffArgs = gitVersion(this.workspacePath).then((version) => {
+        if (LocalGitFetcher.isAtLeast(version, DIFF_MERGES_VERSION)) {
+          return [this.mergeDiffs === 'skip' ? '--diff-merges=off' : '--diff-merges=first-parent'];
+        }
+        if (this.mergeDiffs === 'skip') {
+          return [];
+        }
+        console.log(`[CodeGhost] Git ${version.join('.')} has no --diff-merges; using -m --first-parent`);
+        return ['-m', '--first-parent'];
+      });
+    }
+    return this.mergeDiffArgs;
+  }
 
-    for (const fileDiff of fileDiffs) {
-      if (!fileDiff.trim() || !fileDiff.includes('diff --git')) continue;
+  /**
+   * Commit SHAs of `git log` revision arguments, keeping `^` on excluded
+   * ones; `--branches` and `--remotes` become every branch tip
+   */
+  private async resolveShas(revisions: string[]): Promise<string[]> {
+    const output = await runGit(this.workspacePath, ['rev-parse', ...revisions, '--']);
+    const shas = output.split('\n').filter((line) => line.length > 0 && line !== '--');
+    // Only commit SHAs, optionally excluded, go on to `git log`
+    return Array.from(
+      new Set(shas.map((sha) => (sha.startsWith('^') ? `^${this.assertSha(sha.substring(1))}` : this.assertSha(sha))))
+    );
+  }
 
-      // Extract filename from "diff --git a/file.ts b/file.ts"
-      const filenameMatch = fileDiff.match(/diff --git a\/(.+?)\s+b\/(.+?)(?:\n|$)/);
-      if (!filenameMatch) continue;
+  /**
+   * Turn the configured refs into `git log` revision arguments, expanding
+   * globs (`origin/release/*`) on either side of a `..` range
+   */
+  private async resolveRevisions(): Promise<string[]> {
+    const revisions: string[] = this.allBranches ? ['--branches', '--remotes'] : [];
 
-      const filename = filenameMatch[2].trim();
+    for (const ref of this.refs) {
+      const range = ref.match(/^(.*[^.])?\.\.([^.].*)?$/);
+      if (range) {
+        // "A..B" is "^A B"; an empty side means HEAD
+        const excluded = await this.expandRef(range[1] || 'HEAD');
+        const included = await this.expandRef(range[2] || 'HEAD');
+        revisions.push(...excluded.map((rev) => `^${rev}`), ...included);
+      } else {
+        revisions.push(...(await this.expandRef(ref)));
+      }
+    }
 
-      // Extract the patch - everything from @@ onwards
-      const patchMatch = fileDiff.match(/@@ [^\n]+[\s\S]*$/);
-      if (!patchMatch) continue;
+    if (!revisions.some((rev) => !rev.startsWith('^'))) {
+      throw new Error(`No commits to scan: refs ${this.refs.join(', ')} match nothing`);
+    }
+    return revisions;
+  }
 
-      const patch = patchMatch[0];
+  /**
+   * Commits the scanned refs start from, for ancestry checks
+   */
+  private async resolveTips(): Promise<string[]> {
+    const tips = (await this.resolveRevisions()).filter((rev) => !rev.startsWith('^') && !rev.startsWith('--'));
+    if (this.allBranches) {
+      tips.push(...(await this.forEachRef(['refs/heads/', 'refs/remotes/'])));
+    }
+    return tips;
+  }
 
-      // Count additions and deletions
-      const lines = patch.split('\n');
-      let additions = 0;
-      let deletions = 0;
+  /**
+   * A plain revision is passed through; a glob becomes the refs it matches
+   */
+  private async expandRef(ref: string): Promise<string[]> {
+    if (/^\^?-/.test(ref) || /\s/.test(ref)) {
+      // Settings end up in git's argument list, so nothing option-like
+      throw new Error(`Invalid ref: ${ref}`);
+    }
+    if (!GLOB_CHARS.test(ref)) {
+      return [ref];
+    }
 
-      for (const line of lines) {
-        if (line.startsWith('+') && !line.startsWith('+++')) additions++;
-        if (line.startsWith('-') && !line.startsWith('---')) deletions++;
-      }
+    const matches = await this.forEachRef([
+      `refs/${ref}`,
+      `refs/heads/${ref}`,
+      `refs/remotes/${ref}`,
+      `refs/tags/${ref}`,
+    ]);
+    if (matches.length === 0) {
+      console.log(`[CodeGhost] Ref pattern ${ref} matches no branches or tags`);
+    }
+    return matches;
+  }
 
-      files.push({
-        filename,
-        status: 'modified',
-        additions,
-        deletions,
-        changes: additions + deletions,
-        patch,
-      });
+  private async forEachRef(patterns: string[]): Promise<string[]> {
+    const output = await runGit(this.workspacePath, ['for-each-ref', '--format=%(refname)', ...patterns]);
+    return Array.from(new Set(output.split('\n').filter((line) => line.length > 0)));
+  }
+
+  /**
+   * Run a `git log` and parse its output as it streams in
+   */
+  private async streamLog(
+    args: string[],
+    stdin?: string,
+    onCommit?: (commit: GitHubCommit) => void,
+    cancellation?: CancellationSignal
+  ): Promise<GitHubCommit[]> {
+    const commits: GitHubCommit[] = [];
+    const parser = new GitLogParser(
+      (commit) => {
+        commits.push(commit);
+        onCommit?.(commit);
+      },
+      { maxFileDiffBytes: this.maxFileDiffBytes }
+    );
+
+    await streamGit(this.workspacePath, args, (line, truncated) => parser.push(line, truncated), {
+      stdin,
+      cancellation,
+    });
+
+    // A cancelled stream ends mid-commit; only commits followed by the next
+    // header are complete
+    if (!cancellation?.isCancellationRequested) {
+      parser.end();
     }
 
-    return files;
+    return commits;
   }
 
   /**
-   * Check if directory is a git repository
+   * Reject anything that isn't a commit hash before it reaches git's
+   * argument list (e.g. a hand-edited last_scanned_sha starting with "-")
    */
-  async isGitRepository(): Promise<boolean> {
-    try {
-      await execAsync('git rev-parse --git-dir', { cwd: this.workspacePath });
+  private assertSha(sha: string): string {
+    if (!LocalGitFetcher.isSha(sha)) {
+      throw new Error(`Invalid commit SHA: ${sha}`);
+    }
+    return sha;
+  }
+
+  /**
+   * Compare dotted versions; an unknown version counts as recent
+   */
+  private static isAtLeast(version: number[], minimum: number[]): boolean {
+    if (version.length === 0) {
       return true;
-    } catch {
-      return false;
     }
+    for (let i = 0; i < minimum.length; i++) {
+      if ((version[i] ?? 0) !== minimum[i]) {
+        return (version[i] ?? 0) > minimum[i];
+      }
+    }
+    return true;
+  }
+
+  private static isSha(value: string): boolean {
+    return /^[0-9a-f]{4,40}$/i.test(value);
   }
 }
@@ -0,0 +1,95 @@
+/**
+ * Path History Module
+ * Follows files across renames so bug history sticks to a file's current path
+ */
+
+import { BugPattern, GitHubCommit } from '../types';
+
+export interface FileRename {
+  sha: string;
+  from: string;
+  to: string;
+}
+
+export class PathHistory {
+  // Commit position in the scanned window, 0 = newest
+  private positions = new Map<string, number>();
+  // Renames ordered oldest first, with the position of their commit
+  private renames: Array<FileRename & { position: number }>;
+
+  /**
+   * @param commitOrder SHAs of every commit in the scanned window, newest first
+   * @param renames Renames found in those commits (any order)
+   */
+  constructor(commitOrder: string[], renames: FileRename[]) {
+    commitOrder.forEach((sha, index) => this.positions.set(sha, index));
+    this.renames = renames
+      .map((rename) => ({ ...rename, position: this.positions.get(rename.sha) ?? commitOrder.length }))
+      .sort((a, b) => b.position - a.position);
+  }
+
+  /**
+   * Collect renames reported on detailed commits (e.g. GitHub's
+   * `previous_filename`). Only sees renames inside the given commits.
+   */
+  static fromCommits(commits: GitHubCommit[]): PathHistory {
+    return new PathHistory(
+      commits.map((c) => c.sha),
+      PathHistory.renamesIn(commits)
+    );
+  }
+
+  /**
+   * Renames listed in the file entries of detailed commits
+   */
+  static renamesIn(commits: GitHubCommit[]): FileRename[] {
+    const renames: FileRename[] = [];
+    for (const commit of commits) {
+      for (const file of commit.files || []) {
+        if (file.previous_filename && file.previous_filename !== file.filename) {
+          renames.push({ sha: commit.sha, from: file.previous_filename, to: file.filename });
+        }
+      }
+    }
+    return renames;
+  }
+
+  /**
+   * Number of renames known to this history
+   */
+  get size(): number {
+    return this.renames.length;
+  }
+
+  /**
+   * Map the path a file had at commit `sha` to its current path by replaying
+   * every later rename. Commits outside the window are treated as older than
+   * all of it.
+   */
+  resolve(path: string, sha: string): string {
+    const position = this.positions.get(sha) ?? Number.POSITIVE_INFINITY;
+    let current = path;
+
+    for (const rename of this.renames) {
+      if (rename.position < position && rename.from === current) {
+        current = rename.to;
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * Point every commit reference of the given patterns at the current path,
+   * keeping the path the file had at the time in `historical_file`
+   */
+  remapPatterns(patterns: BugPattern[]): void {
+    for (const pattern of patterns) {
+      for (const ref of pattern.commits) {
+        const historical = ref.historical_file ?? ref.file;
+        ref.historical_file = historical;
+        ref.file = this.resolve(ref.file, ref.sha);
+      }
+    }
+  }
+}
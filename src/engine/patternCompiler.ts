@@ -0,0 +1,294 @@
+/**
+ * Pattern Compiler Module
+ * Validates stored pattern regexes, rejects shapes prone to catastrophic
+ * backtracking, and caches the compiled expressions by pattern id
+ */
+
+import { BugPattern } from '../types';
+
+export interface CompiledPattern {
+  regex?: RegExp;
+  enclosing?: RegExp;
+  /** Why the pattern can't be used; set instead of `regex` */
+  problem?: string;
+}
+
+/** A regex atom, group or assertion, with the bounds of its quantifier */
+interface RegexNode {
+  source: string;
+  /** Single-character atom (`a`, `\s`, `[^)]`, `.`); unset for groups and assertions */
+  atom?: string;
+  alternatives?: RegexNode[][];
+  lookaround?: boolean;
+  min: number;
+  max: number;
+}
+
+// Characters tried when checking whether two atoms can match the same input
+const SAMPLE_CHARS = Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i)).concat(['\t', 'é']);
+
+export class PatternCompiler {
+  private cache = new Map<string, { regex: string; enclosing?: string; compiled: CompiledPattern }>();
+
+  /**
+   * Compile a pattern's regex (and enclosing regex), reusing the cached
+   * result while the pattern's sources are unchanged
+   */
+  compile(pattern: BugPattern): CompiledPattern {
+    const cached = this.cache.get(pattern.id);
+    if (cached && cached.regex === pattern.regex && cached.enclosing === pattern.enclosing) {
+      return cached.compiled;
+    }
+
+    const compiled = this.build(pattern);
+    this.cache.set(pattern.id, { regex: pattern.regex, enclosing: pattern.enclosing, compiled });
+    return compiled;
+  }
+
+  /**
+   * Drop cached entries for patterns that no longer exist
+   */
+  retain(patterns: BugPattern[]): void {
+    const ids = new Set(patterns.map((pattern) => pattern.id));
+    for (const id of this.cache.keys()) {
+      if (!ids.has(id)) {
+        this.cache.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Why a regex source is unsafe to run on every line, or undefined when
+   * it isn't
+   */
+  static check(source: string): string | undefined {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(source, 'i');
+    } catch (error: any) {
+      return `invalid regex: ${error.message}`;
+    }
+    if (regex.test('')) {
+      return 'matches an empty line, so it would match every line';
+    }
+    return PatternCompiler.findBacktracking(PatternCompiler.parse(source));
+  }
+
+  private build(pattern: BugPattern): CompiledPattern {
+    const problem =
+      PatternCompiler.check(pattern.regex) ??
+      (pattern.enclosing !== undefined ? this.checkEnclosing(pattern.enclosing) : undefined);
+    if (problem) {
+      return { problem };
+    }
+    return {
+      regex: new RegExp(pattern.regex, 'i'),
+      enclosing: pattern.enclosing !== undefined ? new RegExp(pattern.enclosing, 'i') : undefined,
+    };
+  }
+
+  private checkEnclosing(source: string): string | undefined {
+    const problem = PatternCompiler.check(source);
+    return problem && `enclosing ${problem}`;
+  }
+
+  /**
+   * Find the shapes that make a backtracking engine take exponential (or
+   * needlessly polynomial) time on a non-matching line: a repeated group
+   * containing a repeat (`(a+)+`), a repeated group whose alternatives
+   * match the same text (`(\w|\d)*`), and adjacent repeats over the same
+   * characters (`\s*\s*`)
+   */
+  private static findBacktracking(alternatives: RegexNode[][]): string | undefined {
+    for (const sequence of alternatives) {
+      for (let i = 0; i < sequence.length; i++) {
+        const node = sequence[i];
+
+        if (node.alternatives) {
+          if (node.max === Infinity && !node.lookaround) {
+            if (PatternCompiler.isAmbiguousRepeat(node.alternatives)) {
+              return `nested quantifier in ${node.source} can backtrack catastrophically`;
+            }
+            if (PatternCompiler.hasOverlappingAlternatives(node.alternatives)) {
+              return `repeated alternatives in ${node.source} match the same text and can backtrack catastrophically`;
+            }
+          }
+          const nested = PatternCompiler.findBacktracking(node.alternatives);
+          if (nested) {
+            return nested;
+          }
+        }
+
+        const previous = sequence[i - 1];
+        if (
+          previous?.atom &&
+          node.atom &&
+          previous.max === Infinity &&
+          node.max === Infinity &&
+          PatternCompiler.atomsOverlap(previous.atom, node.atom)
+        ) {
+          return `adjacent quantifiers ${previous.source}${node.source} match the same characters`;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether a repeated group can split the same text between its
+   * iterations in several ways: some alternative repeats inside, with no
+   * required character that the inner repeats can't consume (`,` in
+   * `([a-z]+,)*` keeps it unambiguous)
+   */
+  private static isAmbiguousRepeat(alternatives: RegexNode[][]): boolean {
+    return alternatives.some((sequence) => {
+      const repeats = PatternCompiler.repeatedAtoms(sequence);
+      if (repeats.length === 0) {
+        return false;
+      }
+      const separators = sequence.filter((node) => node.atom && node.min >= 1 && node.max !== Infinity);
+      return !separators.some((separator) =>
+        repeats.every((atom) => !PatternCompiler.atomsOverlap(separator.atom!, atom))
+      );
+    });
+  }
+
+  /**
+   * Atoms under an unbounded quantifier anywhere in a sequence; a repeated
+   * group counts as `[\s\S]`, since it can match anything
+   */
+  private static repeatedAtoms(sequence: RegexNode[]): string[] {
+    return sequence.flatMap((node) => {
+      if (node.lookaround) {
+        return [];
+      }
+      if (node.max === Infinity) {
+        return node.atom ? [node.atom] : node.alternatives ? ['[\\s\\S]'] : [];
+      }
+      return node.alternatives ? node.alternatives.flatMap((inner) => PatternCompiler.repeatedAtoms(inner)) : [];
+    });
+  }
+
+  /**
+   * Whether one alternative fully matches a sample of another's text
+   */
+  private static hasOverlappingAlternatives(alternatives: RegexNode[][]): boolean {
+    const sources = alternatives.map((sequence) => sequence.map((node) => node.source).join(''));
+    const samples = alternatives.map((sequence) => PatternCompiler.sample(sequence));
+
+    for (let a = 0; a < alternatives.length; a++) {
+      for (let b = 0; b < alternatives.length; b++) {
+        const sample = samples[b];
+        if (a !== b && sample !== undefined && new RegExp(`^(?:${sources[a]})$`, 'i').test(sample)) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Shortest text a sequence obviously matches, built from one sample
+   * character per atom; undefined when an atom has no sample
+   */
+  private static sample(sequence: RegexNode[]): string | undefined {
+    let text = '';
+    for (const node of sequence) {
+      let part: string | undefined = '';
+      if (node.atom) {
+        const regex = new RegExp(`^(?:${node.atom})$`, 'i');
+        part = SAMPLE_CHARS.find((char) => regex.test(char));
+      } else if (node.alternatives && !node.lookaround) {
+        part = PatternCompiler.sample(node.alternatives[0]);
+      }
+      if (part === undefined) {
+        return undefined;
+      }
+      text += part.repeat(node.min);
+    }
+    return text;
+  }
+
+  private static atomsOverlap(a: string, b: string): boolean {
+    const first = new RegExp(`^(?:${a})$`, 'i');
+    const second = new RegExp(`^(?:${b})$`, 'i');
+    return SAMPLE_CHARS.some((char) => first.test(char) && second.test(char));
+  }
+
+  /**
+   * Parse a regex (already known to be valid) into alternatives of nodes
+   */
+  private static parse(source: string): RegexNode[][] {
+    let pos = 0;
+
+    const alternatives = (): RegexNode[][] => {
+      const result: RegexNode[][] = [[]];
+
+      while (pos < source.length && source[pos] !== ')') {
+        const start = pos;
+        const char = source[pos];
+        let node: Omit<RegexNode, 'source' | 'min' | 'max'>;
+
+        if (char === '|') {
+          pos++;
+          result.push([]);
+          continue;
+        } else if (char === '(') {
+          const prefix = source.slice(pos + 1).match(/^\?(?::|<?[=!]|<[\w$]+>)/);
+          pos += 1 + (prefix ? prefix[0].length : 0);
+          node = { alternatives: alternatives(), lookaround: /^\?<?[=!]/.test(prefix?.[0] ?? '') };
+          pos++; // ')'
+        } else if (char === '[') {
+          pos = PatternCompiler.classEnd(source, pos);
+          node = { atom: source.slice(start, pos) };
+        } else if (char === '\\') {
+          const escape = source
+            .slice(pos)
+            .match(/^\\(?:u\{[\da-f]+\}|u[\da-f]{4}|x[\da-f]{2}|c[a-z]|[pP]\{[^}]*\}|k<[^>]*>|[1-9]\d*|[\s\S])/i)!;
+          pos += escape[0].length;
+          // Word boundaries and backreferences aren't single characters
+          node = /^\\(?:[bB]|[1-9]|k<)/.test(escape[0]) ? {} : { atom: escape[0] };
+        } else if (char === '^' || char === '$') {
+          pos++;
+          node = {};
+        } else {
+          pos++;
+          node = { atom: char };
+        }
+
+        let min = 1;
+        let max = 1;
+        const quantifier = source.slice(pos).match(/^(?:([*+?])|\{(\d+)(,(\d*))?\})\??/);
+        if (quantifier) {
+          pos += quantifier[0].length;
+          if (quantifier[1]) {
+            min = quantifier[1] === '+' ? 1 : 0;
+            max = quantifier[1] === '?' ? 1 : Infinity;
+          } else {
+            min = Number(quantifier[2]);
+            max = quantifier[3] === undefined ? min : quantifier[4] ? Number(quantifier[4]) : Infinity;
+          }
+        }
+
+        result[result.length - 1].push({ ...node, source: source.slice(start, pos), min, max });
+      }
+      return result;
+    };
+
+    return alternatives();
+  }
+
+  /**
+   * Index just past the `]` closing the character class opened at `start`
+   */
+  private static classEnd(source: string, start: number): number {
+    for (let i = start + 1; i < source.length; i++) {
+      if (source[i] === '\\') {
+        i++;
+      } else if (source[i] === ']') {
+        return i + 1;
+      }
+    }
+    return source.length;
+  }
+}
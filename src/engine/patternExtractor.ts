@@ -3,13 +3,121 @@
  * Extracts bug patterns from commit diffs
  */
 
-import { BugPattern, GitHubCommit, GitHubFile, BugCategory } from '../types';
+import { AstPattern, BugPattern, GitHubCommit, GitHubFile, BugCategory } from '../types';
+import { AstPatternExtractor } from './astPatterns';
+import { DetectorPlugin, DetectorPluginLoader, DetectorResult } from './detectorPlugins';
+import { AlignedLine, DiffHunk, DiffLine, HunkAligner } from './hunkAligner';
+import { PatternGeneralizer } from './patternGeneralizer';
+import { patternId } from './patternIdentity';
+import { GoDetectors } from './goDetectors';
+import { PythonDetectors } from './pythonDetectors';
+import { RustDetectors } from './rustDetectors';
+
+// Edits the AST extractor recognizes exactly; when a file's syntax trees are
+// available, the line heuristics for these are skipped
+const STRUCTURAL_CATEGORIES = new Set<BugCategory>(['null_check_missing', 'missing_await', 'off_by_one_loop']);
+
+// `if (!user) return;`, `if (user == null) {`, `if user is None:`, `if user == nil {`,
+// capturing the guarded variable or property path
+const GUARD_CLAUSE =
+  /^(?:}\s*else\s+)?if\s*\(?\s*(?:!\s*([\w.]+)|not\s+([\w.]+)|([\w.]+)\s*(?:===?|is)\s*(?:null|undefined|None|nil)|typeof\s+([\w.]+)\s*===?\s*['"]undefined['"])\s*\)?\s*(?:[:{]|return|throw|continue|break|raise)/;
+const TRY_OPENER = /^try\s*[:{]?$/;
+const TRY_CLOSER = /\b(?:catch|except|finally)\b/;
+/** How many unchanged lines below a guard clause may be the one it protects */
+const GUARD_REACH = 5;
+
+/**
+ * Detectors for one language, used instead of the JS-shaped built-ins
+ */
+interface LanguageDetectors {
+  /**
+   * @param scope Lines above the change as they were before it, ending with
+   * the untrimmed buggy line, for detectors that depend on the enclosing block
+   */
+  detect(buggyLine: string, fixedLine: string, scope: string[]): DetectorResult | null;
+}
+
+// A SQL statement, recognized by its shape rather than a lone keyword
+const SQL_COLUMN = String.raw`(?:\*|[\w.]+(?:\([^)]*\))?(?:\s+AS\s+\w+)?)`;
+const SQL = String.raw`(?:SELECT\s+(?:DISTINCT\s+)?${SQL_COLUMN}(?:\s*,\s*${SQL_COLUMN})*\s+FROM|INSERT\s+INTO|UPDATE\s+\w+\s+SET|DELETE\s+FROM)\b`;
+
+/**
+ * Sinks whose removal from a line marks a security fix; each regex is both
+ * how the buggy line is recognized and the pattern learned from it
+ */
+const SECURITY_SINKS: Array<{ regex: string; category: BugCategory; riskBase: number }> = [
+  // "SELECT ... WHERE id = " + id, `SELECT ... ${id}`, f"SELECT ... {id}", "..." % id
+  { regex: String.raw`["'\`]\s*${SQL}[^"'\`]*["'\`]\s*\+`, category: 'injection', riskBase: 9 },
+  { regex: String.raw`\`\s*${SQL}[^\`]*\$\{`, category: 'injection', riskBase: 9 },
+  { regex: String.raw`\bf["']\s*${SQL}[^"']*\{`, category: 'injection', riskBase: 9 },
+  { regex: String.raw`["']\s*${SQL}[^"']*["']\s*(?:%\s*[\w(]|\.format\s*\()`, category: 'injection', riskBase: 9 },
+  { regex: String.raw`\bexec(?:Sync)?\s*\(\s*(?:[^)]*\+|\`[^\`]*\$\{)`, category: 'injection', riskBase: 9 },
+  { regex: String.raw`\bos\.system\s*\(`, category: 'injection', riskBase: 9 },
+  { regex: String.raw`\bshell\s*=\s*True\b`, category: 'injection', riskBase: 8 },
+  { regex: String.raw`(?<![\w.])eval\s*\(`, category: 'injection', riskBase: 9 },
+  { regex: String.raw`\bnew\s+Function\s*\(`, category: 'injection', riskBase: 9 },
+  // Sanitized HTML is fine
+  { regex: String.raw`\.(?:inner|outer)HTML\s*\+?=(?!=)(?![^;]*\bsanitize\w*\s*\()`, category: 'xss', riskBase: 8 },
+  { regex: String.raw`\.insertAdjacentHTML\s*\((?![^;]*\bsanitize\w*\s*\()`, category: 'xss', riskBase: 8 },
+  { regex: String.raw`\bdocument\.write(?:ln)?\s*\(`, category: 'xss', riskBase: 8 },
+  { regex: String.raw`\bdangerouslySetInnerHTML\b(?![^;]*\bsanitize\w*\s*\()`, category: 'xss', riskBase: 8 },
+  { regex: String.raw`\b(?:c?pickle|dill|marshal)\.loads?\s*\(`, category: 'unsafe_deserialization', riskBase: 9 },
+  { regex: String.raw`\byaml\.load\s*\((?![^)]*Loader\s*=\s*(?:yaml\.)?C?SafeLoader)`, category: 'unsafe_deserialization', riskBase: 9 },
+  { regex: String.raw`\bjsonpickle\.decode\s*\(`, category: 'unsafe_deserialization', riskBase: 9 },
+  { regex: String.raw`(?<![\w>])unserialize\s*\(`, category: 'unsafe_deserialization', riskBase: 9 },
+  { regex: String.raw`\bnew\s+ObjectInputStream\s*\(`, category: 'unsafe_deserialization', riskBase: 8 },
+  // apiKey = "sk_live_...", and secrets passed to a logger
+  {
+    regex: String.raw`\b(?:api[_-]?key|secret|password|passwd|token|private[_-]?key|access[_-]?key)\w*["']?\s*[:=]\s*["'][^"'\s]{6,}["']`,
+    category: 'secret_exposure',
+    riskBase: 8,
+  },
+  {
+    regex: String.raw`\b(?:console|logger|log|logging)\.\w+\s*\([^)]*,\s*(?:[\w.]*\.)?(?:password|passwd|secret|token|api_?key)\b`,
+    category: 'secret_exposure',
+    riskBase: 7,
+  },
+];
+
+// `if (name.includes('..'))`, `if not path.startswith(root):` and similar checks on a path
+const PATH_GUARD =
+  /^(?:}\s*else\s+)?if\b.*(?:\.\.|\b(?:startsWith|startswith|starts_with|HasPrefix|is_relative_to|relative_to|realpath|isAbsolute|isabs)\b)/;
+// What a path fix wraps user input in
+const PATH_SANITIZER = /\b(?:basename|secure_filename|filepath\.Base|normalize|realpath|Clean|sanitize\w*)\s*\(/i;
+
+interface InsertionFinding {
+  regex: string;
+  category: BugCategory;
+  riskBase: number;
+  reason?: string;
+  enclosing?: string;
+  /** The protected line, before the fix */
+  line: number;
+  buggyExample: string;
+  fixedExample: string;
+}
 
 export class PatternExtractor {
+  private astExtractor = new AstPatternExtractor();
+  private hunkAligner = new HunkAligner();
+  private generalizer = new PatternGeneralizer();
+  private goDetectors = new GoDetectors();
+  private languageDetectors: Record<string, LanguageDetectors> = {
+    python: new PythonDetectors(),
+    go: this.goDetectors,
+    rust: new RustDetectors(),
+  };
+
+  /**
+   * @param plugins Detectors from `.codeghost/detectors/`; they run before the built-in ones
+   */
+  constructor(private plugins: DetectorPlugin[] = []) {}
+
   /**
    * Extract bug patterns from a list of bug commits
+   * @param stored Patterns learned earlier, which new ones may generalize with
    */
-  extractPatterns(commits: GitHubCommit[]): BugPattern[] {
+  extractPatterns(commits: GitHubCommit[], stored: BugPattern[] = []): BugPattern[] {
     const patterns: BugPattern[] = [];
     const patternMap = new Map<string, BugPattern>();
 
@@ -30,22 +138,21 @@ export class PatternExtractor {
         const filePatterns = this.extractPatternsFromDiff(file, commit);
         
         for (const pattern of filePatterns) {
-          const key = `${pattern.regex}_${pattern.category}`;
-          
-          if (patternMap.has(key)) {
+          if (patternMap.has(pattern.id)) {
             // Update existing pattern
-            const existing = patternMap.get(key)!;
+            const existing = patternMap.get(pattern.id)!;
             existing.occurrence_count++;
             existing.commits.push(...pattern.commits);
           } else {
             // Add new pattern
-            patternMap.set(key, pattern);
+            patternMap.set(pattern.id, pattern);
           }
         }
       }
     }
 
-    const result = Array.from(patternMap.values());
+    // The same kind of fix on different variables becomes one template
+    const result = this.generalizer.generalize(Array.from(patternMap.values()), stored);
     console.log(`[CodeGhost] Total patterns extracted: ${result.length}`);
     return result;
   }
@@ -55,60 +162,276 @@ export class PatternExtractor {
    */
   private extractPatternsFromDiff(file: GitHubFile, commit: GitHubCommit): BugPattern[] {
     const patterns: BugPattern[] = [];
-    const language = this.detectLanguage(file.filename);
-    const lines = file.patch!.split('\n');
+    const language = PatternExtractor.detectLanguage(file.filename);
+
+    // TS/JS files whose contents were loaded are compared as syntax trees
+    const findings = this.astExtractor.extract(file);
+    for (const finding of findings || []) {
+      patterns.push(
+        this.createPattern(
+          { regex: finding.regex, category: finding.category, riskBase: finding.riskBase },
+          language,
+          commit,
+          file.filename,
+          finding.line,
+          finding.buggyExample,
+          finding.fixedExample,
+          finding.ast
+        )
+      );
+    }
 
-    let lineNumber = 0;
-    let inRemovalBlock = false;
-    const removedLines: string[] = [];
+    for (const hunk of HunkAligner.parse(file.patch!)) {
+      const aligned = this.hunkAligner.align(hunk);
+      const context = {
+        buggyHunk: this.hunkSide(hunk.lines, 'removed'),
+        fixedHunk: this.hunkSide(hunk.lines, 'added'),
+      };
 
-    for (const line of lines) {
-      // Track line numbers
-      if (line.startsWith('@@')) {
-        const match = line.match(/@@ -(\d+)/);
-        if (match) {
-          lineNumber = parseInt(match[1], 10);
+      // Rewritten lines, paired with the removed line they most resemble
+      for (const { removed, added } of aligned.pairs) {
+        const pattern = this.analyzeBugPattern(
+          removed.text.trim(),
+          added.text.trim(),
+          language,
+          commit,
+          file.filename,
+          removed.oldLine!,
+          findings !== undefined,
+          context,
+          this.scopeOf(hunk, removed)
+        );
+        if (pattern) {
+          patterns.push(pattern);
         }
-        continue;
       }
 
-      if (line.startsWith('-') && !line.startsWith('---')) {
-        // Line that was removed (buggy code)
-        inRemovalBlock = true;
-        removedLines.push(line.substring(1).trim());
-      } else if (line.startsWith('+') && !line.startsWith('+++')) {
-        // Line that was added (fixed code)
-        if (inRemovalBlock && removedLines.length > 0) {
-          const buggyLine = removedLines[removedLines.length - 1];
-          const fixedLine = line.substring(1).trim();
-          
-          // Analyze the bug pattern
-          const pattern = this.analyzeBugPattern(
-            buggyLine,
-            fixedLine,
+      // A risky line replaced by something that reads too differently to be paired
+      const paired = new Set(aligned.pairs.map((pair) => pair.removed));
+      const removedSinks = context.fixedHunk.length > 0
+        ? hunk.lines.filter((line) => line.type === 'removed' && !paired.has(line))
+        : [];
+      for (const line of removedSinks) {
+        const security = this.detectSecurityFix(line.text.trim(), context.fixedHunk.join('\n'));
+        if (security) {
+          patterns.push(
+            this.createPattern(
+              security,
+              language,
+              commit,
+              file.filename,
+              line.oldLine!,
+              line.text.trim(),
+              context.fixedHunk.join('\n')
+            )
+          );
+        }
+      }
+
+      // Lines added in front of (or around) code that didn't change
+      for (const insertion of this.detectProtectiveInsertions(aligned.lines, language)) {
+        patterns.push(
+          this.createPattern(
+            insertion,
             language,
             commit,
             file.filename,
-            lineNumber
-          );
-
-          if (pattern) {
-            patterns.push(pattern);
-          }
-        }
-        inRemovalBlock = false;
-        lineNumber++;
-      } else {
-        inRemovalBlock = false;
-        if (!line.startsWith('\\')) {
-          lineNumber++;
-        }
+            insertion.line,
+            insertion.buggyExample,
+            insertion.fixedExample
+          )
+        );
       }
     }
 
     return patterns;
   }
 
+  /**
+   * Find fixes that only added lines: a guard clause above an access that
+   * stayed the same, or a `try` wrapped around a risky call. The pattern is
+   * learned from the unchanged line the insertion protects.
+   */
+  private detectProtectiveInsertions(lines: AlignedLine[], language: string): InsertionFinding[] {
+    const findings: InsertionFinding[] = [];
+
+    lines.forEach((line, index) => {
+      if (line.kind !== 'inserted') {
+        return;
+      }
+      const finding = PATH_GUARD.test(line.text)
+        ? this.detectPathGuard(lines, index)
+        : GUARD_CLAUSE.test(line.text)
+          ? this.detectGuardClause(lines, index, language)
+          : TRY_OPENER.test(line.text)
+            ? this.detectTryWrapper(lines, index, language)
+            : language === 'go'
+              ? this.detectLoopVariableCopy(lines, index)
+              : null;
+      if (finding) {
+        findings.push(finding);
+      }
+    });
+
+    return findings;
+  }
+
+  /**
+   * `if (!user) return;` added above an unchanged `user.name` (or `user[i]`)
+   */
+  private detectGuardClause(lines: AlignedLine[], start: number, language: string): InsertionFinding | null {
+    const guard = lines[start].text.match(GUARD_CLAUSE)!;
+    const guarded = (guard[1] ?? guard[2] ?? guard[3] ?? guard[4]).replace(/\./g, '\\.');
+    const access = new RegExp(String.raw`\b${guarded}(?:\.(\w+)|\[)`);
+
+    const target = lines
+      .slice(start + 1)
+      .filter((line) => line.kind === 'context' && line.text.length > 0)
+      .slice(0, GUARD_REACH)
+      .find((line) => access.test(line.text));
+    if (!target) {
+      return null;
+    }
+
+    const property = target.text.match(access)![1];
+    const guardLines = this.insertedRun(lines, start).map((line) => line.text);
+    // In Go the guard usually initializes a nil map before writing to it
+    const nilMapWrite = language === 'go' && this.goDetectors.detectNilMapWrite(guard[3] ?? '', target.text);
+    return {
+      ...(nilMapWrite
+        ? nilMapWrite
+        : property
+        ? { regex: String.raw`\b${guarded}\.${property}\b(?!\?)`, category: 'null_check_missing', riskBase: 8 }
+        : { regex: String.raw`\b${guarded}\[\w+\](?!\?)`, category: 'undefined_access', riskBase: 7 }),
+      line: target.oldLine!,
+      buggyExample: target.text,
+      fixedExample: [...guardLines, target.text].join('\n'),
+    };
+  }
+
+  /**
+   * A check for `..` or the base directory added above an unchanged file
+   * access
+   */
+  private detectPathGuard(lines: AlignedLine[], start: number): InsertionFinding | null {
+    for (const line of lines
+      .slice(start + 1)
+      .filter((l) => l.kind === 'context' && l.text.length > 0)
+      .slice(0, GUARD_REACH)) {
+      const sink = this.pathSink(line.text);
+      if (sink) {
+        return {
+          regex: sink,
+          category: 'path_traversal',
+          riskBase: 8,
+          line: line.oldLine!,
+          buggyExample: line.text,
+          fixedExample: [...this.insertedRun(lines, start).map((l) => l.text), line.text].join('\n'),
+        };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Regex for the file path built or opened on a line, tied to the variable
+   * that supplies it: the last argument of a path join, or the first
+   * argument of a file read
+   */
+  private pathSink(line: string): string | null {
+    const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+    const join = line.match(/\b((?:os\.)?path\.(?:join|resolve)|filepath\.Join)\s*\(([^()]*,\s*([\w.$]+))\s*\)/);
+    if (join) {
+      return String.raw`\b${escape(join[1])}\s*\([^()]*,\s*${escape(join[3])}\s*\)`;
+    }
+
+    const open = line.match(
+      /(?<![\w.])((?:fs\.)?(?:readFile|readFileSync|createReadStream|writeFile|writeFileSync)|res\.(?:sendFile|download)|open|os\.(?:Open|ReadFile)|send_file)\s*\(\s*([\w.$]+)\s*[,)]/
+    );
+    if (open) {
+      return String.raw`(?<![\w.])${escape(open[1])}\s*\(\s*${escape(open[2])}\s*[,)]`;
+    }
+    return null;
+  }
+
+  /**
+   * Go's `item := item` added in front of an unchanged `go func() {`
+   */
+  private detectLoopVariableCopy(lines: AlignedLine[], start: number): InsertionFinding | null {
+    const target = lines
+      .slice(start + 1)
+      .find((line) => line.kind !== 'inserted' && line.text.length > 0);
+    const result = target?.kind === 'context' && this.goDetectors.detectLoopVariableCopy(lines[start].text, target.text);
+    if (!target || !result) {
+      return null;
+    }
+    return {
+      ...result,
+      line: target.oldLine!,
+      buggyExample: target.text,
+      fixedExample: `${lines[start].text}\n${target.text}`,
+    };
+  }
+
+  /**
+   * `try {` ... `} catch` added around an unchanged risky call
+   */
+  private detectTryWrapper(lines: AlignedLine[], start: number, language: string): InsertionFinding | null {
+    // Everything up to the inserted `catch` is what the `try` protects
+    let closer = lines.findIndex(
+      (line, index) => index > start && line.kind === 'inserted' && TRY_CLOSER.test(line.text)
+    );
+    if (closer < 0) {
+      closer = lines.length;
+    }
+
+    for (const line of lines.slice(start + 1, closer)) {
+      const result = line.kind === 'context' && this.detectMissingErrorHandling(line.text, lines[start].text, language);
+      if (result) {
+        const end = closer + this.insertedRun(lines, closer).length;
+        return {
+          ...result,
+          line: line.oldLine!,
+          buggyExample: line.text,
+          fixedExample: lines
+            .slice(start, end)
+            .map((l) => l.text)
+            .join('\n'),
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * The removed or added lines of a hunk, trimmed
+   */
+  /**
+   * The hunk's function context and old-side lines up to `line`, untrimmed
+   */
+  private scopeOf(hunk: DiffHunk, line: DiffLine): string[] {
+    const before = hunk.lines.filter((l) => l.type !== 'added');
+    const lines = before.slice(0, before.indexOf(line) + 1).map((l) => l.text);
+    return hunk.header ? [hunk.header, ...lines] : lines;
+  }
+
+  private hunkSide(lines: DiffLine[], type: 'removed' | 'added'): string[] {
+    return lines.filter((line) => line.type === type).map((line) => line.text.trim());
+  }
+
+  /**
+   * The consecutive inserted lines starting at `start`
+   */
+  private insertedRun(lines: AlignedLine[], start: number): AlignedLine[] {
+    const run: AlignedLine[] = [];
+    for (let i = start; i < lines.length && lines[i].kind === 'inserted'; i++) {
+      run.push(lines[i]);
+    }
+    return run;
+  }
+
   /**
    * Analyze a bug pattern by comparing buggy and fixed lines
    */
@@ -118,7 +441,10 @@ export class PatternExtractor {
     language: string,
     commit: GitHubCommit,
     filename: string,
-    lineNumber: number
+    lineNumber: number,
+    structural: boolean,
+    context: { buggyHunk: string[]; fixedHunk: string[] },
+    scope: string[] = []
   ): BugPattern | null {
     // Skip empty lines
     if (!buggyLine.trim() || !fixedLine.trim()) {
@@ -126,10 +452,43 @@ export class PatternExtractor {
     }
 
     // Skip comment-only changes
-    if (buggyLine.trim().startsWith('//') && fixedLine.trim().startsWith('//')) {
+    const comment = language === 'python' ? /^#/ : /^\/\//;
+    if (comment.test(buggyLine.trim()) && comment.test(fixedLine.trim())) {
       return null;
     }
 
+    // The repository's own detectors take precedence
+    for (const plugin of this.plugins) {
+      try {
+        const result = DetectorPluginLoader.run(plugin, { buggyLine, fixedLine, ...context, language, filename });
+        if (result) {
+          return this.createPattern(
+            { ...result, detector: plugin.id },
+            language,
+            commit,
+            filename,
+            lineNumber,
+            buggyLine,
+            fixedLine
+          );
+        }
+      } catch (error: any) {
+        console.log(`[CodeGhost] Detector plugin ${plugin.id} failed: ${error.message}`);
+      }
+    }
+
+    // Security fixes look alike across languages
+    const security = this.detectSecurityFix(buggyLine, fixedLine);
+    if (security) {
+      return this.createPattern(security, language, commit, filename, lineNumber, buggyLine, fixedLine);
+    }
+
+    const suite = this.languageDetectors[language];
+    if (suite) {
+      const result = suite.detect(buggyLine, fixedLine, scope);
+      return result ? this.createPattern(result, language, commit, filename, lineNumber, buggyLine, fixedLine) : null;
+    }
+
     // Pattern detection rules
     const detectors = [
       this.detectNullCheck,
@@ -147,28 +506,79 @@ export class PatternExtractor {
 
     for (const detector of detectors) {
       const result = detector.call(this, buggyLine, fixedLine, language);
-      if (result) {
-        return {
-          id: this.generatePatternId(),
-          language,
-          regex: result.regex,
-          category: result.category,
-          risk_base: result.riskBase,
-          commits: [
-            {
-              sha: commit.sha,
-              file: filename,
-              line: lineNumber,
-              message: commit.commit.message.split('\n')[0],
-            },
-          ],
-          occurrence_count: 1,
-          buggyExample: buggyLine,
-          fixedExample: fixedLine,
-        };
+      if (result && !(structural && STRUCTURAL_CATEGORIES.has(result.category))) {
+        return this.createPattern(result, language, commit, filename, lineNumber, buggyLine, fixedLine);
+      }
+    }
+
+    return null;
+  }
+
+  private createPattern(
+    result: {
+      regex: string;
+      category: BugCategory;
+      riskBase: number;
+      reason?: string;
+      enclosing?: string;
+      detector?: string;
+    },
+    language: string,
+    commit: GitHubCommit,
+    filename: string,
+    lineNumber: number,
+    buggyExample: string,
+    fixedExample: string,
+    ast?: AstPattern
+  ): BugPattern {
+    return {
+      id: patternId({ language, category: result.category, regex: result.regex, ast, enclosing: result.enclosing }),
+      language,
+      regex: result.regex,
+      category: result.category,
+      risk_base: result.riskBase,
+      commits: [
+        {
+          sha: commit.sha,
+          file: filename,
+          line: lineNumber,
+          message: commit.commit.message.split('\n')[0],
+          classification: commit.classification,
+          links: commit.links,
+        },
+      ],
+      occurrence_count: 1,
+      buggyExample,
+      fixedExample,
+      ast,
+      reason: result.reason,
+      enclosing: result.enclosing,
+      detector: result.detector,
+    };
+  }
+
+  /**
+   * Detect security fixes: a query, shell command or HTML built from
+   * untrusted input, `eval`, unsafe deserializers, hard-coded or logged
+   * secrets, and file paths that gained a sanitizer
+   */
+  private detectSecurityFix(
+    buggyLine: string,
+    fixedLine: string
+  ): { regex: string; category: BugCategory; riskBase: number } | null {
+    for (const sink of SECURITY_SINKS) {
+      const regex = new RegExp(sink.regex, 'i');
+      if (regex.test(buggyLine) && !regex.test(fixedLine)) {
+        return sink;
       }
     }
 
+    // `path.join(root, name)` changed to `path.join(root, path.basename(name))`
+    const sink = this.pathSink(buggyLine);
+    if (sink && PATH_SANITIZER.test(fixedLine) && !PATH_SANITIZER.test(buggyLine) && !new RegExp(sink).test(fixedLine)) {
+      return { regex: sink, category: 'path_traversal', riskBase: 8 };
+    }
+
     return null;
   }
 
@@ -510,7 +920,7 @@ export class PatternExtractor {
   /**
    * Detect programming language from filename
    */
-  private detectLanguage(filename: string): string {
+  static detectLanguage(filename: string): string {
     const extension = filename.split('.').pop()?.toLowerCase();
     
     const languageMap: Record<string, string> = {
@@ -530,11 +940,4 @@ export class PatternExtractor {
 
     return languageMap[extension || ''] || 'unknown';
   }
-
-  /**
-   * Generate unique pattern ID
-   */
-  private generatePatternId(): string {
-    return `pattern_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
 }
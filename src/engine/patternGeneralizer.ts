@@ -0,0 +1,349 @@
+/**
+ * Pattern Generalizer Module
+ * Anti-unifies repeated fixes of the same kind into templates with
+ * identifier holes
+ */
+
+import { AstPattern, BugPattern, PatternInstance } from '../types';
+import { patternId } from './patternIdentity';
+
+// Words that shape the code rather than name things; they never become holes
+const KEYWORDS = new Set([
+  'async', 'await', 'break', 'const', 'continue', 'def', 'else', 'false', 'for', 'function', 'if', 'in',
+  'is', 'let', 'new', 'nil', 'None', 'not', 'null', 'of', 'return', 'this', 'true', 'typeof', 'undefined',
+  'var', 'while',
+]);
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// A trailing `(?!...)` / leading `(?<!...)` shared by every instance is kept on the template
+const TRAILING_LOOKAHEAD = /\(\?!(?:[^()]|\([^()]*\))*\)$/;
+const LEADING_LOOKBEHIND = /^\(\?<!(?:[^()]|\([^()]*\))*\)/;
+
+/** A hole in a template, numbered from 1 */
+type TemplateToken = string | { hole: number };
+
+/** A stored template is one member with a fragment per instance */
+interface ClusterMember {
+  pattern: BugPattern;
+  fragments: string[][];
+  stored: boolean;
+}
+
+interface Cluster {
+  tokens: TemplateToken[];
+  members: ClusterMember[];
+}
+
+export class PatternGeneralizer {
+  /**
+   * Replace patterns of the same language and category whose buggy code
+   * differs only in identifiers with one template pattern. Templates keep
+   * their concrete patterns as `template.instances`, and are dropped when
+   * they would also match a line the fixes introduced.
+   *
+   * New patterns are also generalized with the `stored` ones (learned by
+   * earlier scans), including stored templates, which then widen. Stored
+   * patterns are only returned inside a template; the store retires the
+   * ones a template absorbs.
+   */
+  generalize(patterns: BugPattern[], stored: BugPattern[] = []): BugPattern[] {
+    // A stored pattern with a new pattern's id is merged into it by the store
+    const ids = new Set(patterns.map((pattern) => pattern.id));
+    const candidates = [
+      ...patterns.map((pattern) => ({ pattern, stored: false })),
+      ...stored
+        .filter(
+          (pattern) =>
+            !ids.has(pattern.id) && !pattern.origin && !pattern.quarantined && pattern.validation?.status !== 'demoted'
+        )
+        .map((pattern) => ({ pattern, stored: true })),
+    ];
+
+    const groups = new Map<string, Array<{ pattern: BugPattern; stored: boolean }>>();
+    for (const candidate of candidates) {
+      const { pattern } = candidate;
+      const key = `${pattern.language}:${pattern.category}:${pattern.ast?.kind ?? 'regex'}:${pattern.enclosing ?? ''}`;
+      if (!groups.has(key)) {
+        groups.set(key, []);
+      }
+      groups.get(key)!.push(candidate);
+    }
+
+    const result: BugPattern[] = [];
+    for (const group of groups.values()) {
+      const generalized = new Set<BugPattern>();
+
+      for (const cluster of this.cluster(group)) {
+        const template = this.toTemplate(cluster);
+        if (template) {
+          cluster.members.forEach((member) => generalized.add(member.pattern));
+          result.push(template);
+        }
+      }
+
+      result.push(...group.filter((c) => !c.stored && !generalized.has(c.pattern)).map((c) => c.pattern));
+    }
+
+    const templates = result.filter((pattern) => pattern.template).length;
+    if (templates > 0) {
+      console.log(`[CodeGhost] Generalized ${templates} template pattern(s) from repeated fixes`);
+    }
+    return result;
+  }
+
+  /**
+   * Greedily group patterns whose matched buggy code anti-unifies with a
+   * cluster's template. Clusters without a new pattern are left alone.
+   */
+  private cluster(candidates: Array<{ pattern: BugPattern; stored: boolean }>): Cluster[] {
+    const clusters: Cluster[] = [];
+
+    for (const { pattern, stored } of candidates) {
+      const fragments = this.fragmentsOf(pattern);
+      if (!fragments) {
+        continue;
+      }
+
+      const member = { pattern, fragments, stored };
+      const joined = clusters.find((cluster) => this.join(cluster, member));
+      if (!joined) {
+        const tokens = this.antiUnify(fragments);
+        if (tokens) {
+          clusters.push({ tokens, members: [member] });
+        }
+      }
+    }
+
+    return clusters.filter((cluster) => cluster.members.length > 1 && cluster.members.some((member) => !member.stored));
+  }
+
+  /**
+   * The tokens of the code each concrete pattern (a template's instances,
+   * or the pattern itself) matched in its buggy example
+   */
+  private fragmentsOf(pattern: BugPattern): string[][] | undefined {
+    const concrete = pattern.template ? pattern.template.instances : [pattern];
+    const fragments = concrete.map((instance) => this.fragmentOf(instance));
+    return fragments.length > 0 && fragments.every((fragment) => fragment) ? (fragments as string[][]) : undefined;
+  }
+
+  private fragmentOf(pattern: { regex: string; buggyExample?: string }): string[] | undefined {
+    if (!pattern.buggyExample) {
+      return undefined;
+    }
+    try {
+      const match = new RegExp(pattern.regex).exec(pattern.buggyExample);
+      const tokens = match?.[0].match(/[\w$]+|[^\s\w$]/g);
+      return tokens && tokens.length > 0 ? tokens : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Add a member to a cluster if its fragments anti-unify with the
+   * cluster's
+   */
+  private join(cluster: Cluster, member: ClusterMember): boolean {
+    const tokens = this.antiUnify([...cluster.members.flatMap((other) => other.fragments), ...member.fragments]);
+    if (!tokens) {
+      return false;
+    }
+    cluster.tokens = tokens;
+    cluster.members.push(member);
+    return true;
+  }
+
+  /**
+   * Anti-unify fragments into template tokens. Only identifiers may differ;
+   * positions where every fragment had the same identifiers share a hole.
+   */
+  private antiUnify(fragments: string[][]): TemplateToken[] | undefined {
+    const length = fragments[0].length;
+    if (fragments.some((fragment) => fragment.length !== length)) {
+      return undefined;
+    }
+
+    const holes = new Map<string, number>();
+    const tokens: TemplateToken[] = [];
+
+    for (let i = 0; i < length; i++) {
+      const column = fragments.map((other) => other[i]);
+      if (column.every((token) => token === column[0])) {
+        tokens.push(column[0]);
+        continue;
+      }
+      if (!column.every((token) => PatternGeneralizer.isIdentifier(token))) {
+        return undefined;
+      }
+
+      const key = column.join('\u0000');
+      if (!holes.has(key)) {
+        holes.set(key, holes.size + 1);
+      }
+      tokens.push({ hole: holes.get(key)! });
+    }
+
+    // A template that is nothing but holes would flag any code of that shape
+    if (!tokens.some((token) => typeof token === 'string' && IDENTIFIER.test(token))) {
+      return undefined;
+    }
+    return tokens;
+  }
+
+  private toTemplate(cluster: Cluster): BugPattern | undefined {
+    const { tokens, members } = cluster;
+    const patterns = members.map((member) => member.pattern);
+    const instances = this.instancesOf(patterns);
+
+    const regex = this.buildRegex(tokens, instances);
+    const ast = this.generalizeAst(instances);
+    if (instances.some((instance) => instance.ast) && !ast) {
+      return undefined;
+    }
+
+    let compiled: RegExp;
+    try {
+      compiled = new RegExp(regex, 'i');
+    } catch {
+      return undefined;
+    }
+    if (!instances.every((instance) => compiled.test(instance.buggyExample!))) {
+      return undefined;
+    }
+    // The template must not flag what the fixes turned the code into
+    const fixedLines = instances.flatMap((instance) =>
+      (instance.fixedExample || '').split('\n').filter((line) => line.trim() !== instance.buggyExample!.trim())
+    );
+    if (fixedLines.some((line) => compiled.test(line))) {
+      console.log(`[CodeGhost] Rejected template ${this.describe(tokens)}: it also matches fixed code`);
+      return undefined;
+    }
+
+    // Built on a new pattern; stored references are copied, since later
+    // steps of the scan rewrite the template's ones
+    const base = members.find((member) => !member.stored)!.pattern;
+    return {
+      ...base,
+      id: patternId({ ...base, regex, ast }),
+      regex,
+      ast,
+      risk_base: Math.round(patterns.reduce((sum, p) => sum + p.risk_base, 0) / patterns.length),
+      commits: patterns.flatMap((pattern) => pattern.commits.map((ref) => ({ ...ref }))),
+      occurrence_count: patterns.reduce((sum, p) => sum + p.occurrence_count, 0),
+      template: { source: this.describe(tokens), instances },
+    };
+  }
+
+  /**
+   * Concrete patterns behind a cluster: stored templates contribute their
+   * instances. Instances with the same matcher are merged.
+   */
+  private instancesOf(patterns: BugPattern[]): PatternInstance[] {
+    const instances = new Map<string, PatternInstance>();
+    for (const pattern of patterns) {
+      const concrete: PatternInstance[] = pattern.template
+        ? pattern.template.instances
+        : [
+            {
+              regex: pattern.regex,
+              ast: pattern.ast,
+              buggyExample: pattern.buggyExample,
+              fixedExample: pattern.fixedExample,
+              commits: Array.from(new Set(pattern.commits.map((c) => c.sha))),
+            },
+          ];
+
+      for (const instance of concrete) {
+        const key = PatternGeneralizer.instanceKey(instance);
+        const existing = instances.get(key);
+        if (existing) {
+          existing.commits = Array.from(new Set([...existing.commits, ...instance.commits]));
+        } else {
+          instances.set(key, { ...instance, commits: [...instance.commits] });
+        }
+      }
+    }
+    return [...instances.values()];
+  }
+
+  /**
+   * Identity of a concrete pattern inside templates: its regex and AST form
+   */
+  static instanceKey(instance: Pick<PatternInstance, 'regex' | 'ast'>): string {
+    const ast = instance.ast;
+    return JSON.stringify([
+      instance.regex,
+      ast ? [ast.kind, ast.object ?? '', ast.property ?? '', ast.callee ?? '', ast.bound ?? ''] : [],
+    ]);
+  }
+
+  /**
+   * Regex for a template: literal tokens escaped, holes as named groups
+   * (a hole used twice must hold the same identifier both times)
+   */
+  private buildRegex(tokens: TemplateToken[], patterns: PatternInstance[]): string {
+    const seen = new Set<number>();
+    const body = tokens
+      .map((token) => {
+        if (typeof token !== 'string') {
+          if (seen.has(token.hole)) {
+            return String.raw`\b\k<h${token.hole}>\b`;
+          }
+          seen.add(token.hole);
+          return String.raw`\b(?<h${token.hole}>[\w$]+)\b`;
+        }
+        const escaped = token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return IDENTIFIER.test(token) ? `\\b${escaped}\\b` : escaped;
+      })
+      .join(String.raw`\s*`);
+
+    const shared = (pattern: RegExp) => {
+      const parts = patterns.map((p) => p.regex.match(pattern)?.[0]);
+      return parts.every((part) => part !== undefined && part === parts[0]) ? parts[0]! : '';
+    };
+    return `${shared(LEADING_LOOKBEHIND)}${body}${shared(TRAILING_LOOKAHEAD)}`;
+  }
+
+  /**
+   * Keep the AST fields all instances agree on; the rest become wildcards.
+   * Undefined when nothing concrete is left to match on.
+   */
+  private generalizeAst(instances: PatternInstance[]): AstPattern | undefined {
+    const [first, ...rest] = instances.map((instance) => instance.ast);
+    if (!first || rest.some((ast) => ast?.kind !== first.kind)) {
+      return undefined;
+    }
+
+    const ast: AstPattern = { kind: first.kind };
+    for (const field of ['object', 'property', 'callee', 'bound'] as const) {
+      if (first[field] !== undefined && rest.every((other) => other![field] === first[field])) {
+        ast[field] = first[field];
+      }
+    }
+    return Object.keys(ast).length > 1 ? ast : undefined;
+  }
+
+  /**
+   * Human-readable template, e.g. `$1.profile`
+   */
+  private describe(tokens: TemplateToken[]): string {
+    return tokens
+      .map((token, i) => {
+        const text = typeof token === 'string' ? token : `$${token.hole}`;
+        const previous = tokens[i - 1];
+        const spaced =
+          i > 0 &&
+          /^[\w$]/.test(text) &&
+          previous !== undefined &&
+          (typeof previous !== 'string' || /[\w$]$/.test(previous));
+        return spaced ? ` ${text}` : text;
+      })
+      .join('');
+  }
+
+  private static isIdentifier(token: string): boolean {
+    return IDENTIFIER.test(token) && !KEYWORDS.has(token);
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Pattern Identity Module
+ * Derives stable pattern ids from what a pattern matches
+ */
+
+import * as crypto from 'crypto';
+import { BugPattern } from '../types';
+
+export type PatternKey = Pick<BugPattern, 'language' | 'category' | 'regex' | 'ast' | 'enclosing'>;
+
+/**
+ * Id of a pattern, the same on every rebuild and on every machine: a hash
+ * of its language, category and normalized matcher (regex, enclosing block
+ * and structural form). Patterns with the same id are the same pattern.
+ */
+export function patternId(pattern: PatternKey): string {
+  const ast = pattern.ast
+    ? [pattern.ast.kind, pattern.ast.object ?? '', pattern.ast.property ?? '', pattern.ast.callee ?? '', pattern.ast.bound ?? '']
+    : [];
+  const key = JSON.stringify([
+    pattern.language,
+    pattern.category,
+    pattern.regex.trim(),
+    pattern.enclosing?.trim() ?? '',
+    ...ast,
+  ]);
+  return `pattern_${crypto.createHash('sha1').update(key).digest('hex').substring(0, 16)}`;
+}
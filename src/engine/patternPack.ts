@@ -0,0 +1,294 @@
+/**
+ * Pattern Pack Module
+ * Exports patterns to a checksummed, self-describing file other
+ * repositories can import
+ */
+
+import * as crypto from 'crypto';
+import { BUG_CATEGORIES, BugPattern, CommitLinks, CommitReference, PackProvenance, PatternPack } from '../types';
+import { runGit } from './gitProcess';
+import { BUG_MEMORY_VERSION } from './patternStore';
+import { patternId } from './patternIdentity';
+
+/** Format version of pattern packs written by this build */
+export const PATTERN_PACK_VERSION = 1;
+
+const AST_KINDS = new Set(['optional_chain', 'missing_await', 'inclusive_loop_bound']);
+const OPTIONAL_STRINGS = ['buggyExample', 'fixedExample', 'reason', 'enclosing', 'detector'] as const;
+const SHA = /^[0-9a-f]{4,64}$/i;
+const WEB_URL = /^https?:\/\/\S+$/i;
+
+export class PatternPacks {
+  /**
+   * Build a pack from stored patterns. Quarantined patterns are left out,
+   * and so are the validation results, which describe this repository's
+   * files. With `redact`, code examples and commit messages are removed.
+   */
+  static create(
+    name: string,
+    patterns: BugPattern[],
+    provenance: Omit<PackProvenance, 'redacted'>,
+    redact: boolean
+  ): PatternPack {
+    const packed = patterns
+      .filter((pattern) => !pattern.quarantined)
+      .map((pattern) => {
+        const copy: BugPattern = JSON.parse(JSON.stringify(pattern));
+        delete copy.validation;
+        delete copy.quarantined;
+        return redact ? PatternPacks.redact(copy) : copy;
+      });
+
+    const pack: PatternPack = {
+      format: 'codeghost-pattern-pack',
+      version: PATTERN_PACK_VERSION,
+      bug_memory_version: BUG_MEMORY_VERSION,
+      name,
+      provenance: { ...provenance, redacted: redact },
+      checksum: '',
+      patterns: packed,
+    };
+    pack.checksum = PatternPacks.checksum(pack);
+    return pack;
+  }
+
+  /**
+   * Read a pack, checking its format, version and checksum. Patterns with
+   * an unknown category or malformed fields are skipped and reported;
+   * commit references keep only well-formed SHAs and http(s) links.
+   */
+  static parse(text: string): { pack: PatternPack; problems: string[] } {
+    let pack: PatternPack;
+    try {
+      pack = JSON.parse(text);
+    } catch (error: any) {
+      throw new Error(`Failed to read pattern pack: ${error.message}`);
+    }
+
+    if (!pack || pack.format !== 'codeghost-pattern-pack' || !Array.isArray(pack.patterns)) {
+      throw new Error('Failed to read pattern pack: not a CodeGhost pattern pack');
+    }
+    if (pack.version > PATTERN_PACK_VERSION || pack.bug_memory_version > BUG_MEMORY_VERSION) {
+      throw new Error(`Failed to read pattern pack: it was written by a newer version of CodeGhost (${pack.provenance?.generator})`);
+    }
+    if (pack.checksum !== PatternPacks.checksum(pack)) {
+      throw new Error('Failed to read pattern pack: checksum mismatch, the file was modified or corrupted');
+    }
+
+    const problems: string[] = [];
+    pack.patterns = pack.patterns.filter((pattern, index) => {
+      const problem = PatternPacks.checkPattern(pattern);
+      if (problem) {
+        problems.push(`pattern ${index + 1} (${typeof pattern?.id === 'string' ? pattern.id : 'no id'}): ${problem}`);
+        return false;
+      }
+      // Ids are derived from the pattern; re-deriving them also upgrades
+      // packs written before the current id scheme
+      pattern.id = patternId(pattern);
+      pattern.commits = (pattern.commits || []).map(PatternPacks.sanitizeCommit);
+      pattern.occurrence_count =
+        typeof pattern.occurrence_count === 'number' ? Math.max(0, Math.round(pattern.occurrence_count)) : pattern.commits.length;
+      pattern.risk_base = Math.min(10, Math.max(1, Math.round(pattern.risk_base)));
+      // Set by the importing workspace, never taken from a pack
+      delete pattern.validation;
+      delete pattern.quarantined;
+      delete pattern.origin;
+      delete pattern.learned_in;
+      return true;
+    });
+
+    return { pack, problems };
+  }
+
+  /**
+   * Why a pack pattern can't be imported, or undefined when it can
+   */
+  private static checkPattern(pattern: any): string | undefined {
+    if (!pattern || typeof pattern !== 'object') {
+      return 'not an object';
+    }
+    if (typeof pattern.regex !== 'string' || typeof pattern.language !== 'string' || !Number.isFinite(pattern.risk_base)) {
+      return 'missing regex, language or risk_base';
+    }
+    if (!BUG_CATEGORIES.has(pattern.category)) {
+      return `unknown category "${pattern.category}"`;
+    }
+    const badString = OPTIONAL_STRINGS.find((key) => pattern[key] !== undefined && typeof pattern[key] !== 'string');
+    if (badString) {
+      return `${badString} is not a string`;
+    }
+
+    if (pattern.commits !== undefined) {
+      const valid =
+        Array.isArray(pattern.commits) &&
+        pattern.commits.every(
+          (ref: any) =>
+            ref &&
+            typeof ref.sha === 'string' &&
+            SHA.test(ref.sha) &&
+            typeof ref.file === 'string' &&
+            Number.isFinite(ref.line)
+        );
+      if (!valid) {
+        return 'malformed commits';
+      }
+    }
+
+    if (pattern.ast !== undefined) {
+      const ast = pattern.ast;
+      const valid =
+        ast &&
+        typeof ast === 'object' &&
+        AST_KINDS.has(ast.kind) &&
+        ['object', 'property', 'callee', 'bound'].every((key) => ast[key] === undefined || typeof ast[key] === 'string');
+      if (!valid) {
+        return 'malformed ast';
+      }
+    }
+
+    if (pattern.template !== undefined) {
+      const template = pattern.template;
+      const valid =
+        template &&
+        typeof template.source === 'string' &&
+        Array.isArray(template.instances) &&
+        template.instances.every(
+          (instance: any) =>
+            instance &&
+            typeof instance.regex === 'string' &&
+            Array.isArray(instance.commits) &&
+            instance.commits.every((sha: unknown) => typeof sha === 'string' && SHA.test(sha)) &&
+            ['buggyExample', 'fixedExample'].every((key) => instance[key] === undefined || typeof instance[key] === 'string')
+        );
+      if (!valid) {
+        return 'malformed template';
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * A pack's commit reference with only the fields CodeGhost renders, in the
+   * expected shape: links must be http(s), SHAs must be hex
+   */
+  private static sanitizeCommit(ref: any): CommitReference {
+    const shas = (values: unknown) =>
+      Array.isArray(values) ? values.filter((sha): sha is string => typeof sha === 'string' && SHA.test(sha)) : undefined;
+    const url = (value: unknown) => (typeof value === 'string' && WEB_URL.test(value) ? value : undefined);
+    const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+    const sanitized: CommitReference = {
+      sha: ref.sha,
+      file: ref.file,
+      historical_file: text(ref.historical_file),
+      line: Math.round(ref.line),
+      message: text(ref.message) ?? '',
+      reverts: typeof ref.reverts === 'string' && SHA.test(ref.reverts) ? ref.reverts : undefined,
+      fix_chain: shas(ref.fix_chain),
+    };
+
+    const links = ref.links;
+    if (links && typeof links === 'object') {
+      const list = (values: unknown) => (Array.isArray(values) ? values.filter((v) => v && typeof v === 'object') : []);
+      const sanitizedLinks: CommitLinks = {
+        commit_url: url(links.commit_url),
+        issues: list(links.issues)
+          .filter((issue: any) => Number.isInteger(issue.number))
+          .map((issue: any) => ({ repo: text(issue.repo), number: issue.number, keyword: text(issue.keyword), url: url(issue.url) })),
+        jira: list(links.jira)
+          .filter((jira: any) => typeof jira.key === 'string')
+          .map((jira: any) => ({ key: jira.key, url: url(jira.url) })),
+        co_authors: list(links.co_authors)
+          .filter((author: any) => typeof author.name === 'string')
+          .map((author: any) => ({ name: author.name, email: text(author.email) })),
+      };
+      const pr = links.pull_request;
+      if (pr && typeof pr === 'object' && Number.isInteger(pr.number)) {
+        sanitizedLinks.pull_request = {
+          number: pr.number,
+          title: text(pr.title),
+          labels: Array.isArray(pr.labels) ? pr.labels.filter((label: unknown) => typeof label === 'string') : [],
+          url: url(pr.url),
+        };
+      }
+      sanitized.links = sanitizedLinks;
+    }
+
+    // Undefined fields would otherwise be written out as keys
+    return JSON.parse(JSON.stringify(sanitized));
+  }
+
+  /**
+   * `sha256:<hex>` of the pack without its checksum, over JSON with sorted
+   * keys so reformatting the file doesn't change it
+   */
+  static checksum(pack: PatternPack): string {
+    const { checksum, ...content } = pack;
+    const hash = crypto.createHash('sha256').update(PatternPacks.canonicalJson(content)).digest('hex');
+    return `sha256:${hash}`;
+  }
+
+  /**
+   * Remove code examples and what was derived from commit messages
+   */
+  static redact(pattern: BugPattern): BugPattern {
+    delete pattern.buggyExample;
+    delete pattern.fixedExample;
+    for (const instance of pattern.template?.instances || []) {
+      delete instance.buggyExample;
+      delete instance.fixedExample;
+    }
+    pattern.commits = pattern.commits.map((ref) => {
+      const { links, classification, ...rest } = ref;
+      return { ...rest, message: '' };
+    });
+    return pattern;
+  }
+
+  /**
+   * Oldest and newest commit the patterns were learned from
+   */
+  static async commitRange(
+    workspacePath: string,
+    patterns: BugPattern[],
+    lastScannedSha?: string
+  ): Promise<{ from?: string; to?: string }> {
+    const shas = [...new Set(patterns.flatMap((pattern) => pattern.commits.map((ref) => ref.sha)))];
+    if (shas.length === 0) {
+      return { to: lastScannedSha };
+    }
+
+    try {
+      // Newest first; commits from another repository (imported patterns) are not found
+      const output = await runGit(workspacePath, ['rev-list', '--no-walk=sorted', '--ignore-missing', '--stdin'], {
+        stdin: shas.join('\n') + '\n',
+      });
+      const sorted = output.split('\n').filter((line) => line.length > 0);
+      return { from: sorted[sorted.length - 1], to: lastScannedSha ?? sorted[0] };
+    } catch (error) {
+      console.log(`[CodeGhost] Could not order the pack's commits: ${error}`);
+      return { to: lastScannedSha };
+    }
+  }
+
+  /**
+   * A remote URL without the user name and password it may carry
+   */
+  static publicRepoUrl(remoteUrl: string): string {
+    return remoteUrl.replace(/^(\w[\w+.-]*:\/\/)[^/@]*@/, '$1');
+  }
+
+  private static canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => PatternPacks.canonicalJson(item ?? null)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.keys(value)
+        .filter((key) => (value as any)[key] !== undefined)
+        .sort()
+        .map((key) => `${JSON.stringify(key)}:${PatternPacks.canonicalJson((value as any)[key])}`);
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+  }
+}
@@ -5,13 +5,48 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { BugMemory, BugPattern } from '../types';
+import { BugMemory, BugPattern, CommitReference, PackConflictStrategy, PatternOrigin } from '../types';
+import { PathHistory } from './pathHistory';
+import { CompiledPattern, PatternCompiler } from './patternCompiler';
+import { PatternGeneralizer } from './patternGeneralizer';
+import { patternId } from './patternIdentity';
+
+/** Schema version of bug_memory.json written by this build */
+export const BUG_MEMORY_VERSION = 2;
 
 export class PatternStore {
   private storePath: string;
   private memory: BugMemory;
+  private compiler = new PatternCompiler();
+  /** Set when the file was written by a newer CodeGhost or can't be loaded; it is never overwritten */
+  private readOnly = false;
+  private loadFailure: string | undefined;
+
+  /**
+   * Upgrades from each schema version to the next, applied in order on
+   * load. A change existing files must be rewritten for (a renamed field,
+   * a new id scheme) needs a step here and a bump of BUG_MEMORY_VERSION;
+   * fields this build doesn't know are kept as they are.
+   */
+  private readonly migrations: Record<number, (memory: BugMemory) => void> = {
+    // 1 → 2: ids derived from the pattern instead of time and randomness;
+    // patterns that turn out to be the same are merged
+    1: (memory) => {
+      const patterns = memory.patterns;
+      memory.patterns = [];
+      for (const pattern of patterns) {
+        pattern.id = patternId(pattern);
+        const existing = memory.patterns.find((p) => p.id === pattern.id);
+        if (existing) {
+          this.merge(existing, pattern);
+        } else {
+          memory.patterns.push(pattern);
+        }
+      }
+    },
+  };
 
-  constructor(workspacePath: string) {
+  constructor(private workspacePath: string) {
     const codeghostDir = path.join(workspacePath, '.codeghost');
     
     // Create .codeghost directory if it doesn't exist
@@ -21,33 +56,83 @@ export class PatternStore {
 
     this.storePath = path.join(codeghostDir, 'bug_memory.json');
     this.memory = this.load();
+    this.quarantine();
   }
 
   /**
-   * Load bug memory from disk
+   * Load bug memory from disk, migrating older schema versions. A file that
+   * can't be read, parsed or migrated is left alone: the store starts empty
+   * and read-only, so nothing is saved over it.
    */
   private load(): BugMemory {
     try {
       if (fs.existsSync(this.storePath)) {
         const data = fs.readFileSync(this.storePath, 'utf-8');
-        return JSON.parse(data);
+        return this.migrate(JSON.parse(data), data);
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('Failed to load bug memory:', error);
+      this.readOnly = true;
+      this.loadFailure = error.message;
     }
 
-    // Return empty memory if file doesn't exist or is corrupted
     return {
-      version: 1,
+      version: BUG_MEMORY_VERSION,
       generated_at: new Date().toISOString(),
       patterns: [],
     };
   }
 
+  /**
+   * Bring a loaded memory up to BUG_MEMORY_VERSION. The original file is
+   * kept as `bug_memory.v<N>.backup.json` before the upgraded one is saved.
+   */
+  private migrate(memory: BugMemory, original: string): BugMemory {
+    const from = memory.version ?? 1;
+    memory.patterns = memory.patterns || [];
+
+    if (from > BUG_MEMORY_VERSION) {
+      console.log(
+        `[CodeGhost] bug_memory.json has schema version ${from}, newer than ${BUG_MEMORY_VERSION}; ` +
+          'loading it read-only'
+      );
+      this.readOnly = true;
+      return memory;
+    }
+    if (from === BUG_MEMORY_VERSION) {
+      return memory;
+    }
+
+    const backupPath = path.join(path.dirname(this.storePath), `bug_memory.v${from}.backup.json`);
+    try {
+      fs.writeFileSync(backupPath, original, 'utf-8');
+    } catch (error: any) {
+      throw new Error(`Failed to back up bug memory before migrating: ${error.message}`);
+    }
+
+    for (let version = from; version < BUG_MEMORY_VERSION; version++) {
+      this.migrations[version](memory);
+      memory.version = version + 1;
+    }
+    console.log(`[CodeGhost] Migrated bug_memory.json from version ${from} to ${BUG_MEMORY_VERSION} (backup: ${backupPath})`);
+
+    this.memory = memory;
+    this.save();
+    return memory;
+  }
+
   /**
    * Save bug memory to disk
    */
   save(): void {
+    if (this.readOnly) {
+      console.log(
+        this.loadFailure
+          ? `[CodeGhost] Not saving bug memory: the file on disk could not be loaded (${this.loadFailure})`
+          : '[CodeGhost] Not saving bug memory: it was written by a newer version of CodeGhost'
+      );
+      return;
+    }
     try {
       this.memory.generated_at = new Date().toISOString();
       const data = JSON.stringify(this.memory, null, 2);
@@ -58,6 +143,21 @@ export class PatternStore {
     }
   }
 
+  /**
+   * Whether the file on disk won't be saved: it is from a newer CodeGhost,
+   * or it could not be loaded (see `loadError`)
+   */
+  get isReadOnly(): boolean {
+    return this.readOnly;
+  }
+
+  /**
+   * Why the file on disk could not be read, parsed or migrated
+   */
+  get loadError(): string | undefined {
+    return this.loadFailure;
+  }
+
   /**
    * Get all patterns
    */
@@ -73,50 +173,264 @@ export class PatternStore {
   }
 
   /**
-   * Get patterns filtered by language
+   * Get patterns filtered by language, leaving out quarantined ones
    */
   getPatternsByLanguage(language: string): BugPattern[] {
     const filtered = this.memory.patterns.filter(
-      (p) => p.language === language || p.language === 'unknown'
+      (p) => (p.language === language || p.language === 'unknown') && !p.quarantined
     );
     
     return filtered;
   }
 
   /**
-   * Add new patterns
+   * Add new patterns. Stored patterns a new template generalizes are
+   * retired into it, so the same line isn't flagged twice.
    */
   addPatterns(patterns: BugPattern[]): void {
     for (const newPattern of patterns) {
-      // Check if similar pattern already exists
-      const existingIndex = this.memory.patterns.findIndex(
-        (p) => p.regex === newPattern.regex && p.category === newPattern.category
-      );
+      if (newPattern.template) {
+        this.retireAbsorbed(newPattern);
+      }
 
-      if (existingIndex >= 0) {
-        // Merge with existing pattern
-        const existing = this.memory.patterns[existingIndex];
-        existing.occurrence_count += newPattern.occurrence_count;
-        existing.commits.push(...newPattern.commits);
-        
-        // Update risk base (weighted average)
-        existing.risk_base = Math.round(
-          (existing.risk_base + newPattern.risk_base) / 2
-        );
+      // Ids are derived from the pattern, so the same pattern has the same id
+      const existing = this.memory.patterns.find((p) => p.id === newPattern.id);
+
+      if (existing) {
+        this.merge(existing, newPattern);
       } else {
         // Add new pattern
         this.memory.patterns.push(newPattern);
       }
     }
 
+    this.quarantine();
     this.save();
   }
 
   /**
-   * Update last scanned commit SHA
+   * Drop the learned patterns a template covers: concrete patterns among its
+   * instances and narrower templates whose instances it all has. Their
+   * commit references move to the template, and their ids (with the ones
+   * they superseded) go to its `supersedes`.
+   */
+  private retireAbsorbed(template: BugPattern): void {
+    const instances = new Set(template.template!.instances.map((instance) => PatternGeneralizer.instanceKey(instance)));
+    const knownRefs = new Set(template.commits.map((c) => this.commitRefKey(c)));
+
+    this.memory.patterns = this.memory.patterns.filter((stored) => {
+      if (
+        stored.id === template.id ||
+        stored.origin ||
+        stored.language !== template.language ||
+        stored.category !== template.category ||
+        (stored.enclosing ?? '') !== (template.enclosing ?? '')
+      ) {
+        return true;
+      }
+      const absorbed = stored.template
+        ? stored.template.instances.every((instance) => instances.has(PatternGeneralizer.instanceKey(instance)))
+        : instances.has(PatternGeneralizer.instanceKey(stored));
+      if (!absorbed) {
+        return true;
+      }
+
+      const freshRefs = stored.commits.filter((c) => !knownRefs.has(this.commitRefKey(c)));
+      freshRefs.forEach((c) => knownRefs.add(this.commitRefKey(c)));
+      template.commits.push(...freshRefs);
+      template.occurrence_count += freshRefs.length;
+      this.addSuperseded(template, [stored.id, ...(stored.supersedes || [])]);
+      console.log(`[CodeGhost] Retired pattern ${stored.id}: generalized by template ${template.template!.source}`);
+      return false;
+    });
+  }
+
+  private addSuperseded(pattern: BugPattern, ids: string[]): void {
+    const fresh = ids.filter((id) => id !== pattern.id && !pattern.supersedes?.includes(id));
+    if (fresh.length > 0) {
+      pattern.supersedes = [...(pattern.supersedes || []), ...fresh];
+    }
+  }
+
+  /**
+   * Ids of the retired patterns a stored one took over, so suppressions and
+   * feedback recorded against them still apply
+   */
+  supersededIds(patternId: string): string[] {
+    return this.memory.patterns.find((p) => p.id === patternId)?.supersedes || [];
+  }
+
+  /**
+   * Stored patterns a pack would change: same id, but a different risk or
+   * explanation
+   */
+  findConflicts(patterns: BugPattern[]): BugPattern[] {
+    return patterns.filter((pattern) => {
+      const existing = this.memory.patterns.find((p) => p.id === pattern.id);
+      return existing && (existing.risk_base !== pattern.risk_base || existing.reason !== pattern.reason);
+    });
+  }
+
+  /**
+   * Add patterns from a pattern pack. New ones are stored with their
+   * origin; ones already stored are merged like re-learned patterns, left
+   * alone (`keep`) or replaced by the pack's version (`replace`).
    */
-  updateLastScannedSha(sha: string): void {
+  importPatterns(
+    patterns: BugPattern[],
+    origin: PatternOrigin,
+    strategy: PackConflictStrategy
+  ): { added: number; merged: number; kept: number; replaced: number } {
+    const report = { added: 0, merged: 0, kept: 0, replaced: 0 };
+
+    for (const pattern of patterns) {
+      const index = this.memory.patterns.findIndex((p) => p.id === pattern.id);
+      if (index === -1) {
+        this.memory.patterns.push({ ...pattern, origin });
+        report.added++;
+      } else if (strategy === 'replace') {
+        this.memory.patterns[index] = { ...pattern, origin };
+        report.replaced++;
+      } else if (strategy === 'merge' && this.merge(this.memory.patterns[index], pattern)) {
+        report.merged++;
+      } else {
+        report.kept++;
+      }
+    }
+
+    this.quarantine();
+    this.save();
+    return report;
+  }
+
+  /**
+   * Merge a pattern into the stored one with the same id, skipping commit
+   * references we already know about so re-ingesting the same history
+   * doesn't inflate counts. Returns false when nothing was new.
+   */
+  private merge(existing: BugPattern, newPattern: BugPattern): boolean {
+    this.addSuperseded(existing, newPattern.supersedes || []);
+
+    const knownRefs = new Set(existing.commits.map((c) => this.commitRefKey(c)));
+    const freshRefs = newPattern.commits.filter((c) => !knownRefs.has(this.commitRefKey(c)));
+
+    if (freshRefs.length === 0) {
+      return false;
+    }
+
+    // Risk base averaged over occurrences, so one new fix doesn't outweigh
+    // the history; a demoted pattern stays demoted
+    const previousCount = existing.occurrence_count;
+    existing.risk_base =
+      newPattern.validation?.status === 'demoted'
+        ? newPattern.risk_base
+        : Math.round(
+            (existing.risk_base * previousCount + newPattern.risk_base * freshRefs.length) /
+              (previousCount + freshRefs.length)
+          );
+
+    existing.occurrence_count += freshRefs.length;
+    existing.commits.push(...freshRefs);
+    // A re-learned template may have gained instances
+    if (newPattern.template) {
+      existing.template = newPattern.template;
+    }
+
+    // The latest validation reflects the current HEAD
+    if (newPattern.validation) {
+      existing.validation = newPattern.validation;
+    }
+    return true;
+  }
+
+  /**
+   * Compiled regexes of a pattern, cached until its sources change
+   */
+  compile(pattern: BugPattern): CompiledPattern {
+    return this.compiler.compile(pattern);
+  }
+
+  /**
+   * Compile every pattern and mark the ones whose regex is invalid or
+   * unsafe (e.g. after a hand edit of bug_memory.json) as quarantined
+   */
+  private quarantine(): void {
+    this.compiler.retain(this.memory.patterns);
+    for (const pattern of this.memory.patterns) {
+      const { problem } = this.compiler.compile(pattern);
+      if (problem && pattern.quarantined !== problem) {
+        console.log(`[CodeGhost] Quarantined ${pattern.category} pattern /${pattern.regex}/: ${problem}`);
+      }
+      if (problem) {
+        pattern.quarantined = problem;
+      } else {
+        delete pattern.quarantined;
+      }
+    }
+  }
+
+  /**
+   * Forget everything learned from the given commits (e.g. fixes that were
+   * reverted later); patterns left without references are dropped
+   */
+  removeCommits(shas: string[]): number {
+    if (shas.length === 0) {
+      return 0;
+    }
+
+    const matches = (sha: string) => shas.some((removed) => sha.startsWith(removed));
+    let removed = 0;
+
+    this.memory.patterns = this.memory.patterns.filter((pattern) => {
+      const kept = pattern.commits.filter((ref) => !matches(ref.sha));
+      const dropped = pattern.commits.length - kept.length;
+      removed += dropped;
+      pattern.occurrence_count = Math.max(0, pattern.occurrence_count - dropped);
+      pattern.commits = kept;
+      // Imported patterns may carry no references at all; keep those
+      return kept.length > 0 || dropped === 0;
+    });
+
+    if (removed > 0) {
+      this.save();
+    }
+    return removed;
+  }
+
+  /**
+   * Identity of a commit reference, used to de-duplicate merges
+   */
+  private commitRefKey(ref: CommitReference): string {
+    return `${ref.sha}:${ref.historical_file ?? ref.file}:${ref.line}`;
+  }
+
+  /**
+   * Move stored commit references to the current paths of their files
+   * after new renames were ingested
+   */
+  applyPathHistory(pathHistory: PathHistory): void {
+    if (pathHistory.size === 0) {
+      return;
+    }
+    pathHistory.remapPatterns(this.memory.patterns);
+    this.save();
+  }
+
+  /**
+   * Convert an absolute file path to the repo-relative, forward-slash form
+   * used by commit references
+   */
+  toRelativePath(filePath: string): string {
+    return path.relative(this.workspacePath, filePath).split(path.sep).join('/');
+  }
+
+  /**
+   * Update last scanned commit SHA, and the branch tips the scan started
+   * from when it read more than one branch
+   */
+  updateLastScannedSha(sha: string, tips: string[] = []): void {
     this.memory.last_scanned_sha = sha;
+    this.memory.scanned_tips = tips.length > 1 ? tips : undefined;
     this.save();
   }
 
@@ -127,6 +441,10 @@ export class PatternStore {
     return this.memory.last_scanned_sha;
   }
 
+  getScannedTips(): string[] {
+    return this.memory.scanned_tips || [];
+  }
+
   /**
    * Get statistics
    */
@@ -134,6 +452,7 @@ export class PatternStore {
     totalPatterns: number;
     totalOccurrences: number;
     categoryCounts: Record<string, number>;
+    quarantined: number;
     lastUpdated: string;
   } {
     const categoryCounts: Record<string, number> = {};
@@ -148,16 +467,20 @@ export class PatternStore {
       totalPatterns: this.memory.patterns.length,
       totalOccurrences,
       categoryCounts,
+      quarantined: this.memory.patterns.filter((pattern) => pattern.quarantined).length,
       lastUpdated: this.memory.generated_at,
     };
   }
 
   /**
-   * Clear all patterns
+   * Forget everything learned from this repository's history before a full
+   * rebuild. Patterns imported from packs stay: re-importing them would be
+   * up to the user, and the rebuild can't count their references twice.
    */
   clear(): void {
-    this.memory.patterns = [];
+    this.memory.patterns = this.memory.patterns.filter((pattern) => pattern.origin);
     this.memory.last_scanned_sha = undefined;
+    this.memory.scanned_tips = undefined;
     this.save();
   }
 }
@@ -0,0 +1,185 @@
+/**
+ * Pattern Validator Module
+ * Checks extracted patterns against their own examples and the HEAD tree
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BugPattern, PatternValidation } from '../types';
+import { AstPatternMatcher } from './astPatterns';
+import { FileExclusions } from './fileExclusions';
+import { runGit } from './gitProcess';
+import { PatternCompiler } from './patternCompiler';
+import { PatternExtractor } from './patternExtractor';
+import { CodeScanner } from './scanner';
+
+export const DEFAULT_MAX_HIT_RATE = 0.01;
+
+// Generated bundles and data files would skew the hit rate
+const MAX_HEAD_FILE_BYTES = 512 * 1024;
+
+export interface HeadFile {
+  path: string;
+  language: string;
+  lines: string[];
+}
+
+export class PatternValidator {
+  private astMatcher = new AstPatternMatcher();
+  private compiler = new PatternCompiler();
+
+  /**
+   * @param maxHitRate Share of HEAD lines (in the pattern's language) a
+   *   pattern may match before it is demoted
+   */
+  constructor(private maxHitRate: number = DEFAULT_MAX_HIT_RATE) {}
+
+  /**
+   * Files tracked at HEAD in a language CodeGhost knows, read from the
+   * working tree and leaving out excluded files; undefined when the
+   * workspace isn't a Git repository
+   */
+  static async readHead(workspacePath: string, exclusions?: FileExclusions): Promise<HeadFile[] | undefined> {
+    let output: string;
+    try {
+      output = await runGit(workspacePath, ['ls-files', '-z']);
+    } catch (error: any) {
+      console.log(`[CodeGhost] Skipping HEAD validation: ${error.message}`);
+      return undefined;
+    }
+
+    const files: HeadFile[] = [];
+    for (const file of output.split('\0').filter((name) => name.length > 0)) {
+      const language = PatternExtractor.detectLanguage(file);
+      if (language === 'unknown') {
+        continue;
+      }
+      try {
+        const fullPath = path.join(workspacePath, file);
+        if (fs.statSync(fullPath).size > MAX_HEAD_FILE_BYTES) {
+          continue;
+        }
+        const content = fs.readFileSync(fullPath, 'utf-8');
+        if (!exclusions?.check(file, content)) {
+          files.push({ path: file, language, lines: content.split('\n') });
+        }
+      } catch {
+        // Deleted in the working tree, or a submodule
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Record validation metrics on each pattern. Patterns whose regex is
+   * invalid or unsafe, that don't match their buggy example, or that match
+   * their fixed example, are dropped; patterns matching more than
+   * `maxHitRate` of HEAD are demoted.
+   */
+  validate(patterns: BugPattern[], head?: HeadFile[]): { patterns: BugPattern[]; dropped: BugPattern[] } {
+    const dropped: BugPattern[] = patterns.filter((pattern) => {
+      const { problem } = this.compiler.compile(pattern);
+      if (problem) {
+        console.log(`[CodeGhost] Dropped ${pattern.category} pattern /${pattern.regex}/: ${problem}`);
+      }
+      return problem !== undefined;
+    });
+    patterns = patterns.filter((pattern) => !dropped.includes(pattern));
+
+    const hits = head ? this.countHeadHits(patterns, head) : new Map<BugPattern, number>();
+    const kept: BugPattern[] = [];
+
+    for (const pattern of patterns) {
+      const headLines = (head || [])
+        .filter((file) => file.language === pattern.language)
+        .reduce((sum, file) => sum + file.lines.length, 0);
+      const validation: PatternValidation = {
+        ...this.checkExamples(pattern),
+        head_hits: hits.get(pattern) ?? 0,
+        head_lines: headLines,
+        hit_rate: headLines > 0 ? (hits.get(pattern) ?? 0) / headLines : 0,
+        status: 'ok',
+        validated_at: new Date().toISOString(),
+      };
+      pattern.validation = validation;
+
+      if (validation.matches_buggy === false || validation.matches_fixed) {
+        const problem = validation.matches_fixed ? 'matches its fixed example' : "doesn't match its buggy example";
+        console.log(`[CodeGhost] Dropped ${pattern.category} pattern /${pattern.regex}/: it ${problem}`);
+        dropped.push(pattern);
+        continue;
+      }
+
+      if (validation.hit_rate > this.maxHitRate) {
+        console.log(
+          `[CodeGhost] Demoted ${pattern.category} pattern /${pattern.regex}/: ` +
+            `matches ${validation.head_hits} of ${headLines} lines at HEAD`
+        );
+        validation.status = 'demoted';
+        validation.original_risk_base = pattern.risk_base;
+        pattern.risk_base = 1;
+      }
+      kept.push(pattern);
+    }
+
+    return { patterns: kept, dropped };
+  }
+
+  /**
+   * Test a regex pattern against its examples; lines of the fixed example
+   * that repeat the buggy line (context kept by insertion fixes) don't count
+   */
+  private checkExamples(pattern: BugPattern): Pick<PatternValidation, 'matches_buggy' | 'matches_fixed'> {
+    if (pattern.ast) {
+      return {};
+    }
+
+    const regex = this.compiler.compile(pattern).regex!;
+
+    const buggyLines = (pattern.buggyExample || '').split('\n').map((line) => line.trim());
+    const fixedLines = (pattern.fixedExample || '')
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0 && !buggyLines.includes(line));
+
+    return {
+      matches_buggy: pattern.buggyExample === undefined ? undefined : buggyLines.some((line) => regex.test(line)),
+      matches_fixed: fixedLines.some((line) => regex.test(line)),
+    };
+  }
+
+  /**
+   * Count the HEAD lines each pattern matches, the way the scanner would
+   */
+  private countHeadHits(patterns: BugPattern[], head: HeadFile[]): Map<BugPattern, number> {
+    const hits = new Map<BugPattern, number>();
+    const add = (pattern: BugPattern, count: number) => hits.set(pattern, (hits.get(pattern) ?? 0) + count);
+
+    for (const file of head) {
+      const filePatterns = patterns.filter((pattern) => pattern.language === file.language);
+
+      for (const pattern of filePatterns.filter((p) => !p.ast)) {
+        const { regex, enclosing } = this.compiler.compile(pattern);
+        add(
+          pattern,
+          file.lines.filter(
+            (line, i) => regex!.test(line) && (!enclosing || CodeScanner.isEnclosedBy(file.lines, i, enclosing))
+          ).length
+        );
+      }
+
+      const structural = filePatterns.filter((p) => p.ast);
+      if (structural.length > 0) {
+        try {
+          for (const match of this.astMatcher.match(file.lines.join('\n'), file.path, file.language, structural)) {
+            add(match.pattern, 1);
+          }
+        } catch (error) {
+          console.error(`[CodeGhost] Structural matching failed for ${file.path}`, error);
+        }
+      }
+    }
+
+    return hits;
+  }
+}
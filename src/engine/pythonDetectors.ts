@@ -0,0 +1,162 @@
+/**
+ * Python Detectors Module
+ * Learns patterns from Python fixes, in place of the JS-shaped built-ins
+ */
+
+import { DetectorResult } from './detectorPlugins';
+import { CodeScanner } from './scanner';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** A coroutine function around the match; `await` is a syntax error anywhere else */
+const ENCLOSING_ASYNC_DEF = String.raw`^\s*async\s+def\b`;
+
+export class PythonDetectors {
+  /**
+   * Run the Python detectors on a removed line and the line that replaced it
+   * @param scope Lines above the removed line before the fix, ending with it
+   */
+  detect(buggyLine: string, fixedLine: string, scope: string[] = []): DetectorResult | null {
+    const detectors = [
+      this.detectMutableDefault,
+      this.detectBareExcept,
+      this.detectUnmanagedOpen,
+      this.detectMissingAwait,
+      this.detectKeyError,
+      this.detectNoneCheck,
+    ];
+
+    for (const detector of detectors) {
+      const result = detector.call(this, buggyLine, fixedLine, scope);
+      if (result) {
+        return result;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * `def f(items=[])` changed to `def f(items=None)`
+   */
+  private detectMutableDefault(buggyLine: string, fixedLine: string): DetectorResult | null {
+    const mutableDefault = /=\s*(?:\[\s*\]|\{\s*\}|(?:list|dict|set)\(\s*\))/;
+    if (
+      /^(?:async\s+)?def\s/.test(buggyLine) &&
+      mutableDefault.test(buggyLine) &&
+      !mutableDefault.test(fixedLine) &&
+      /=\s*None\b/.test(fixedLine)
+    ) {
+      return {
+        regex: String.raw`\bdef\s+\w+\s*\([^)]*=\s*(?:\[\s*\]|\{\s*\}|(?:list|dict|set)\(\s*\))`,
+        category: 'logic_error',
+        riskBase: 7,
+        reason: 'Mutable default argument is shared between calls',
+      };
+    }
+    return null;
+  }
+
+  /**
+   * `except:` narrowed to `except ValueError:`
+   */
+  private detectBareExcept(buggyLine: string, fixedLine: string): DetectorResult | null {
+    if (/^except\s*:/.test(buggyLine) && /^except\s+[\w.(]/.test(fixedLine)) {
+      return {
+        regex: String.raw`^\s*except\s*:`,
+        category: 'missing_error_handling',
+        riskBase: 6,
+        reason: 'Bare except also swallows KeyboardInterrupt, SystemExit and unrelated bugs',
+      };
+    }
+    return null;
+  }
+
+  /**
+   * `f = open(path)` moved into `with open(path) as f:`
+   */
+  private detectUnmanagedOpen(buggyLine: string, fixedLine: string): DetectorResult | null {
+    if (
+      /^[\w.]+\s*=\s*open\s*\(/.test(buggyLine) &&
+      /^(?:async\s+)?with\b/.test(fixedLine) &&
+      /(?<![\w.])open\s*\(/.test(fixedLine)
+    ) {
+      return {
+        // The file object kept in a variable, which a with block would close
+        regex: String.raw`^\s*[\w.]+\s*=\s*open\s*\(`,
+        category: 'memory_leak',
+        riskBase: 5,
+        reason: 'File opened outside a with block may never be closed',
+      };
+    }
+    return null;
+  }
+
+  /**
+   * `client.fetch(url)` changed to `await client.fetch(url)` in an `async def`
+   */
+  private detectMissingAwait(buggyLine: string, fixedLine: string, scope: string[]): DetectorResult | null {
+    const awaited = fixedLine.match(/\bawait\s+([\w.]+)\s*\(/);
+    if (!awaited || /\bawait\b/.test(buggyLine)) {
+      return null;
+    }
+    // The same call in a plain function is fine (and can't be awaited)
+    if (scope.length === 0 || !CodeScanner.isEnclosedBy(scope, scope.length - 1, new RegExp(ENCLOSING_ASYNC_DEF))) {
+      return null;
+    }
+
+    const callee = escapeRegExp(awaited[1]);
+    if (!new RegExp(String.raw`(?<![\w.])${callee}\s*\(`).test(buggyLine)) {
+      return null;
+    }
+    return {
+      regex: String.raw`(?<!\bawait\s+)(?<!\bdef\s+)(?<![\w.])${callee}\s*\(`,
+      category: 'missing_await',
+      riskBase: 7,
+      reason: `Coroutine ${awaited[1]}() called without await never runs`,
+      enclosing: ENCLOSING_ASYNC_DEF,
+    };
+  }
+
+  /**
+   * `config["key"]` changed to `config.get("key")`
+   */
+  private detectKeyError(buggyLine: string, fixedLine: string): DetectorResult | null {
+    const subscript = buggyLine.match(/\b(\w+)\[[^\]]+\]/);
+    if (!subscript || !new RegExp(String.raw`\b${subscript[1]}\.get\s*\(`).test(fixedLine)) {
+      return null;
+    }
+    return {
+      // Reads only: `config[key] = value` can't raise KeyError
+      regex: String.raw`\b${subscript[1]}\[[^\]]+\](?!\s*=[^=])`,
+      category: 'undefined_access',
+      riskBase: 6,
+      reason: `${subscript[1]}[...] raises KeyError when the key is missing`,
+    };
+  }
+
+  /**
+   * `user.profile` guarded with `is not None` (in a condition, a conditional
+   * expression or `user and user.profile`)
+   */
+  private detectNoneCheck(buggyLine: string, fixedLine: string): DetectorResult | null {
+    if (/\bis\s+(?:not\s+)?None\b/.test(buggyLine)) {
+      return null;
+    }
+
+    for (const access of buggyLine.matchAll(/\b(\w+)\.(\w+)\b/g)) {
+      const [, object, attribute] = access;
+      const guarded =
+        new RegExp(String.raw`\b${object}\s+is\s+(?:not\s+)?None\b`).test(fixedLine) ||
+        new RegExp(String.raw`\b${object}\s+and\s+${object}\.${attribute}\b`).test(fixedLine);
+      if (guarded) {
+        return {
+          regex: String.raw`(?<!\b${object}\s+and\s+)\b${object}\.${attribute}\b(?!.*\bif\s+${object}\s+is\s+not\s+None\b)`,
+          category: 'null_check_missing',
+          riskBase: 8,
+          reason: `${object} can be None here`,
+        };
+      }
+    }
+    return null;
+  }
+}
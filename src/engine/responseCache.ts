@@ -0,0 +1,125 @@
+/**
+ * Response Cache Module
+ * On-disk cache of API responses for conditional (ETag) requests, holding
+ * at most a fixed number of responses (least recently used go first)
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface CachedResponse<T = any> {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: string;
+  data: T;
+}
+
+/** Responses kept per workspace; commit diffs make up most of them */
+export const DEFAULT_MAX_CACHE_ENTRIES = 2000;
+
+export class ResponseCache {
+  /** Files in the cache, counted on the first write */
+  private entryCount: number | undefined;
+
+  constructor(
+    private cacheDir: string,
+    private maxEntries: number = DEFAULT_MAX_CACHE_ENTRIES
+  ) {}
+
+  /**
+   * Cache directory for a workspace (`.codeghost/cache/http`)
+   */
+  static forWorkspace(workspacePath: string): ResponseCache {
+    return new ResponseCache(path.join(workspacePath, '.codeghost', 'cache', 'http'));
+  }
+
+  /**
+   * Stable cache key for a request URL and its query parameters
+   */
+  static keyFor(url: string, params?: Record<string, any>): string {
+    const query = params
+      ? Object.keys(params)
+          .sort()
+          .map((key) => `${key}=${JSON.stringify(params[key])}`)
+          .join('&')
+      : '';
+    return crypto.createHash('sha1').update(`${url}?${query}`).digest('hex');
+  }
+
+  get<T>(key: string): CachedResponse<T> | undefined {
+    try {
+      const file = this.fileFor(key);
+      if (fs.existsSync(file)) {
+        const entry = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        // The modification time orders entries for eviction
+        const now = new Date();
+        fs.utimesSync(file, now, now);
+        return entry;
+      }
+    } catch (error) {
+      console.error('[CodeGhost] Failed to read cached response:', error);
+    }
+    return undefined;
+  }
+
+  set<T>(key: string, entry: CachedResponse<T>): void {
+    try {
+      const file = this.fileFor(key);
+      if (!fs.existsSync(this.cacheDir)) {
+        fs.mkdirSync(this.cacheDir, { recursive: true });
+        // Keep cached API responses out of commits of a shared .codeghost folder
+        fs.writeFileSync(path.join(this.cacheDir, '.gitignore'), '*\n', 'utf-8');
+      }
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      this.entryCount ??= this.listEntries().length;
+      if (!fs.existsSync(file)) {
+        this.entryCount++;
+      }
+      fs.writeFileSync(file, JSON.stringify(entry), 'utf-8');
+
+      if (this.entryCount > this.maxEntries) {
+        this.evict();
+      }
+    } catch (error) {
+      // A cache write failure only costs us a request next time
+      console.error('[CodeGhost] Failed to write cached response:', error);
+    }
+  }
+
+  /**
+   * Delete the least recently used responses, down to 90% of the limit so
+   * the next writes don't each trigger another pass
+   */
+  private evict(): void {
+    const entries = this.listEntries()
+      .map((file) => ({ file, used: fs.statSync(file).mtimeMs }))
+      .sort((a, b) => a.used - b.used);
+    const target = Math.floor(this.maxEntries * 0.9);
+    const stale = entries.slice(0, Math.max(0, entries.length - target));
+
+    for (const { file } of stale) {
+      fs.rmSync(file, { force: true });
+    }
+    this.entryCount = entries.length - stale.length;
+    console.log(`[CodeGhost] Evicted ${stale.length} cached response(s) over the limit of ${this.maxEntries}`);
+  }
+
+  private listEntries(): string[] {
+    return fs
+      .readdirSync(this.cacheDir, { withFileTypes: true })
+      .filter((dir) => dir.isDirectory())
+      .flatMap((dir) =>
+        fs
+          .readdirSync(path.join(this.cacheDir, dir.name))
+          .filter((name) => name.endsWith('.json'))
+          .map((name) => path.join(this.cacheDir, dir.name, name))
+      );
+  }
+
+  private fileFor(key: string): string {
+    // Fan out into subdirectories so large histories don't flood one folder
+    return path.join(this.cacheDir, key.substring(0, 2), `${key}.json`);
+  }
+}
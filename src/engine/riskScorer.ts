@@ -4,9 +4,12 @@
  */
 
 import { BugPattern } from '../types';
+import { FeedbackStore, PRIOR_PRECISION } from './feedback';
 import { PatternStore } from './patternStore';
 
 export class RiskScorer {
+  constructor(private feedback?: FeedbackStore) {}
+
   /**
    * Calculate risk score for a matched pattern
    */
@@ -49,7 +52,23 @@ export class RiskScorer {
     
     const result = Math.max(1, Math.min(10, finalScore + variance));
     
-    return result;
+    return this.applyFeedback(pattern, result);
+  }
+
+  /**
+   * Scale a score by the pattern's estimated precision relative to the
+   * prior, so "Useful" votes raise it and false positives lower it; a
+   * pattern demoted by feedback scores 1
+   */
+  private applyFeedback(pattern: BugPattern, score: number): number {
+    const feedback = this.feedback?.get(pattern.id);
+    if (!feedback) {
+      return score;
+    }
+    if (feedback.demoted) {
+      return 1;
+    }
+    return Math.max(1, Math.min(10, Math.round(score * (feedback.precision / PRIOR_PRECISION))));
   }
 
   /**
@@ -59,13 +78,15 @@ export class RiskScorer {
     filePath: string,
     patternStore: PatternStore
   ): number {
-    const fileName = filePath.split(/[\\/]/).pop() || '';
+    // Commit references carry the file's current repo-relative path, so an
+    // exact match follows renames without leaking between same-named files
+    const relativePath = patternStore.toRelativePath(filePath);
     const patterns = patternStore.getPatterns();
 
     let fileOccurrences = 0;
     for (const pattern of patterns) {
       for (const commit of pattern.commits) {
-        if (commit.file.includes(fileName)) {
+        if (commit.file === relativePath) {
           fileOccurrences++;
         }
       }
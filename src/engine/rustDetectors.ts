@@ -0,0 +1,82 @@
+/**
+ * Rust Detectors Module
+ * Learns patterns from Rust fixes, in place of the JS-shaped built-ins
+ */
+
+import { DetectorResult } from './detectorPlugins';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class RustDetectors {
+  /**
+   * Run the Rust detectors on a removed line and the line that replaced it
+   */
+  detect(buggyLine: string, fixedLine: string): DetectorResult | null {
+    const detectors = [this.detectUnwrap, this.detectUncheckedIndex];
+
+    for (const detector of detectors) {
+      const result = detector.call(this, buggyLine, fixedLine);
+      if (result) {
+        return result;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * `.unwrap()` / `.expect(..)` replaced by `?`, a `match` / `if let`, or a
+   * fallback such as `.unwrap_or(..)`
+   */
+  private detectUnwrap(buggyLine: string, fixedLine: string): DetectorResult | null {
+    const unwrap = /\.\s*(?:unwrap|expect)\s*\(/;
+    if (!unwrap.test(buggyLine) || unwrap.test(fixedLine)) {
+      return null;
+    }
+    const handled =
+      /\)\s*\?/.test(fixedLine) ||
+      /^(?:let\s+\w+\s*=\s*)?match\b|\bif\s+let\b|\blet\s+.+\belse\s*\{/.test(fixedLine) ||
+      /\.\s*(?:unwrap_or\w*|ok_or\w*|map_err)\s*\(/.test(fixedLine);
+    if (!handled) {
+      return null;
+    }
+
+    // The call whose result was unwrapped, e.g. `File::open` or `.parse::<u32>`
+    const call = buggyLine.match(/([\w:]*\w)(?:::<[^>]*>)?\s*\([^()]*\)\s*\.\s*(?:unwrap|expect)\s*\(/);
+    if (call) {
+      const callee = escapeRegExp(call[1]);
+      return {
+        regex: String.raw`(?<![\w:])${callee}(?:::<[^>]*>)?\s*\([^()]*\)\s*\.\s*(?:unwrap|expect)\s*\(`,
+        category: 'missing_error_handling',
+        riskBase: 6,
+        reason: `${call[1]}() can fail; unwrap() panics instead of handling the error`,
+      };
+    }
+
+    const receiver = buggyLine.match(/\b(\w+)\s*\.\s*(?:unwrap|expect)\s*\(/);
+    if (receiver) {
+      return {
+        regex: String.raw`\b${receiver[1]}\s*\.\s*(?:unwrap|expect)\s*\(`,
+        category: 'missing_error_handling',
+        riskBase: 6,
+        reason: `${receiver[1]} can be None or Err; unwrap() panics`,
+      };
+    }
+    return null;
+  }
+
+  /**
+   * `items[i]` replaced by `items.get(i)`
+   */
+  private detectUncheckedIndex(buggyLine: string, fixedLine: string): DetectorResult | null {
+    const index = buggyLine.match(/\b(\w+)\[[^\]]+\]/);
+    if (!index || !new RegExp(String.raw`\b${index[1]}\s*\.\s*get(?:_mut)?\s*\(`).test(fixedLine)) {
+      return null;
+    }
+    return {
+      regex: String.raw`\b${index[1]}\[[^\]]+\]`,
+      category: 'undefined_access',
+      riskBase: 6,
+      reason: `Indexing ${index[1]} panics when the index is out of bounds`,
+    };
+  }
+}
@@ -3,19 +3,35 @@
  * Scans code as user types and matches against patterns
  */
 
-import { BugPattern, ScanResult } from '../types';
+import { BUG_CATEGORIES, BugPattern, ScanResult } from '../types';
+import { AstPatternMatcher } from './astPatterns';
+import { FeedbackStore } from './feedback';
+import { GlobalLibrary } from './globalLibrary';
 import { PatternStore } from './patternStore';
 import { RiskScorer } from './riskScorer';
+import { SuppressionStore } from './suppressions';
+
+// Where the search for an enclosing block ends
+const FUNCTION_OPENER = /\b(?:func|fn|def|function)\b|=>/;
 
 export class CodeScanner {
   private riskScorer: RiskScorer;
+  private astMatcher: AstPatternMatcher;
 
-  constructor(private patternStore: PatternStore) {
-    this.riskScorer = new RiskScorer();
+  constructor(
+    private patternStore: PatternStore,
+    private suppressions?: SuppressionStore,
+    feedback?: FeedbackStore,
+    private library?: GlobalLibrary
+  ) {
+    this.riskScorer = new RiskScorer(feedback);
+    this.astMatcher = new AstPatternMatcher();
   }
 
   /**
-   * Scan a single line of code
+   * Scan a single line of code against the regex patterns; structural (AST)
+   * patterns and patterns tied to an enclosing block need the whole file and
+   * are matched by `scanLines()`
    */
   scanLine(
     line: string,
@@ -24,7 +40,7 @@ export class CodeScanner {
     filePath: string
   ): ScanResult[] {
     const results: ScanResult[] = [];
-    const patterns = this.patternStore.getPatternsByLanguage(language);
+    const patterns = this.getPatternsByLanguage(language);
 
     // Only log on first line to avoid spam
     if (lineNumber === 0) {
@@ -32,29 +48,13 @@ export class CodeScanner {
     }
 
     for (const pattern of patterns) {
-      try {
-        const regex = new RegExp(pattern.regex, 'gi');
-        const matches = line.match(regex);
-
-        if (matches) {
-          const riskScore = this.riskScorer.calculateRiskScore(
-            pattern,
-            filePath,
-            this.patternStore
-          );
-
-          results.push({
-            lineNumber,
-            riskScore,
-            patternId: pattern.id,
-            commitShas: pattern.commits.map((c) => c.sha),
-            shortReason: this.generateReason(pattern),
-            category: pattern.category,
-          });
-        }
-      } catch (error) {
-        // Invalid regex pattern, skip it
-        console.error(`[CodeGhost Scanner] Invalid regex pattern: ${pattern.regex}`, error);
+      if (pattern.ast || pattern.enclosing) {
+        continue;
+      }
+
+      const { regex } = this.patternStore.compile(pattern);
+      if (regex?.test(line)) {
+        results.push(this.createResult(pattern, lineNumber, filePath));
       }
     }
 
@@ -62,7 +62,8 @@ export class CodeScanner {
   }
 
   /**
-   * Scan multiple lines (e.g., entire function or file)
+   * Scan multiple lines (e.g., entire function or file), leaving out
+   * suppressed patterns and matches silenced by `codeghost-ignore` comments
    */
   scanLines(
     lines: string[],
@@ -82,7 +83,91 @@ export class CodeScanner {
       results.push(...lineResults);
     }
 
-    return results;
+    const patterns = this.getPatternsByLanguage(language);
+    for (const pattern of patterns.filter((p) => p.enclosing && !p.ast)) {
+      const { regex, enclosing } = this.patternStore.compile(pattern);
+      if (!regex || !enclosing) {
+        continue;
+      }
+      lines.forEach((line, i) => {
+        if (regex.test(line) && CodeScanner.isEnclosedBy(lines, i, enclosing)) {
+          results.push(this.createResult(pattern, startLineNumber + i, filePath));
+        }
+      });
+    }
+
+    // One result per pattern and line, like the regex matches above
+    const structural = patterns.filter((p) => p.ast);
+    const seen = new Set<string>();
+    try {
+      for (const match of this.astMatcher.match(lines.join('\n'), filePath, language, structural)) {
+        const key = `${match.pattern.id}:${match.line}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          results.push(this.createResult(match.pattern, startLineNumber + match.line, filePath));
+        }
+      }
+    } catch (error) {
+      console.error('[CodeGhost Scanner] Structural matching failed', error);
+    }
+
+    const visible = results.filter((result) => !this.suppressions?.isSuppressed(result.patternId));
+    return SuppressionStore.applyDirectives(visible, lines, startLineNumber, BUG_CATEGORIES);
+  }
+
+  /**
+   * Whether a block around line `index` opens with a line matching
+   * `enclosing`. Blocks are found by indentation, and the search stops at the
+   * nearest function (a closure inside a loop is not in the loop's scope).
+   */
+  static isEnclosedBy(lines: string[], index: number, enclosing: RegExp): boolean {
+    const indentOf = (line: string) => line.length - line.trimStart().length;
+    let indent = indentOf(lines[index]);
+
+    for (let i = index - 1; i >= 0 && indent > 0; i--) {
+      const line = lines[i];
+      if (line.trim() === '' || indentOf(line) >= indent) {
+        continue;
+      }
+      if (enclosing.test(line)) {
+        return true;
+      }
+      if (FUNCTION_OPENER.test(line)) {
+        return false;
+      }
+      indent = indentOf(line);
+    }
+    return false;
+  }
+
+  /**
+   * The workspace's patterns, plus the global library's patterns it has no
+   * local evidence for
+   */
+  private getPatternsByLanguage(language: string): BugPattern[] {
+    const local = this.patternStore.getPatternsByLanguage(language);
+    if (!this.library) {
+      return local;
+    }
+    const known = new Set(this.patternStore.getPatterns().map((p) => p.id));
+    return [...local, ...this.library.getPatternsByLanguage(language, known)];
+  }
+
+  private createResult(pattern: BugPattern, lineNumber: number, filePath: string): ScanResult {
+    let riskScore = this.riskScorer.calculateRiskScore(pattern, filePath, this.patternStore);
+    if (pattern.learned_in && this.library) {
+      // Learned elsewhere: a hint, not evidence from this repository
+      riskScore = Math.max(1, Math.round(riskScore * this.library.weight));
+    }
+
+    return {
+      lineNumber,
+      riskScore,
+      patternId: pattern.id,
+      commitShas: pattern.commits.map((c) => c.sha),
+      shortReason: this.generateReason(pattern),
+      category: pattern.category,
+    };
   }
 
   /**
@@ -106,11 +191,21 @@ export class CodeScanner {
         'Type mismatch error',
       logic_error:
         'Logic error',
+      injection:
+        'Possible injection: untrusted input reaches a query, shell command or eval',
+      xss:
+        'Possible XSS: HTML written to the page without escaping',
+      path_traversal:
+        'Possible path traversal: a file path built from untrusted input',
+      unsafe_deserialization:
+        'Unsafe deserialization of untrusted data',
+      secret_exposure:
+        'Possible secret exposure: hard-coded or logged credential',
       other:
         'Suspicious pattern',
     };
 
-    const baseReason = baseTemplates[pattern.category] || baseTemplates.other;
+    const baseReason = pattern.reason || baseTemplates[pattern.category] || baseTemplates.other;
     
     // Add specific context from the pattern
     if (pattern.commits.length > 0) {
@@ -131,6 +226,6 @@ export class CodeScanner {
    * Get pattern details by ID
    */
   getPatternDetails(patternId: string): BugPattern | undefined {
-    return this.patternStore.getPatterns().find((p) => p.id === patternId);
+    return this.patternStore.getPatterns().find((p) => p.id === patternId) ?? this.library?.getPattern(patternId);
   }
 }
@@ -0,0 +1,197 @@
+/**
+ * Suppressions Module
+ * Workspace-wide pattern suppressions and `codeghost-ignore` comment
+ * directives
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BugCategory, BugPattern, ScanResult, Suppression, SuppressionFile } from '../types';
+import { gitIdentity } from './gitProcess';
+
+// `// codeghost-ignore-next-line null_check_missing checked by the caller`,
+// `# codeghost-ignore-file generated fixtures`, `/* codeghost-ignore-next-line */`
+const DIRECTIVE =
+  /(?:\/\/|#|--|\/\*|<!--)\s*codeghost-ignore-(next-line|file)\b(?:\s+(.*?))?\s*(?:\*\/|-->)?\s*$/;
+
+/**
+ * A `codeghost-ignore-*` comment; without a target it silences every pattern
+ */
+export interface IgnoreDirective {
+  scope: 'next-line' | 'file';
+  /** Line of the comment (0-based) */
+  line: number;
+  /** Pattern id or category */
+  target?: string;
+  reason?: string;
+}
+
+export class SuppressionStore {
+  private filePath: string;
+  private file: SuppressionFile;
+
+  /**
+   * @param supersededIds Ids of the retired patterns a pattern took over
+   *   (see `PatternStore.supersededIds`); their suppressions apply to it
+   */
+  constructor(
+    private workspacePath: string,
+    private supersededIds: (patternId: string) => string[] = () => []
+  ) {
+    this.filePath = path.join(workspacePath, '.codeghost', 'suppressions.json');
+    this.file = this.load();
+  }
+
+  private load(): SuppressionFile {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        return { version: parsed.version ?? 1, suppressions: parsed.suppressions || [] };
+      }
+    } catch (error) {
+      console.error('[CodeGhost] Failed to read .codeghost/suppressions.json:', error);
+    }
+    return { version: 1, suppressions: [] };
+  }
+
+  private save(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(this.file, null, 2), 'utf-8');
+    } catch (error: any) {
+      throw new Error(`Failed to save suppressions: ${error.message}`);
+    }
+  }
+
+  /**
+   * Suppressions in effect, newest first
+   */
+  getActive(): Suppression[] {
+    return this.file.suppressions.filter((s) => !s.lifted_at).reverse();
+  }
+
+  /**
+   * Suppressions lifted since, most recently lifted first
+   */
+  getLifted(): Suppression[] {
+    return this.file.suppressions
+      .filter((s) => s.lifted_at)
+      .sort((a, b) => b.lifted_at!.localeCompare(a.lifted_at!));
+  }
+
+  isSuppressed(patternId: string): boolean {
+    return this.activeFor(patternId).length > 0;
+  }
+
+  /**
+   * Active suppressions of a pattern, including ones recorded against the
+   * patterns it superseded
+   */
+  private activeFor(patternId: string): Suppression[] {
+    const ids = [patternId, ...this.supersededIds(patternId)];
+    return this.file.suppressions.filter((s) => ids.includes(s.pattern_id) && !s.lifted_at);
+  }
+
+  /**
+   * Suppress a pattern across the workspace
+   */
+  async suppress(pattern: BugPattern, reason: string): Promise<Suppression> {
+    const [existing] = this.activeFor(pattern.id);
+    if (existing) {
+      return existing;
+    }
+
+    const suppression: Suppression = {
+      pattern_id: pattern.id,
+      category: pattern.category,
+      regex: pattern.regex,
+      author: await gitIdentity(this.workspacePath),
+      created_at: new Date().toISOString(),
+      reason,
+    };
+    this.file.suppressions.push(suppression);
+    this.save();
+    return suppression;
+  }
+
+  /**
+   * Lift a pattern's suppression (and those of the patterns it superseded);
+   * the entry stays in the file with who lifted it and when
+   */
+  async lift(patternId: string): Promise<boolean> {
+    const active = this.activeFor(patternId);
+    if (active.length === 0) {
+      return false;
+    }
+
+    const author = await gitIdentity(this.workspacePath);
+    const now = new Date().toISOString();
+    for (const suppression of active) {
+      suppression.lifted_by = author;
+      suppression.lifted_at = now;
+    }
+    this.save();
+    return true;
+  }
+
+  /**
+   * Find the `codeghost-ignore-next-line` and `codeghost-ignore-file`
+   * comments in a file. The first word after the directive is a target when
+   * it is a pattern id, a known category or `*`; the rest is the reason,
+   * optionally set off by `--`.
+   */
+  static parseDirectives(lines: string[], categories: ReadonlySet<string>): IgnoreDirective[] {
+    const directives: IgnoreDirective[] = [];
+    lines.forEach((text, line) => {
+      const match = text.match(DIRECTIVE);
+      if (!match) {
+        return;
+      }
+
+      const words = (match[2] || '').split(/\s+/).filter((word) => word.length > 0);
+      const isTarget = words.length > 0 && (words[0] === '*' || /^pattern_\w+$/.test(words[0]) || categories.has(words[0]));
+      const target = isTarget && words[0] !== '*' ? words[0] : undefined;
+      const rest = isTarget ? words.slice(1) : words;
+      const reason = (rest[0] === '--' ? rest.slice(1) : rest).join(' ');
+      directives.push({ scope: match[1] as IgnoreDirective['scope'], line, target, reason: reason || undefined });
+    });
+    return directives;
+  }
+
+  /**
+   * Drop scan results silenced by comment directives: file directives
+   * anywhere in the file, and line directives on the line above a result
+   * (blank lines and further directives in between are skipped)
+   */
+  static applyDirectives(
+    results: ScanResult[],
+    lines: string[],
+    startLineNumber: number,
+    categories: ReadonlySet<BugCategory>
+  ): ScanResult[] {
+    const directives = SuppressionStore.parseDirectives(lines, categories);
+    if (directives.length === 0) {
+      return results;
+    }
+
+    const covers = (directive: IgnoreDirective, result: ScanResult) =>
+      !directive.target || directive.target === result.patternId || directive.target === result.category;
+    const fileDirectives = directives.filter((d) => d.scope === 'file');
+    const lineDirectives = new Map<number, IgnoreDirective[]>();
+    for (const directive of directives.filter((d) => d.scope === 'next-line')) {
+      let target = directive.line + 1;
+      while (target < lines.length && (lines[target].trim() === '' || DIRECTIVE.test(lines[target]))) {
+        target++;
+      }
+      lineDirectives.set(target, [...(lineDirectives.get(target) || []), directive]);
+    }
+
+    return results.filter((result) => {
+      const line = result.lineNumber - startLineNumber;
+      return (
+        !fileDirectives.some((d) => covers(d, result)) &&
+        !(lineDirectives.get(line) || []).some((d) => covers(d, result))
+      );
+    });
+  }
+}
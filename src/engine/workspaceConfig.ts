@@ -0,0 +1,29 @@
+/**
+ * Workspace Config Module
+ * Reads team-shared settings from .codeghost/config.json
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Load `.codeghost/config.json` from the workspace.
+ * Returns an empty object when the file is missing or unreadable so callers
+ * can always fall back to their defaults.
+ */
+export function loadWorkspaceConfig(workspacePath: string): Record<string, any> {
+  const configPath = path.join(workspacePath, '.codeghost', 'config.json');
+
+  try {
+    if (fs.existsSync(configPath)) {
+      const parsed = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed;
+      }
+    }
+  } catch (error) {
+    console.error('[CodeGhost] Failed to read .codeghost/config.json:', error);
+  }
+
+  return {};
+}
@@ -5,19 +5,55 @@
 
 import * as vscode from 'vscode';
 import { CommitFetcher } from './engine/commitFetcher';
+import {
+  CommitSource,
+  getRemoteUrl,
+  parseRemoteUrl,
+  RateLimitError,
+  RemoteSourceOptions,
+} from './engine/commitSource';
+import { ResponseCache } from './engine/responseCache';
+import { AstPatternExtractor } from './engine/astPatterns';
+import { GitLabFetcher } from './engine/gitlabFetcher';
+import { GiteaFetcher } from './engine/giteaFetcher';
+import { BITBUCKET_API_URL, BitbucketFetcher } from './engine/bitbucketFetcher';
 import { LocalGitFetcher } from './engine/localGitFetcher';
+import { CommitClassifier } from './engine/commitClassifier';
+import { CommitLinkContext, CommitLinkParser } from './engine/commitLinks';
+import { FixHistory } from './engine/fixHistory';
+import { gitIdentity } from './engine/gitProcess';
+import { DetectorPlugin, DetectorPluginLoader } from './engine/detectorPlugins';
+import { ExclusionReason, FileExclusions } from './engine/fileExclusions';
 import { PatternExtractor } from './engine/patternExtractor';
+import { PatternPacks } from './engine/patternPack';
 import { PatternStore } from './engine/patternStore';
+import { PatternValidator } from './engine/patternValidator';
 import { CodeScanner } from './engine/scanner';
+import { SuppressionStore } from './engine/suppressions';
+import { FeedbackStore } from './engine/feedback';
+import { GlobalLibrary } from './engine/globalLibrary';
 import { DecorationManager } from './ui/decorations';
 import { RiskScorer } from './engine/riskScorer';
 import { CodeGhostCodeActionProvider } from './ui/codeActions';
 import { StatsPanel } from './ui/statsPanel';
-import { ExtensionConfig } from './types';
+import {
+  ClassifierConfig,
+  CommitSourceKind,
+  ExtensionConfig,
+  FeedbackVerdict,
+  GitHubCommit,
+  PackConflictStrategy,
+  PatternFeedback,
+  SECURITY_CATEGORIES,
+} from './types';
 
 let patternStore: PatternStore | undefined;
 let codeScanner: CodeScanner | undefined;
 let decorationManager: DecorationManager | undefined;
+let fileExclusions: FileExclusions | undefined;
+let suppressionStore: SuppressionStore | undefined;
+let feedbackStore: FeedbackStore | undefined;
+let globalLibrary: GlobalLibrary | undefined;
 let isEnabled = true;
 let scanTimeout: NodeJS.Timeout | undefined;
 
@@ -38,7 +74,7 @@ export function activate(context: vscode.ExtensionContext) {
       {
         provideCodeActions: (document, range, context, token) => {
           if (patternStore) {
-            const provider = new CodeGhostCodeActionProvider(patternStore);
+            const provider = new CodeGhostCodeActionProvider(patternStore, suppressionStore);
             return provider.provideCodeActions(document, range, context, token);
           }
           return [];
@@ -75,6 +111,48 @@ export function activate(context: vscode.ExtensionContext) {
     )
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('codeghost.testDetectors', () =>
+      handleTestDetectors()
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('codeghost.suppressPattern', (patternId?: string) =>
+      handleSuppressPattern(patternId)
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('codeghost.liftSuppression', (patternId?: string) =>
+      handleLiftSuppression(patternId)
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('codeghost.exportPatternPack', () =>
+      handleExportPatternPack(context)
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('codeghost.importPatternPack', () =>
+      handleImportPatternPack()
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('codeghost.markUseful', (patternId?: string, file?: string, line?: number) =>
+      handleFeedback('useful', patternId, file, line)
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('codeghost.markFalsePositive', (patternId?: string, file?: string, line?: number) =>
+      handleFeedback('false_positive', patternId, file, line)
+    )
+  );
+
   // Register document change listener (real-time scanning)
   context.subscriptions.push(
     vscode.workspace.onDidChangeTextDocument((event) => {
@@ -101,6 +179,67 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  // Reload exclusions when .codeghostignore or .gitattributes change
+  const exclusionWatcher = vscode.workspace.createFileSystemWatcher('**/{.codeghostignore,.gitattributes}');
+  const reloadExclusions = () => {
+    const workspacePath = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
+    if (workspacePath) {
+      fileExclusions = FileExclusions.fromWorkspace(workspacePath);
+      const editor = vscode.window.activeTextEditor;
+      if (isEnabled && editor && codeScanner && decorationManager) {
+        scanDocument(editor);
+      }
+    }
+  };
+  exclusionWatcher.onDidChange(reloadExclusions);
+  exclusionWatcher.onDidCreate(reloadExclusions);
+  exclusionWatcher.onDidDelete(reloadExclusions);
+  context.subscriptions.push(exclusionWatcher);
+
+  // Pick up the team's feedback after a pull or merge
+  const feedbackWatcher = vscode.workspace.createFileSystemWatcher('**/.codeghost/feedback.jsonl');
+  const reloadFeedback = () => {
+    feedbackStore?.reload();
+    refreshAfterPatternChange();
+  };
+  feedbackWatcher.onDidChange(reloadFeedback);
+  feedbackWatcher.onDidCreate(reloadFeedback);
+  feedbackWatcher.onDidDelete(reloadFeedback);
+  context.subscriptions.push(feedbackWatcher);
+
+  // A new demotion threshold changes every pattern's verdict; the global
+  // library is opened or closed as it is switched on or off
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(async (event) => {
+      const workspacePath = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
+      if (!workspacePath || !patternStore) {
+        return;
+      }
+      if (event.affectsConfiguration('codeghost.feedback')) {
+        feedbackStore = new FeedbackStore(workspacePath, getConfig().maxFalsePositiveRatio, (id) =>
+          patternStore!.supersededIds(id)
+        );
+      }
+      if (event.affectsConfiguration('codeghost.globalLibrary')) {
+        globalLibrary = await openGlobalLibrary(context, workspacePath);
+        contributeToGlobalLibrary();
+      }
+      if (event.affectsConfiguration('codeghost.feedback') || event.affectsConfiguration('codeghost.globalLibrary')) {
+        codeScanner = new CodeScanner(patternStore, suppressionStore, feedbackStore, globalLibrary);
+        refreshAfterPatternChange();
+      }
+    })
+  );
+
+  // Other windows may have added their repositories' patterns to the library
+  context.subscriptions.push(
+    vscode.window.onDidChangeWindowState((state) => {
+      if (state.focused && globalLibrary) {
+        globalLibrary.reload();
+      }
+    })
+  );
+
   // Register active editor change listener
   context.subscriptions.push(
     vscode.window.onDidChangeActiveTextEditor((editor) => {
@@ -125,9 +264,18 @@ async function initializeExtension(context: vscode.ExtensionContext) {
 
   try {
     patternStore = new PatternStore(workspacePath);
-    codeScanner = new CodeScanner(patternStore);
-
+    if (patternStore.loadError) {
+      vscode.window.showErrorMessage(`CodeGhost: ${readOnlyReason(patternStore)} to use learned patterns.`);
+    }
+    const supersededIds = (id: string) => patternStore!.supersededIds(id);
+    suppressionStore = new SuppressionStore(workspacePath, supersededIds);
     const config = getConfig();
+    feedbackStore = new FeedbackStore(workspacePath, config.maxFalsePositiveRatio, supersededIds);
+    globalLibrary = await openGlobalLibrary(context, workspacePath);
+    contributeToGlobalLibrary();
+    codeScanner = new CodeScanner(patternStore, suppressionStore, feedbackStore, globalLibrary);
+    fileExclusions = FileExclusions.fromWorkspace(workspacePath);
+
     isEnabled = config.enabled;
 
     // Scan active editor if available
@@ -140,10 +288,80 @@ async function initializeExtension(context: vscode.ExtensionContext) {
   }
 }
 
+/**
+ * The user-level pattern library, when `codeghost.globalLibrary.enabled` is
+ * on. Repositories are identified by their remote URL so clones share an
+ * entry; without a remote the workspace path is used.
+ */
+async function openGlobalLibrary(
+  context: vscode.ExtensionContext,
+  workspacePath: string
+): Promise<GlobalLibrary | undefined> {
+  const config = getConfig();
+  if (!config.globalLibrary) {
+    return undefined;
+  }
+
+  const remoteUrl = await getRemoteUrl(workspacePath);
+  const sourceRepo = remoteUrl ? PatternPacks.publicRepoUrl(remoteUrl) : undefined;
+  const name =
+    (remoteUrl ? parseRemoteUrl(remoteUrl)?.path.split('/').pop() : undefined) ||
+    vscode.workspace.workspaceFolders![0].name;
+  return new GlobalLibrary(
+    context.globalStorageUri.fsPath,
+    { key: sourceRepo ?? workspacePath, name, source_repo: sourceRepo },
+    config.globalLibraryWeight
+  );
+}
+
+/**
+ * Share the workspace's patterns with the global library, leaving out the
+ * ones this team suppressed or demoted with feedback
+ */
+function contributeToGlobalLibrary() {
+  if (!globalLibrary || !patternStore || patternStore.getPatterns().length === 0) {
+    return;
+  }
+  const patterns = patternStore
+    .getPatterns()
+    .filter((p) => !suppressionStore?.isSuppressed(p.id) && !feedbackStore?.get(p.id)?.demoted);
+  try {
+    globalLibrary.contribute(patterns);
+  } catch (error: any) {
+    console.error(`[CodeGhost] ${error.message}`);
+  }
+}
+
+/**
+ * Why bug memory can't be written, for error messages ending in "to <action>."
+ */
+function readOnlyReason(store: PatternStore): string {
+  return store.loadError
+    ? `.codeghost/bug_memory.json could not be loaded (${store.loadError}) and is left untouched. Fix or remove it`
+    : '.codeghost/bug_memory.json was written by a newer version of CodeGhost. Update the extension';
+}
+
 /**
  * Handle initialize command
  */
 async function handleInitialize(context: vscode.ExtensionContext) {
+  await runHistoryScan(context, false);
+}
+
+/**
+ * Handle refresh patterns command
+ */
+async function handleRefreshPatterns(context: vscode.ExtensionContext) {
+  await runHistoryScan(context, true);
+}
+
+/**
+ * Scan commit history and store the extracted patterns.
+ * A full scan rebuilds the pattern store; an incremental scan only ingests
+ * commits newer than the last scanned SHA and falls back to a full rebuild
+ * when that commit is no longer part of the history.
+ */
+async function runHistoryScan(context: vscode.ExtensionContext, incremental: boolean) {
   const workspacePath = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
   if (!workspacePath) {
     vscode.window.showErrorMessage('No workspace folder open');
@@ -152,7 +370,14 @@ async function handleInitialize(context: vscode.ExtensionContext) {
 
   try {
     // Check if it's a local git repository
-    const localGitFetcher = new LocalGitFetcher(workspacePath);
+    const config = getConfig();
+    const localGitFetcher = new LocalGitFetcher(workspacePath, {
+      maxFileDiffBytes: config.maxFileDiffBytes,
+      refs: config.gitRefs,
+      allBranches: config.gitAllBranches,
+      firstParent: config.gitFirstParent,
+      mergeDiffs: config.gitMergeDiffs,
+    });
     const isLocalGit = await localGitFetcher.isGitRepository();
 
     if (!isLocalGit) {
@@ -160,114 +385,196 @@ async function handleInitialize(context: vscode.ExtensionContext) {
       return;
     }
 
-    // Ask user if they want to use local git or GitHub API
-    const choice = await vscode.window.showQuickPick(
-      ['Use Local Git History (Faster)', 'Use GitHub API (For remote repos)'],
-      {
-        placeHolder: 'Choose commit source',
-        ignoreFocusOut: true,
+    const store = new PatternStore(workspacePath);
+    if (store.isReadOnly) {
+      vscode.window.showErrorMessage(`CodeGhost: ${readOnlyReason(store)} to rescan.`);
+      return;
+    }
+    let sinceSha = incremental ? store.getLastScannedSha() : undefined;
+
+    // Refreshes reuse the source picked at initialization
+    let sourceKind = context.workspaceState.get<CommitSourceKind>('codeghost.commitSource');
+
+    if (!sinceSha || sourceKind === undefined) {
+      sourceKind = await pickCommitSource();
+      if (!sourceKind) {
+        return;
       }
-    );
+      await context.workspaceState.update('codeghost.commitSource', sourceKind);
+    }
 
-    if (!choice) {
+    const kind = sourceKind;
+    const source: CommitSource | undefined =
+      kind === 'local'
+        ? localGitFetcher
+        : await createRemoteCommitSource(context, workspacePath, kind);
+    if (!source) {
       return;
     }
 
-    const useLocalGit = choice.startsWith('Use Local');
-
     await vscode.window.withProgress(
       {
         location: vscode.ProgressLocation.Notification,
         title: 'CodeGhost',
-        cancellable: false,
+        cancellable: true,
       },
-      async (progress) => {
-        const config = getConfig();
-        let commits;
-        let bugCommits;
-        let detailedCommits = [];
-
-        if (useLocalGit) {
-          // Use local git history
-          progress.report({ message: 'Fetching local commits...' });
-          commits = await localGitFetcher.fetchCommits(config.maxCommits);
-
-          progress.report({ message: 'Filtering bug-related commits...' });
-          bugCommits = localGitFetcher.filterBugCommits(commits);
-
-          progress.report({ message: 'Analyzing commit diffs...' });
-          for (const commit of bugCommits) {
-            const detailed = await localGitFetcher.fetchCommitDetails(commit.sha);
-            detailedCommits.push(detailed);
-          }
-        } else {
-          // Use GitHub API
-          let token = await context.secrets.get('codeghost.githubToken');
-          if (!token) {
-            token = await vscode.window.showInputBox({
-              prompt: 'Enter your GitHub Personal Access Token',
-              password: true,
-              ignoreFocusOut: true,
-            });
-
-            if (!token) {
-              vscode.window.showWarningMessage('GitHub token is required');
-              return;
-            }
-
-            await context.secrets.store('codeghost.githubToken', token);
-          }
+      async (progress, token) => {
+        let classifier = CommitClassifier.fromWorkspace(workspacePath, config.classifier);
+        if (classifier.usesLabels && !source.fetchLabelEvidence) {
+          vscode.window.showWarningMessage(
+            `CodeGhost: Label-based classification needs a hosted commit source; ${source.name} commits are classified by message`
+          );
+          classifier = CommitClassifier.fromWorkspace(workspacePath, { ...config.classifier, mode: 'message' });
+        }
+        const linkParser = new CommitLinkParser(await getLinkContext(workspacePath, kind, config));
+        let rebuilt = false;
 
-          const remoteUrl = await CommitFetcher.getRemoteUrl(workspacePath);
-          if (!remoteUrl) {
-            vscode.window.showErrorMessage('Could not find Git remote URL');
-            return;
-          }
+        if (sinceSha && !(await source.isAncestorOfHead(sinceSha, config.maxCommits))) {
+          console.log(`[CodeGhost] Last scanned commit ${sinceSha} is gone from history, rebuilding`);
+          sinceSha = undefined;
+          rebuilt = true;
+        }
 
-          const repoInfo = CommitFetcher.parseGitHubUrl(remoteUrl);
-          if (!repoInfo) {
-            vscode.window.showErrorMessage('Could not parse GitHub repository URL');
-            return;
-          }
+        progress.report({ message: `Fetching commits from ${source.name}...` });
+        // Other branches aren't covered by the newest scanned commit alone
+        const commits = await source.fetchCommits(config.maxCommits, sinceSha, sinceSha ? store.getScannedTips() : []);
 
-          progress.report({ message: 'Fetching commits from GitHub...' });
-          const commitFetcher = new CommitFetcher(token!);
-          commits = await commitFetcher.fetchCommits(
-            repoInfo.owner,
-            repoInfo.repo,
-            config.maxCommits
-          );
+        if (sinceSha && commits.length === 0) {
+          vscode.window.showInformationMessage('CodeGhost: Patterns are already up to date');
+          return;
+        }
+
+        if (classifier.usesLabels && source.fetchLabelEvidence) {
+          progress.report({ message: 'Reading pull request and issue labels...' });
+          await source.fetchLabelEvidence(commits, token);
+        }
 
-          progress.report({ message: 'Filtering bug-related commits...' });
-          bugCommits = commitFetcher.filterBugCommits(commits);
-
-          progress.report({ message: 'Fetching commit details...' });
-          for (const commit of bugCommits.slice(0, 50)) {
-            const detailed = await commitFetcher.fetchCommitDetails(
-              repoInfo.owner,
-              repoInfo.repo,
-              commit.sha
-            );
-            detailedCommits.push(detailed);
+        progress.report({ message: 'Filtering bug-related commits...' });
+        // Fixes that were reverted later taught the wrong lesson; the revert
+        // itself is learned from instead
+        const fixHistory = new FixHistory(commits);
+        const bugCommits = source
+          .filterBugCommits(commits, classifier)
+          .filter((commit) => !fixHistory.isUndone(commit.sha));
+
+        progress.report({ message: 'Analyzing commit diffs...' });
+        const classifications = new Map(bugCommits.map((c) => [c.sha, c.classification]));
+        const order = new Map(bugCommits.map((c, index) => [c.sha, index]));
+        // Collected as they arrive so a rate-limited batch still keeps its work
+        let detailedCommits: GitHubCommit[] = [];
+        let interruption: string | undefined;
+        try {
+          await source.fetchCommitDetailsBatch(
+            bugCommits.map((c) => c.sha),
+            (detailed) => {
+              detailed.classification = classifications.get(detailed.sha);
+              detailed.links = linkParser.parse(detailed.sha, detailed.commit.message, detailed.pull_request);
+              detailedCommits.push(detailed);
+              progress.report({
+                message: `Analyzing commit diffs (${detailedCommits.length}/${bugCommits.length})...`,
+                increment: 100 / Math.max(bugCommits.length, 1),
+              });
+            },
+            token
+          );
+        } catch (error) {
+          if (!(error instanceof RateLimitError)) {
+            throw error;
           }
+          interruption = error.message;
+        }
+        if (token.isCancellationRequested) {
+          interruption = 'cancelled';
+        }
+        // Parallel fetches finish out of order
+        detailedCommits.sort((a, b) => (order.get(a.sha) ?? 0) - (order.get(b.sha) ?? 0));
+
+        const pathHistory = await source.fetchPathHistory(commits, detailedCommits);
+
+        // Path filters need the changed files, so they run after the diffs are in
+        detailedCommits = detailedCommits.filter((commit) => classifier.applyPathFilters(commit));
+
+        // Generated, vendored and ignored files would only teach junk patterns
+        const exclusions = FileExclusions.fromWorkspace(workspacePath);
+        fileExclusions = exclusions;
+        const excludedFiles = new Map<string, ExclusionReason>();
+        detailedCommits = detailedCommits.filter((commit) => exclusions.applyToCommit(commit, excludedFiles));
+
+        if (config.astExtraction) {
+          progress.report({ message: 'Reading changed TypeScript/JavaScript files...' });
+          await loadFileContents(source, detailedCommits, token);
+        }
+
+        // Full scans replace the learned history instead of merging into it.
+        // Otherwise the stored patterns are brought up to date first: new
+        // patterns are generalized against them.
+        const replacing = !sinceSha && !interruption;
+        if (!replacing) {
+          // Earlier references follow files renamed by the new commits
+          store.applyPathHistory(pathHistory);
+        }
+        const revertedRefs = store.removeCommits(fixHistory.getUndoneCommits());
+        if (revertedRefs > 0) {
+          console.log(`[CodeGhost] Dropped ${revertedRefs} reference(s) learned from reverted commits`);
         }
 
         progress.report({ message: 'Extracting bug patterns...' });
-        const patternExtractor = new PatternExtractor();
-        const patterns = patternExtractor.extractPatterns(detailedCommits);
+        const patternExtractor = new PatternExtractor(loadDetectorPlugins(workspacePath, config));
+        const patterns = patternExtractor.extractPatterns(detailedCommits, replacing ? [] : store.getAllPatterns());
+        fixHistory.annotatePatterns(patterns, detailedCommits);
+        pathHistory.remapPatterns(patterns);
+
+        progress.report({ message: 'Validating patterns against HEAD...' });
+        const validation = new PatternValidator(config.maxHitRate).validate(
+          patterns,
+          await PatternValidator.readHead(workspacePath, exclusions)
+        );
 
         progress.report({ message: 'Saving patterns...' });
-        patternStore = new PatternStore(workspacePath);
-        patternStore.addPatterns(patterns);
+        patternStore = store;
+        if (replacing) {
+          // Patterns imported from packs are kept
+          patternStore.clear();
+        }
+        patternStore.addPatterns(validation.patterns);
 
-        if (commits && commits.length > 0) {
-          patternStore.updateLastScannedSha(commits[0].sha);
+        // A partial scan keeps its patterns but not the checkpoint, so the
+        // next refresh picks up the commits it missed
+        if (commits.length > 0 && !interruption) {
+          patternStore.updateLastScannedSha(commits[0].sha, source.scannedTips);
         }
 
-        codeScanner = new CodeScanner(patternStore);
+        contributeToGlobalLibrary();
+        codeScanner = new CodeScanner(patternStore, suppressionStore, feedbackStore, globalLibrary);
+
+        if (interruption) {
+          vscode.window.showWarningMessage(
+            `CodeGhost: Scan stopped (${interruption}). Kept ${validation.patterns.length} bug patterns from ` +
+              `${detailedCommits.length} of ${bugCommits.length} bug-fix commits; run "CodeGhost: Refresh Patterns" to finish.`
+          );
+          const activeEditor = vscode.window.activeTextEditor;
+          if (activeEditor && decorationManager) {
+            scanDocument(activeEditor);
+          }
+          return;
+        }
 
+        const scope = sinceSha
+          ? `${commits.length} new commit(s)`
+          : rebuilt
+            ? 'a full rebuild (last scanned commit no longer in history)'
+            : `${commits.length} commit(s)`;
+        const demoted = validation.patterns.filter((p) => p.validation?.status === 'demoted').length;
+        const rejected = [
+          validation.dropped.length > 0 ? `${validation.dropped.length} dropped` : '',
+          demoted > 0 ? `${demoted} demoted` : '',
+        ].filter((part) => part);
         vscode.window.showInformationMessage(
-          `CodeGhost: Found ${patterns.length} bug patterns from ${bugCommits.length} bug-fix commits`
+          `CodeGhost: Found ${validation.patterns.length} bug patterns from ${bugCommits.length} bug-fix commits in ${scope}` +
+            (rejected.length > 0 ? ` (${rejected.join(', ')} by validation)` : '') +
+            (excludedFiles.size > 0
+              ? `. Skipped ${excludedFiles.size} file(s): ${FileExclusions.summarize(excludedFiles)}`
+              : '')
         );
 
         // Scan current editor
@@ -284,10 +591,198 @@ async function handleInitialize(context: vscode.ExtensionContext) {
 }
 
 /**
- * Handle refresh patterns command
+ * Ask which commit source to scan
  */
-async function handleRefreshPatterns(context: vscode.ExtensionContext) {
-  await handleInitialize(context);
+async function pickCommitSource(): Promise<CommitSourceKind | undefined> {
+  const items: Array<vscode.QuickPickItem & { source: CommitSourceKind }> = [
+    { label: 'Use Local Git History (Faster)', source: 'local' },
+    { label: 'Use GitHub API', description: 'github.com or GitHub Enterprise', source: 'github' },
+    { label: 'Use GitLab API', description: 'gitlab.com or self-hosted', source: 'gitlab' },
+    { label: 'Use Gitea / Forgejo API', description: 'Self-hosted or Codeberg', source: 'gitea' },
+    { label: 'Use Bitbucket Cloud API', source: 'bitbucket' },
+  ];
+
+  const choice = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Choose commit source',
+    ignoreFocusOut: true,
+  });
+
+  return choice?.source;
+}
+
+/**
+ * Create a hosted commit source for the workspace's remote, asking for (and
+ * storing) an access token when none is known yet
+ */
+async function createRemoteCommitSource(
+  context: vscode.ExtensionContext,
+  workspacePath: string,
+  kind: Exclude<CommitSourceKind, 'local'>
+): Promise<CommitSource | undefined> {
+  const labels: Record<typeof kind, string> = {
+    github: 'GitHub',
+    gitlab: 'GitLab',
+    gitea: 'Gitea',
+    bitbucket: 'Bitbucket',
+  };
+  const config = getConfig();
+
+  const remoteUrl = await getRemoteUrl(workspacePath);
+  const remote = remoteUrl ? parseRemoteUrl(remoteUrl) : null;
+  if (!remote) {
+    vscode.window.showErrorMessage('Could not find Git remote URL');
+    return undefined;
+  }
+
+  const [owner, ...rest] = remote.path.split('/');
+  const repo = rest.join('/');
+  if (!owner || !repo) {
+    vscode.window.showErrorMessage(`Could not parse ${labels[kind]} repository URL`);
+    return undefined;
+  }
+
+  const secretKey = `codeghost.${kind}Token`;
+  let token = (kind === 'github' && config.githubToken) || (await context.secrets.get(secretKey));
+  if (!token) {
+    token = await vscode.window.showInputBox({
+      prompt: `Enter your ${labels[kind]} access token`,
+      password: true,
+      ignoreFocusOut: true,
+    });
+
+    if (!token) {
+      vscode.window.showWarningMessage(`${labels[kind]} token is required`);
+      return undefined;
+    }
+
+    await context.secrets.store(secretKey, token);
+  }
+
+  const apiUrl = config.apiUrls[kind];
+  const options: RemoteSourceOptions = {
+    cache: config.cacheResponses ? ResponseCache.forWorkspace(workspacePath) : undefined,
+    concurrency: config.remoteConcurrency,
+    resolvePullRequests: config.resolvePullRequests,
+  };
+  switch (kind) {
+    case 'github':
+      return new CommitFetcher(token, owner, repo, apiUrl || CommitFetcher.apiUrlForHost(remote.host), options);
+    case 'gitlab':
+      return new GitLabFetcher(token, remote.path, apiUrl || GitLabFetcher.apiUrlForHost(remote.host), options);
+    case 'gitea':
+      return new GiteaFetcher(token, owner, repo, apiUrl || GiteaFetcher.apiUrlForHost(remote.host), options);
+    case 'bitbucket':
+      return new BitbucketFetcher(token, owner, repo, apiUrl || BITBUCKET_API_URL, options);
+  }
+}
+
+/**
+ * Load the post-fix contents of changed TS/JS files so the AST extractor can
+ * compare the code before and after each fix. Files left without contents
+ * (cancelled, rate limited, unreadable) fall back to line-based extraction.
+ */
+async function loadFileContents(
+  source: CommitSource,
+  commits: GitHubCommit[],
+  cancellation: vscode.CancellationToken
+): Promise<void> {
+  try {
+    for (const commit of commits) {
+      for (const file of commit.files || []) {
+        if (cancellation.isCancellationRequested) {
+          return;
+        }
+        if (file.patch && file.status !== 'removed' && AstPatternExtractor.supports(file.filename)) {
+          file.content = await source.fetchFileContent(commit.sha, file.filename);
+        }
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof RateLimitError)) {
+      throw error;
+    }
+    console.log(`[CodeGhost] ${error.message}; remaining files use line-based extraction`);
+  }
+}
+
+/**
+ * Where links in commit messages point: the remote's web UI and Jira
+ */
+async function getLinkContext(
+  workspacePath: string,
+  kind: CommitSourceKind,
+  config: ExtensionConfig
+): Promise<CommitLinkContext> {
+  const remoteUrl = await getRemoteUrl(workspacePath);
+  const remote = remoteUrl ? parseRemoteUrl(remoteUrl) : null;
+
+  const forge = kind !== 'local' ? kind : remote ? CommitLinkParser.forgeForHost(remote.host) : undefined;
+
+  return {
+    repoWebUrl: remote ? `https://${remote.host}/${remote.path}` : undefined,
+    forge,
+    jiraBaseUrl: config.jiraBaseUrl || undefined,
+  };
+}
+
+/**
+ * Load the workspace's detector plugins whose fixtures pass, warning about
+ * the ones that were skipped
+ */
+function loadDetectorPlugins(workspacePath: string, config: ExtensionConfig): DetectorPlugin[] {
+  const { plugins, problems } = createDetectorLoader(config).loadActive(workspacePath);
+
+  if (problems.length > 0) {
+    problems.forEach((problem) => console.log(`[CodeGhost] Detector plugin problem: ${problem}`));
+    vscode.window.showWarningMessage(
+      `CodeGhost: ${problems.length} detector plugin problem(s), e.g. ${problems[0]}`
+    );
+  }
+  return plugins;
+}
+
+function createDetectorLoader(config: ExtensionConfig): DetectorPluginLoader {
+  return new DetectorPluginLoader({
+    // Script detectors run arbitrary code from the repository
+    allowScripts: config.detectorScripts && vscode.workspace.isTrusted,
+    enabled: config.detectorsEnabled,
+  });
+}
+
+/**
+ * Handle test detector plugins command: run every plugin's fixtures,
+ * including disabled plugins
+ */
+function handleTestDetectors() {
+  const workspacePath = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
+  if (!workspacePath) {
+    vscode.window.showErrorMessage('No workspace folder open');
+    return;
+  }
+
+  const { plugins, problems } = createDetectorLoader(getConfig()).load(workspacePath);
+  if (plugins.length === 0 && problems.length === 0) {
+    vscode.window.showInformationMessage('CodeGhost: No detector plugins in .codeghost/detectors/');
+    return;
+  }
+
+  let fixtures = 0;
+  for (const plugin of plugins) {
+    fixtures += plugin.fixtures.length;
+    for (const failure of DetectorPluginLoader.runFixtures(plugin)) {
+      problems.push(`${plugin.id}: ${failure}`);
+    }
+  }
+  problems.forEach((problem) => console.log(`[CodeGhost] Detector plugin problem: ${problem}`));
+
+  const summary = `${plugins.length} detector plugin(s), ${fixtures} fixture(s)`;
+  if (problems.length === 0) {
+    vscode.window.showInformationMessage(`CodeGhost: ${summary}, all passing`);
+  } else {
+    vscode.window.showWarningMessage(
+      `CodeGhost: ${summary}, ${problems.length} problem(s), e.g. ${problems[0]}`
+    );
+  }
 }
 
 /**
@@ -324,10 +819,272 @@ function handleShowStats() {
   }
 
   // Show stats in webview panel
-  StatsPanel.show(patternStore);
+  StatsPanel.show(patternStore, suppressionStore, feedbackStore);
 
 }
 
+/**
+ * Suppress a pattern across the workspace, recording who did it and why
+ */
+async function handleSuppressPattern(patternId?: string) {
+  if (!patternStore || !suppressionStore) {
+    vscode.window.showInformationMessage('CodeGhost not initialized. Run "CodeGhost: Initialize" first.');
+    return;
+  }
+
+  let pattern = patternStore.getPatterns().find((p) => p.id === patternId);
+  if (!pattern) {
+    const items = patternStore
+      .getPatterns()
+      .filter((p) => !suppressionStore!.isSuppressed(p.id))
+      .map((p) => ({ label: p.category.replace(/_/g, ' '), description: p.regex, detail: p.reason, pattern: p }));
+    pattern = (await vscode.window.showQuickPick(items, { placeHolder: 'Pattern to suppress in this workspace' }))?.pattern;
+    if (!pattern) {
+      return;
+    }
+  }
+
+  const reason = await vscode.window.showInputBox({
+    prompt: `Why is the ${pattern.category.replace(/_/g, ' ')} pattern not a problem in this workspace?`,
+    placeHolder: 'Reason, recorded in .codeghost/suppressions.json',
+    ignoreFocusOut: true,
+    validateInput: (value) => (value.trim() ? undefined : 'Give a reason for the record'),
+  });
+  if (reason === undefined) {
+    return;
+  }
+
+  try {
+    await suppressionStore.suppress(pattern, reason.trim());
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`CodeGhost: ${error.message}`);
+    return;
+  }
+  vscode.window.showInformationMessage(`CodeGhost: Suppressed the ${pattern.category.replace(/_/g, ' ')} pattern in this workspace`);
+  refreshAfterPatternChange();
+}
+
+/**
+ * Lift a workspace suppression (the stats panel's "Lift" button)
+ */
+async function handleLiftSuppression(patternId?: string) {
+  if (!suppressionStore) {
+    vscode.window.showInformationMessage('CodeGhost not initialized. Run "CodeGhost: Initialize" first.');
+    return;
+  }
+
+  if (!patternId) {
+    const items = suppressionStore.getActive().map((s) => ({
+      label: s.category.replace(/_/g, ' '),
+      description: s.regex,
+      detail: `${s.reason} (${s.author})`,
+      patternId: s.pattern_id,
+    }));
+    if (items.length === 0) {
+      vscode.window.showInformationMessage('CodeGhost: No patterns are suppressed');
+      return;
+    }
+    patternId = (await vscode.window.showQuickPick(items, { placeHolder: 'Suppression to lift' }))?.patternId;
+    if (!patternId) {
+      return;
+    }
+  }
+
+  try {
+    await suppressionStore.lift(patternId);
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`CodeGhost: ${error.message}`);
+    return;
+  }
+  refreshAfterPatternChange();
+}
+
+/**
+ * Write the workspace's patterns to a pattern pack other repositories can
+ * import
+ */
+async function handleExportPatternPack(context: vscode.ExtensionContext) {
+  const workspacePath = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
+  if (!patternStore || !workspacePath) {
+    vscode.window.showInformationMessage('CodeGhost not initialized. Run "CodeGhost: Initialize" first.');
+    return;
+  }
+
+  const patterns = patternStore
+    .getPatterns()
+    .filter((p) => !p.quarantined && !suppressionStore?.isSuppressed(p.id));
+  if (patterns.length === 0) {
+    vscode.window.showInformationMessage('CodeGhost: No patterns to export');
+    return;
+  }
+
+  const redaction = await vscode.window.showQuickPick(
+    [
+      { label: 'Include code examples and commit messages', redact: false },
+      { label: 'Redact code examples and commit messages', redact: true },
+    ],
+    { placeHolder: `Export ${patterns.length} pattern(s)` }
+  );
+  if (!redaction) {
+    return;
+  }
+
+  const remoteUrl = await getRemoteUrl(workspacePath);
+  const repoName = remoteUrl ? parseRemoteUrl(remoteUrl)?.path.split('/').pop() : undefined;
+  const name = repoName || vscode.workspace.workspaceFolders![0].name;
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.joinPath(vscode.workspace.workspaceFolders![0].uri, `${name}.codeghost-pack.json`),
+    filters: { 'CodeGhost pattern pack': ['json'] },
+  });
+  if (!target) {
+    return;
+  }
+
+  try {
+    const pack = PatternPacks.create(
+      name,
+      patterns,
+      {
+        source_repo: remoteUrl ? PatternPacks.publicRepoUrl(remoteUrl) : undefined,
+        commit_range: await PatternPacks.commitRange(workspacePath, patterns, patternStore.getLastScannedSha()),
+        generator: `codeghost@${context.extension.packageJSON.version}`,
+        created_at: new Date().toISOString(),
+        created_by: await gitIdentity(workspacePath),
+      },
+      redaction.redact
+    );
+    await vscode.workspace.fs.writeFile(target, Buffer.from(JSON.stringify(pack, null, 2), 'utf-8'));
+    vscode.window.showInformationMessage(`CodeGhost: Exported ${pack.patterns.length} pattern(s) to ${target.fsPath}`);
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`CodeGhost: Failed to export pattern pack: ${error.message}`);
+  }
+}
+
+/**
+ * Merge a pattern pack into the workspace's patterns
+ */
+async function handleImportPatternPack() {
+  if (!patternStore) {
+    vscode.window.showInformationMessage('CodeGhost not initialized. Run "CodeGhost: Initialize" first.');
+    return;
+  }
+  if (patternStore.isReadOnly) {
+    vscode.window.showErrorMessage(`CodeGhost: ${readOnlyReason(patternStore)} to import patterns.`);
+    return;
+  }
+
+  const [source] =
+    (await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      filters: { 'CodeGhost pattern pack': ['json'] },
+      openLabel: 'Import',
+    })) || [];
+  if (!source) {
+    return;
+  }
+
+  let parsed: ReturnType<typeof PatternPacks.parse>;
+  try {
+    parsed = PatternPacks.parse(Buffer.from(await vscode.workspace.fs.readFile(source)).toString('utf-8'));
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`CodeGhost: ${error.message}`);
+    return;
+  }
+  const { pack, problems } = parsed;
+  for (const problem of problems) {
+    console.log(`[CodeGhost] Skipped a pattern from ${pack.name}: ${problem}`);
+  }
+
+  let strategy: PackConflictStrategy = 'merge';
+  const conflicts = patternStore.findConflicts(pack.patterns);
+  if (conflicts.length > 0) {
+    const choice = await vscode.window.showQuickPick(
+      [
+        { label: 'Merge', detail: 'Combine the commit history; risk is averaged by occurrences', strategy: 'merge' as const },
+        { label: 'Keep mine', detail: 'Leave patterns already in this workspace as they are', strategy: 'keep' as const },
+        { label: "Take the pack's", detail: "Replace them with the pack's version", strategy: 'replace' as const },
+      ],
+      { placeHolder: `${conflicts.length} pattern(s) in "${pack.name}" differ from the ones in this workspace` }
+    );
+    if (!choice) {
+      return;
+    }
+    strategy = choice.strategy;
+  }
+
+  const report = patternStore.importPatterns(
+    pack.patterns,
+    {
+      pack: pack.name,
+      source_repo: pack.provenance.source_repo,
+      checksum: pack.checksum,
+      imported_at: new Date().toISOString(),
+    },
+    strategy
+  );
+
+  const from = pack.provenance.source_repo ? ` from ${pack.provenance.source_repo}` : '';
+  const skipped = problems.length > 0 ? `, ${problems.length} invalid pattern(s) skipped` : '';
+  vscode.window.showInformationMessage(
+    `CodeGhost: Imported "${pack.name}"${from}: ${report.added} new, ${report.merged} merged, ` +
+      `${report.replaced} replaced, ${report.kept} unchanged${skipped}`
+  );
+  refreshAfterPatternChange();
+}
+
+/**
+ * Record whether a match was useful or a false positive; the pattern's risk
+ * score follows the team's verdicts
+ */
+async function handleFeedback(verdict: FeedbackVerdict, patternId?: string, file?: string, line?: number) {
+  if (!patternStore || !feedbackStore) {
+    vscode.window.showInformationMessage('CodeGhost not initialized. Run "CodeGhost: Initialize" first.');
+    return;
+  }
+
+  let pattern = patternStore.getPatterns().find((p) => p.id === patternId);
+  if (!pattern) {
+    const items = patternStore
+      .getPatterns()
+      .map((p) => ({ label: p.category.replace(/_/g, ' '), description: p.regex, detail: p.reason, pattern: p }));
+    pattern = (await vscode.window.showQuickPick(items, {
+      placeHolder: verdict === 'useful' ? 'Pattern that flagged a real problem' : 'Pattern that flagged a false positive',
+    }))?.pattern;
+    if (!pattern) {
+      return;
+    }
+  }
+
+  let summary: PatternFeedback;
+  try {
+    summary = await feedbackStore.record(pattern.id, verdict, file && line ? { file, line } : undefined);
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`CodeGhost: ${error.message}`);
+    return;
+  }
+
+  const category = pattern.category.replace(/_/g, ' ');
+  vscode.window.showInformationMessage(
+    summary.demoted
+      ? `CodeGhost: Thanks! The ${category} pattern is now demoted (${summary.false_positive} of ${summary.useful + summary.false_positive} votes say false positive)`
+      : `CodeGhost: Thanks! The ${category} pattern is now ${Math.round(summary.precision * 100)}% trusted`
+  );
+  refreshAfterPatternChange();
+}
+
+/**
+ * Rescan the active editor and redraw the stats panel; the global library
+ * gets the patterns this workspace now shares
+ */
+function refreshAfterPatternChange() {
+  contributeToGlobalLibrary();
+  StatsPanel.currentPanel?.update();
+  const editor = vscode.window.activeTextEditor;
+  if (isEnabled && editor && codeScanner && decorationManager) {
+    scanDocument(editor);
+  }
+}
+
 /**
  * Handle document change event
  */
@@ -377,6 +1134,14 @@ function scanDocument(editor: vscode.TextEditor) {
   // Clear existing decorations
   decorationManager.clearDecorations(editor);
 
+  const excluded = patternStore
+    ? fileExclusions?.check(patternStore.toRelativePath(document.fileName), document.getText())
+    : undefined;
+  if (excluded) {
+    console.log(`[CodeGhost] Skipping ${excluded} file: ${document.fileName}`);
+    return;
+  }
+
   // Scan all lines
   const lines = [];
   for (let i = 0; i < document.lineCount; i++) {
@@ -404,12 +1169,19 @@ function scanDocument(editor: vscode.TextEditor) {
     return {
       line: result.lineNumber,
       riskLevel: decorationManager!.getRiskLevel(result.riskScore),
+      security: SECURITY_CATEGORIES.has(result.category),
       hoverMessage: decorationManager!.createHoverMessage(
         result.riskScore,
         result.category,
         result.shortReason,
         result.commitShas,
-        patternDetails
+        patternDetails,
+        {
+          patternId: result.patternId,
+          file: patternStore!.toRelativePath(document.fileName),
+          line: result.lineNumber + 1,
+          summary: feedbackStore?.get(result.patternId),
+        }
       ),
     };
   });
@@ -452,9 +1224,65 @@ function getConfig(): ExtensionConfig {
     enableGPT: config.get('enableGPT', false),
     scanOnSaveOnly: config.get('scanOnSaveOnly', false),
     enabled: config.get('enabled', true),
+    maxFileDiffBytes: config.get('git.maxFileDiffBytes', 262144),
+    astExtraction: config.get('extraction.ast', true),
+    detectorScripts: config.get('detectors.allowScripts', false),
+    detectorsEnabled: config.get('detectors.enabled', {}),
+    maxHitRate: config.get('validation.maxHitRate', 0.01),
+    maxFalsePositiveRatio: config.get('feedback.maxFalsePositiveRatio', 0.5),
+    globalLibrary: config.get('globalLibrary.enabled', false),
+    globalLibraryWeight: config.get('globalLibrary.weight', 0.6),
+    gitRefs: config.get('git.refs', ['HEAD']),
+    gitAllBranches: config.get('git.allBranches', false),
+    gitFirstParent: config.get('git.firstParent', false),
+    gitMergeDiffs: config.get('git.mergeDiffs', 'first-parent'),
+    apiUrls: {
+      github: config.get('github.apiUrl', ''),
+      gitlab: config.get('gitlab.apiUrl', ''),
+      gitea: config.get('gitea.apiUrl', ''),
+      bitbucket: config.get('bitbucket.apiUrl', ''),
+    },
+    remoteConcurrency: config.get('remote.concurrency', 4),
+    cacheResponses: config.get('remote.cacheResponses', true),
+    resolvePullRequests: config.get('links.resolvePullRequests', true),
+    jiraBaseUrl: config.get('links.jiraBaseUrl', ''),
+    classifier: getExplicitSettings<ClassifierConfig>('codeghost.classifier', [
+      'includePatterns',
+      'excludePatterns',
+      'conventionalTypes',
+      'trailers',
+      'includeAuthors',
+      'excludeAuthors',
+      'includePaths',
+      'excludePaths',
+      'minConfidence',
+      'mode',
+      'bugLabels',
+      'bugIssueTypes',
+    ]),
   };
 }
 
+/**
+ * Collect only the settings the user explicitly set, so that values from
+ * `.codeghost/config.json` are not shadowed by package.json defaults
+ */
+function getExplicitSettings<T>(section: string, keys: Array<keyof T & string>): Partial<T> {
+  const config = vscode.workspace.getConfiguration(section);
+  const result: Partial<T> = {};
+
+  for (const key of keys) {
+    const inspected = config.inspect<any>(key);
+    const value =
+      inspected?.workspaceFolderValue ?? inspected?.workspaceValue ?? inspected?.globalValue;
+    if (value !== undefined) {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
 /**
  * Show welcome message
  */
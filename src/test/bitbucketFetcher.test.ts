@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import { BitbucketFetcher } from '../engine/bitbucketFetcher';
+import { GitHubCommit } from '../types';
+import pullRequests from './fixtures/bitbucket/commit_pullrequests.json';
+import issue from './fixtures/bitbucket/issue.json';
+import { MockServer } from './mockServer';
+
+const REPO = '/2.0/repositories/team/repo';
+
+const commit = (n: number) => ({
+  hash: `${n}`.padStart(40, 'c'),
+  message: `Commit ${n}`,
+  date: '2025-01-01T00:00:00+00:00',
+  author: { raw: 'Jane Doe <jane@example.com>' },
+});
+
+/** A commit as listed in a scanned window, without details */
+const listed = (sha: string): GitHubCommit => ({ sha, commit: { message: '', author: { name: 'Jane Doe', date: '' } } });
+
+suite('BitbucketFetcher', () => {
+  let server: MockServer;
+  let fetcher: BitbucketFetcher;
+
+  setup(async () => {
+    server = await MockServer.start();
+    fetcher = new BitbucketFetcher('bb-secret', 'team', 'repo', server.url('/2.0'));
+  });
+
+  teardown(async () => {
+    await server.close();
+  });
+
+  test('pages through commits with a bearer token and splits the raw author', async () => {
+    server.route(`${REPO}/commits`, ({ query }) => {
+      const pagelen = Number(query.get('pagelen'));
+      const start = (Number(query.get('page')) - 1) * pagelen;
+      return { body: { values: Array.from({ length: 150 }, (_, i) => commit(150 - i)).slice(start, start + pagelen) } };
+    });
+
+    const commits = await fetcher.fetchCommits(200);
+
+    assert.strictEqual(commits.length, 150);
+    assert.deepStrictEqual(commits[0].commit.author, {
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+      date: '2025-01-01T00:00:00+00:00',
+    });
+    const requests = server.requestsTo(`${REPO}/commits`);
+    assert.deepStrictEqual(
+      requests.map((r) => r.query.get('page')),
+      ['1', '2']
+    );
+    assert.ok(requests.every((r) => r.headers.authorization === 'Bearer bb-secret'));
+  });
+
+  test('prefers the linked user name over the raw author', async () => {
+    const sha = commit(1).hash;
+    server.route(`${REPO}/commit/${sha}`, {
+      body: { ...commit(1), author: { raw: 'jdoe <jane@example.com>', user: { display_name: 'Jane Doe' } } },
+    });
+    server.route(`${REPO}/diff/${sha}`, {
+      body: 'diff --git a/a.py b/a.py\n--- a/a.py\n+++ b/a.py\n@@ -1 +1 @@\n-x = d["k"]\n+x = d.get("k")\n',
+    });
+
+    const details = await fetcher.fetchCommitDetails(sha);
+
+    assert.strictEqual(details.commit.author.name, 'Jane Doe');
+    assert.deepStrictEqual(
+      details.files?.map((f) => [f.filename, f.patch]),
+      [['a.py', '@@ -1 +1 @@\n-x = d["k"]\n+x = d.get("k")']]
+    );
+  });
+
+  test('pages through the diffstat for renames', async () => {
+    const [head, base] = [commit(2).hash, commit(1).hash];
+    const stat = (i: number) => ({ status: 'modified', old: { path: `f${i}.py` }, new: { path: `f${i}.py` } });
+    server.route(`${REPO}/diffstat/${head}..${base}`, ({ query }) =>
+      query.get('page') === '1'
+        ? { body: { values: Array.from({ length: 500 }, (_, i) => stat(i)) } }
+        : {
+            body: {
+              values: [
+                { status: 'renamed', old: { path: 'old/a.py' }, new: { path: 'new/a.py' } },
+                { status: 'added', old: null, new: { path: 'b.py' } },
+              ],
+            },
+          }
+    );
+
+    const paths = await fetcher.fetchPathHistory([listed(head), listed(base)], []);
+
+    assert.strictEqual(paths.size, 1);
+    assert.strictEqual(paths.resolve('old/a.py', base), 'new/a.py');
+    assert.deepStrictEqual(
+      server.requestsTo(`${REPO}/diffstat/${head}..${base}`).map((r) => [r.query.get('page'), r.query.get('pagelen')]),
+      [
+        ['1', '500'],
+        ['2', '500'],
+      ]
+    );
+  });
+
+  test('reads the pull request without labels and the kind of the issue it closes', async () => {
+    const fix = listed(commit(1).hash);
+    fix.commit.message = 'Guard the profile';
+    server.route(`${REPO}/commit/${fix.sha}/pullrequests`, { body: pullRequests });
+    server.route(`${REPO}/issues/12`, { body: issue });
+
+    await fetcher.fetchLabelEvidence([fix]);
+
+    assert.deepStrictEqual(fix.label_evidence, {
+      pull_request: {
+        number: 14,
+        title: 'Guard against a missing profile',
+        url: 'https://bitbucket.org/team/repo/pull-requests/14',
+        labels: [],
+      },
+      issues: [{ number: 12, labels: [], type: 'bug' }],
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommitClassifier } from '../engine/commitClassifier';
+import { GitHubCommit, LabelEvidence } from '../types';
+
+const commit = (message: string, evidence?: LabelEvidence): GitHubCommit => ({
+  sha: 'aaaa111',
+  commit: { message, author: { name: 'Jane Doe', email: 'jane@example.com', date: '2025-01-01T00:00:00Z' } },
+  label_evidence: evidence,
+});
+
+const by = (name: string, email: string, message: string): GitHubCommit => ({
+  sha: 'aaaa111',
+  commit: { message, author: { name, email, date: '2025-01-01T00:00:00Z' } },
+});
+
+suite('CommitClassifier', () => {
+  const classifier = new CommitClassifier();
+
+  suite('message signals', () => {
+    test('combines independent signals with a noisy-or', () => {
+      const result = classifier.classify(commit('fix: handle empty input'));
+
+      // 1 - (1 - 0.9) * (1 - 0.4)
+      assert.strictEqual(result.confidence, 0.94);
+      assert.deepStrictEqual(result.reasons, ['conventional commit type "fix"', String.raw`message matches /\bfix(e[sd]|ing)?\b/`]);
+    });
+
+    test('one keyword alone stays below the default threshold, two clear it', () => {
+      const single = classifier.classify(commit('Fix parser'));
+      const double = classifier.classify(commit('Fix crash in parser'));
+
+      assert.deepStrictEqual([single.isFix, single.confidence], [false, 0.4]);
+      assert.deepStrictEqual([double.isFix, double.confidence], [true, 0.64]);
+      assert.strictEqual(new CommitClassifier({ minConfidence: 0.3 }).classify(commit('Fix parser')).isFix, true);
+    });
+
+    test('recognizes configured conventional types, with a scope or breaking marker', () => {
+      assert.strictEqual(classifier.classify(commit('hotfix(api)!: reject empty tokens')).isFix, true);
+      assert.strictEqual(classifier.classify(commit('Bugfix: reject empty tokens')).isFix, true);
+      assert.strictEqual(classifier.classify(commit('perf: reject empty tokens early')).isFix, false);
+    });
+
+    test('non-fix conventional types count against keywords', () => {
+      const result = classifier.classify(commit('feat: add crash reporter and bug form'));
+
+      assert.strictEqual(result.isFix, false);
+      assert.strictEqual(result.confidence, 0.14);
+      assert.strictEqual(result.reasons[0], 'non-fix conventional commit type "feat"');
+    });
+
+    test('finds closing trailers and inline references', () => {
+      const trailer = classifier.classify(commit('Handle empty input\n\nCloses: #12'));
+      const inline = classifier.classify(commit('Handle empty input, resolves org/repo#45'));
+      const unrelated = classifier.classify(commit('Handle empty input\n\nSee #12'));
+
+      assert.deepStrictEqual([trailer.isFix, trailer.reasons], [true, ['trailer "Closes"']]);
+      assert.deepStrictEqual(inline.reasons, ['trailer "Resolves"']);
+      assert.strictEqual(unrelated.isFix, false);
+    });
+
+    test('treats a revert as a fix of the reverted commit', () => {
+      const result = classifier.classify(commit('Revert "Cache user profiles"\n\nThis reverts commit 0123456789abcdef0123456789abcdef01234567.'));
+
+      assert.deepStrictEqual([result.isFix, result.confidence, result.reasons], [true, 0.85, ['reverts 0123456']]);
+    });
+
+    test('exclude patterns veto a commit whatever else it says', () => {
+      for (const message of ['Merge branch fix/crash into main', 'fix: fix typo in crash message']) {
+        assert.deepStrictEqual(classifier.classify(commit(message)).confidence, 0, message);
+      }
+    });
+  });
+
+  suite('author filters', () => {
+    test('skips bots by default', () => {
+      const result = classifier.classify(by('dependabot[bot]', '49699333+dependabot[bot]@users.noreply.github.com', 'fix: bump lodash'));
+
+      assert.strictEqual(result.isFix, false);
+      assert.match(result.reasons[0], /^author excluded by/);
+    });
+
+    test('an include list restricts the authors considered, by name or email', () => {
+      const team = new CommitClassifier({ includeAuthors: ['@example\\.com$'] });
+
+      assert.strictEqual(team.classify(by('Jane Doe', 'jane@example.com', 'fix: crash')).isFix, true);
+      assert.deepStrictEqual(team.classify(by('Sam Roe', 'sam@elsewhere.org', 'fix: crash')).reasons, ['author not in include list']);
+    });
+  });
+
+  test('path filters drop files outside the configured paths', () => {
+    const filtered = new CommitClassifier({ includePaths: ['src/**'], excludePaths: ['*.test.ts'] });
+    const file = (filename: string) => ({ filename, status: 'modified', additions: 1, deletions: 1, changes: 2 });
+    const fix: GitHubCommit = { ...commit('fix: crash'), files: [file('src/a.ts'), file('src/a.test.ts'), file('docs/a.md')] };
+    const docsOnly: GitHubCommit = { ...commit('fix: crash'), files: [file('docs/a.md')] };
+
+    assert.strictEqual(filtered.applyPathFilters(fix), true);
+    assert.deepStrictEqual(fix.files!.map((f) => f.filename), ['src/a.ts']);
+    assert.strictEqual(filtered.applyPathFilters(docsOnly), false);
+  });
+
+  test('fromWorkspace reads .codeghost/config.json, with explicit settings taking precedence', () => {
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'codeghost-classifier-'));
+    try {
+      fs.mkdirSync(path.join(workspace, '.codeghost'));
+      fs.writeFileSync(
+        path.join(workspace, '.codeghost', 'config.json'),
+        JSON.stringify({ classifier: { conventionalTypes: ['hotfix'], minConfidence: 0.95 } }),
+        'utf-8'
+      );
+
+      const merged = CommitClassifier.fromWorkspace(workspace, { minConfidence: 0.3 });
+
+      assert.deepStrictEqual(merged.classify(commit('fix: parser')).reasons, [String.raw`message matches /\bfix(e[sd]|ing)?\b/`]);
+      assert.strictEqual(merged.classify(commit('fix: parser')).isFix, true);
+      assert.strictEqual(CommitClassifier.fromWorkspace(workspace).classify(commit('hotfix: parser')).isFix, false);
+    } finally {
+      fs.rmSync(workspace, { recursive: true, force: true });
+    }
+  });
+
+  suite('label signals', () => {
+    const labels = new CommitClassifier({ mode: 'labels' });
+
+    test('a bug label on the pull request marks a fix, whatever the message says', () => {
+      const result = labels.classify(
+        commit('Update settings page', { pull_request: { number: 41, labels: ['area: settings', 'Bug'] }, issues: [] })
+      );
+
+      assert.strictEqual(result.isFix, true);
+      assert.strictEqual(result.confidence, 0.95);
+      assert.deepStrictEqual(result.reasons, ['PR #41 labelled "Bug"']);
+    });
+
+    test('a closed issue counts by its type or its labels, and signals combine', () => {
+      const result = labels.classify(
+        commit('Update settings page', {
+          pull_request: { number: 41, labels: ['kind/bug'] },
+          issues: [
+            { number: 12, labels: [], type: 'Incident' },
+            { number: 13, labels: ['Defect'] },
+            { number: 14, labels: ['enhancement'] },
+          ],
+        })
+      );
+
+      assert.deepStrictEqual(result.reasons, ['PR #41 labelled "kind/bug"', 'closes #12 of type "Incident"', 'closes #13 labelled "Defect"']);
+      assert.strictEqual(result.confidence, 1);
+    });
+
+    test('labels mode ignores the message and says why a commit is not a fix', () => {
+      const unlabelled = labels.classify(commit('fix: crash on save', { pull_request: { number: 41, labels: ['docs'] }, issues: [] }));
+      const unlinked = labels.classify(commit('fix: crash on save', { issues: [] }));
+
+      assert.strictEqual(unlabelled.isFix, false);
+      assert.deepStrictEqual(unlabelled.reasons, ['no bug labels on pull request or issues']);
+      assert.deepStrictEqual(unlinked.reasons, ['no pull request or closed issue found']);
+    });
+
+    test('both mode adds label signals to the message ones', () => {
+      const both = new CommitClassifier({ mode: 'both' });
+
+      const labelled = both.classify(commit('Update settings page', { pull_request: { number: 41, labels: ['bug'] }, issues: [] }));
+      const unlabelled = both.classify(commit('fix: crash on save', { issues: [] }));
+
+      assert.strictEqual(labelled.isFix, true);
+      assert.strictEqual(unlabelled.isFix, true);
+      assert.strictEqual(unlabelled.reasons[0], 'conventional commit type "fix"');
+    });
+
+    test('configured bug labels and issue types replace the defaults', () => {
+      const custom = new CommitClassifier({ mode: 'labels', bugLabels: ['P-crash'], bugIssueTypes: ['Defect'] });
+
+      assert.strictEqual(custom.classify(commit('x', { pull_request: { number: 1, labels: ['bug'] }, issues: [] })).isFix, false);
+      assert.strictEqual(custom.classify(commit('x', { pull_request: { number: 1, labels: ['p-crash'] }, issues: [] })).isFix, true);
+      assert.strictEqual(custom.classify(commit('x', { issues: [{ number: 2, labels: [], type: 'defect' }] })).isFix, true);
+    });
+
+    test('only the label modes need label evidence', () => {
+      assert.strictEqual(new CommitClassifier().usesLabels, false);
+      assert.strictEqual(labels.usesLabels, true);
+      assert.strictEqual(new CommitClassifier({ mode: 'both' }).usesLabels, true);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { CommitFetcher } from '../engine/commitFetcher';
+import { GitHubCommit } from '../types';
+import pulls from './fixtures/github/commit_pulls.json';
+import issue from './fixtures/github/issue.json';
+import { MockServer } from './mockServer';
+
+const REPO = '/repos/octo/app';
+const SHA = '1'.repeat(40);
+
+suite('CommitFetcher', () => {
+  let server: MockServer;
+  let fetcher: CommitFetcher;
+
+  setup(async () => {
+    server = await MockServer.start();
+    fetcher = new CommitFetcher('ghp-secret', 'octo', 'app', server.url());
+  });
+
+  teardown(async () => {
+    await server.close();
+  });
+
+  test('reads labels of the merged pull request and the type of the issue it closes', async () => {
+    server.route(`${REPO}/commits/${SHA}/pulls`, { body: pulls });
+    server.route(`${REPO}/issues/12`, { body: issue });
+    const fix: GitHubCommit = { sha: SHA, commit: { message: 'Guard the profile', author: { name: 'Jane Doe', date: '' } } };
+
+    await fetcher.fetchLabelEvidence([fix]);
+
+    assert.deepStrictEqual(fix.label_evidence, {
+      pull_request: {
+        number: 41,
+        title: 'Guard against a missing profile',
+        url: 'https://github.com/octo/app/pull/41',
+        labels: ['Bug', 'area: settings'],
+      },
+      issues: [{ number: 12, labels: ['needs-triage'], type: 'Bug' }],
+    });
+    assert.ok(server.requests.every((r) => r.headers.authorization === 'token ghp-secret'));
+  });
+
+  test('looks up an issue closed by several commits once', async () => {
+    server.route(`${REPO}/commits/${SHA}/pulls`, { body: [] });
+    server.route(`${REPO}/commits/${'2'.repeat(40)}/pulls`, { body: [] });
+    server.route(`${REPO}/issues/12`, { body: issue });
+    const fixes: GitHubCommit[] = [SHA, '2'.repeat(40)].map((sha) => ({
+      sha,
+      commit: { message: 'Guard the profile\n\nFixes #12', author: { name: 'Jane Doe', date: '' } },
+    }));
+
+    await fetcher.fetchLabelEvidence(fixes);
+
+    assert.deepStrictEqual(
+      fixes.map((fix) => fix.label_evidence?.issues.map((i) => i.type)),
+      [['Bug'], ['Bug']]
+    );
+    assert.strictEqual(server.requestsTo(`${REPO}/issues/12`).length, 1);
+  });
+});
@@ -0,0 +1,236 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DetectorPlugin, DetectorPluginLoader } from '../engine/detectorPlugins';
+import { PatternExtractor } from '../engine/patternExtractor';
+import { GitHubCommit } from '../types';
+
+// Rule files as a team would write them
+const CONFIG_GET_RULE = {
+  id: 'config-get',
+  languages: ['typescript'],
+  buggy: String.raw`\bconfig\.get\((?<key>['"][\w.]+['"])\)(?!\s*\?\?)`,
+  fixed: String.raw`\?\?`,
+  regex: String.raw`\bconfig\.get\($<key>\)(?!\s*\?\?)`,
+  category: 'undefined_access',
+  riskBase: 6,
+  reason: 'config.get() returns undefined for unset keys',
+  fixtures: [
+    {
+      name: 'default added',
+      buggy: "const port = config.get('port');",
+      fixed: "const port = config.get('port') ?? 80;",
+      matches: ["listen(config.get('port'));"],
+      ignores: ["config.get('host');"],
+    },
+    { name: 'other change', buggy: "config.get('port');", fixed: "settings.get('port');", detects: false },
+  ],
+};
+
+const UNWRAP_RULE_YAML = [
+  'id: lock-unwrap',
+  'languages: [rust]',
+  String.raw`buggy: '\.lock\(\)\.unwrap\(\)'`,
+  'category: race_condition',
+  'riskBase: 14',
+  'fixtures:',
+  '  - buggy: let guard = state.lock().unwrap();',
+  '    fixed: let guard = state.lock().map_err(Error::from)?;',
+].join('\n');
+
+const SCRIPT_PLUGIN = `
+module.exports = {
+  id: 'sleep-in-test',
+  fixtures: [{ buggy: 'await sleep(500);', fixed: 'await waitFor(ready);' }],
+  detect(input) {
+    return /\\bsleep\\(/.test(input.buggyLine) && /\\bwaitFor\\(/.test(input.fixedLine)
+      ? { regex: '\\\\bsleep\\\\(\\\\d+\\\\)', category: 'race_condition', riskBase: 4 }
+      : null;
+  },
+};
+`;
+
+const fixCommit = (filename: string, patch: string): GitHubCommit => ({
+  sha: 'aaaa111',
+  commit: { message: 'fix: default the port', author: { name: 'Jane Doe', date: '2025-01-01T00:00:00Z' } },
+  files: [{ filename, status: 'modified', additions: 1, deletions: 1, changes: 2, patch }],
+});
+
+suite('DetectorPluginLoader', () => {
+  let workspace: string;
+  const write = (name: string, content: string) => {
+    const dir = path.join(workspace, '.codeghost', 'detectors');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, name), content);
+  };
+
+  setup(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'codeghost-detectors-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  suite('load', () => {
+    test('loads JSON and YAML rules, and nothing when the directory is missing', () => {
+      assert.deepStrictEqual(new DetectorPluginLoader().load(workspace), { plugins: [], problems: [] });
+
+      write('config-get.json', JSON.stringify(CONFIG_GET_RULE));
+      write('lock-unwrap.yaml', UNWRAP_RULE_YAML);
+      write('README.md', 'not a detector');
+
+      const { plugins, problems } = new DetectorPluginLoader().load(workspace);
+
+      assert.deepStrictEqual(problems, []);
+      assert.deepStrictEqual(
+        plugins.map((p) => [p.id, p.languages, p.fixtures.length]),
+        [
+          ['config-get', ['typescript'], 2],
+          ['lock-unwrap', ['rust'], 1],
+        ]
+      );
+    });
+
+    test('reports broken files, unknown categories and duplicate ids, and keeps the rest', () => {
+      write('a.json', JSON.stringify(CONFIG_GET_RULE));
+      write('b.json', JSON.stringify(CONFIG_GET_RULE));
+      write('c.json', '{ "id": "no-buggy" }');
+      write('d.json', JSON.stringify({ ...CONFIG_GET_RULE, id: 'bad-category', category: 'typo' }));
+      write('e.json', '{ not json');
+
+      const { plugins, problems } = new DetectorPluginLoader().load(workspace);
+
+      assert.deepStrictEqual(
+        plugins.map((p) => p.id),
+        ['config-get']
+      );
+      assert.strictEqual(problems.length, 4);
+      assert.match(problems[0], /^b\.json: duplicate id "config-get"/);
+      assert.match(problems[1], /^c\.json: a rule needs an "id" and a "buggy" regex/);
+      assert.match(problems[2], /^d\.json: unknown category "typo"/);
+      assert.match(problems[3], /^e\.json: /);
+    });
+
+    test('only loads scripts when allowed', () => {
+      write('sleep.js', SCRIPT_PLUGIN);
+
+      const blocked = new DetectorPluginLoader().load(workspace);
+      assert.deepStrictEqual(blocked.plugins, []);
+      assert.match(blocked.problems[0], /script detectors are disabled/);
+
+      const allowed = new DetectorPluginLoader({ allowScripts: true }).load(workspace);
+      assert.deepStrictEqual(
+        allowed.plugins.map((p) => p.id),
+        ['sleep-in-test']
+      );
+    });
+
+    test('the enabled setting overrides the file', () => {
+      write('config-get.json', JSON.stringify({ ...CONFIG_GET_RULE, enabled: false }));
+      write('lock-unwrap.yaml', UNWRAP_RULE_YAML);
+
+      const { plugins } = new DetectorPluginLoader({ enabled: { 'config-get': true, 'lock-unwrap': false } }).load(workspace);
+
+      assert.deepStrictEqual(
+        plugins.map((p) => [p.id, p.enabled]),
+        [
+          ['config-get', true],
+          ['lock-unwrap', false],
+        ]
+      );
+    });
+  });
+
+  suite('fixtures', () => {
+    test('plugins whose fixtures pass are active, with their groups filled into the learned regex', () => {
+      write('config-get.json', JSON.stringify(CONFIG_GET_RULE));
+      write('lock-unwrap.yaml', UNWRAP_RULE_YAML);
+      write('sleep.js', SCRIPT_PLUGIN);
+
+      const { plugins, problems } = new DetectorPluginLoader({ allowScripts: true }).loadActive(workspace);
+
+      assert.deepStrictEqual(problems, []);
+      assert.deepStrictEqual(
+        plugins.map((p) => p.id),
+        ['config-get', 'lock-unwrap', 'sleep-in-test']
+      );
+
+      const result = DetectorPluginLoader.run(plugins[0], {
+        buggyLine: "const host = config.get('server.host');",
+        fixedLine: "const host = config.get('server.host') ?? 'localhost';",
+        buggyHunk: [],
+        fixedHunk: [],
+        language: 'typescript',
+        filename: 'src/server.ts',
+      });
+      assert.strictEqual(result?.regex, String.raw`\bconfig\.get\('server\.host'\)(?!\s*\?\?)`);
+      assert.strictEqual(result?.reason, 'config.get() returns undefined for unset keys');
+    });
+
+    test('a plugin with a failing fixture is disabled and reported', () => {
+      const broken = {
+        ...CONFIG_GET_RULE,
+        fixtures: [{ name: 'too broad', buggy: "config.get('port');", fixed: "config.get('port') ?? 80;", ignores: ["config.get('port') || 80;"] }],
+      };
+      write('config-get.json', JSON.stringify(broken));
+
+      const { plugins, problems } = new DetectorPluginLoader().loadActive(workspace);
+
+      assert.deepStrictEqual(plugins, []);
+      assert.match(problems[0], /^config-get: disabled, 1 fixture\(s\) failed \(too broad: .* also matches "config\.get\('port'\) \|\| 80;"\)/);
+    });
+
+    test('reports a fixture the detector should or should not have fired on', () => {
+      const plugin: DetectorPlugin = {
+        id: 'never',
+        source: '',
+        enabled: true,
+        fixtures: [{ name: 'missed', buggy: 'a', fixed: 'b' }, { buggy: 'a', fixed: 'b', detects: false }],
+        detect: () => null,
+      };
+
+      assert.deepStrictEqual(DetectorPluginLoader.runFixtures(plugin), ['missed: expected the detector to fire']);
+    });
+  });
+
+  suite('run', () => {
+    const input = { buggyLine: 'x', fixedLine: 'y', buggyHunk: ['x'], fixedHunk: ['y'], language: 'go', filename: 'main.go' };
+    const plugin = (detect: DetectorPlugin['detect'], languages?: string[]): DetectorPlugin => ({
+      id: 'p',
+      source: '',
+      enabled: true,
+      languages,
+      fixtures: [],
+      detect,
+    });
+
+    test('skips other languages and clamps the risk to 1-10', () => {
+      const detect = () => ({ regex: 'x', category: 'logic_error' as const, riskBase: 42 });
+
+      assert.strictEqual(DetectorPluginLoader.run(plugin(detect, ['python']), input), null);
+      assert.strictEqual(DetectorPluginLoader.run(plugin(detect, ['go']), input)?.riskBase, 10);
+    });
+
+    test('rejects an invalid regex or an unknown category', () => {
+      assert.throws(() => DetectorPluginLoader.run(plugin(() => ({ regex: '(', category: 'logic_error', riskBase: 5 })), input));
+      assert.throws(
+        () => DetectorPluginLoader.run(plugin(() => ({ regex: 'x', category: 'typo' as any, riskBase: 5 })), input),
+        /unknown category "typo"/
+      );
+    });
+
+    test('plugins run before the built-in detectors and are recorded on the pattern', () => {
+      write('config-get.json', JSON.stringify(CONFIG_GET_RULE));
+      const { plugins } = new DetectorPluginLoader().loadActive(workspace);
+      const patch = ['@@ -1,1 +1,1 @@', "-const port = config.get('port');", "+const port = config.get('port') ?? 80;"].join('\n');
+
+      const [learned] = new PatternExtractor(plugins).extractPatterns([fixCommit('src/server.ts', patch)]);
+
+      assert.strictEqual(learned.detector, 'config-get');
+      assert.strictEqual(learned.category, 'undefined_access');
+      assert.strictEqual(learned.risk_base, 6);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FeedbackStore, PRIOR_PRECISION } from '../engine/feedback';
+import { FeedbackEvent, FeedbackVerdict } from '../types';
+
+suite('FeedbackStore', () => {
+  let workspace: string;
+
+  setup(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'codeghost-feedback-'));
+    fs.mkdirSync(path.join(workspace, '.codeghost'));
+  });
+
+  teardown(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  const write = (events: FeedbackEvent[]) =>
+    fs.writeFileSync(
+      path.join(workspace, '.codeghost', 'feedback.jsonl'),
+      events.map((event) => JSON.stringify(event) + '\n').join(''),
+      'utf-8'
+    );
+
+  let clock = 0;
+  const vote = (verdict: FeedbackVerdict, author: string, line?: number): FeedbackEvent => ({
+    pattern_id: 'p1',
+    verdict,
+    author,
+    created_at: new Date(Date.UTC(2025, 0, 1, 0, 0, clock++)).toISOString(),
+    ...(line !== undefined ? { file: 'src/a.ts', line } : {}),
+  });
+
+  test('an unrated pattern has no feedback and keeps the prior precision', () => {
+    write([vote('useful', 'jane@example.com', 1)]);
+    const store = new FeedbackStore(workspace);
+
+    assert.strictEqual(store.get('other'), undefined);
+    assert.ok(store.get('p1')!.precision > PRIOR_PRECISION);
+  });
+
+  test('a single developer can demote a pattern by flagging several matches', () => {
+    write([
+      vote('false_positive', 'jane@example.com', 10),
+      vote('false_positive', 'jane@example.com', 20),
+      vote('false_positive', 'jane@example.com', 30),
+    ]);
+
+    const summary = new FeedbackStore(workspace).get('p1')!;
+
+    assert.strictEqual(summary.false_positive, 3);
+    assert.strictEqual(summary.precision, 3 / 7);
+    assert.strictEqual(summary.demoted, true);
+  });
+
+  test("only an author's latest verdict on a match counts, by time rather than file order", () => {
+    const earlier = vote('false_positive', 'jane@example.com', 10);
+    const later = vote('useful', 'jane@example.com', 10);
+    write([later, vote('false_positive', 'jane@example.com', 20), earlier, vote('false_positive', 'sam@example.com', 10)]);
+
+    const summary = new FeedbackStore(workspace).get('p1')!;
+
+    assert.deepStrictEqual([summary.useful, summary.false_positive], [1, 2]);
+    assert.strictEqual(summary.demoted, true);
+  });
+
+  test('votes without a location count once per author', () => {
+    write([
+      vote('false_positive', 'jane@example.com'),
+      vote('false_positive', 'jane@example.com'),
+      vote('false_positive', 'jane@example.com'),
+    ]);
+
+    const summary = new FeedbackStore(workspace).get('p1')!;
+
+    assert.strictEqual(summary.false_positive, 1);
+    assert.strictEqual(summary.demoted, false);
+  });
+
+  test('demotes only at the minimum vote count and false-positive share', () => {
+    write([vote('false_positive', 'jane@example.com', 1), vote('false_positive', 'sam@example.com', 1)]);
+    assert.strictEqual(new FeedbackStore(workspace).get('p1')!.demoted, false);
+
+    write([
+      vote('false_positive', 'jane@example.com', 1),
+      vote('false_positive', 'jane@example.com', 2),
+      vote('useful', 'sam@example.com', 1),
+      vote('useful', 'sam@example.com', 2),
+    ]);
+    assert.strictEqual(new FeedbackStore(workspace).get('p1')!.demoted, true);
+    assert.strictEqual(new FeedbackStore(workspace, 0.75).get('p1')!.demoted, false);
+  });
+
+  test('skips unreadable lines such as merge conflict markers', () => {
+    write([vote('false_positive', 'jane@example.com', 1)]);
+    fs.appendFileSync(path.join(workspace, '.codeghost', 'feedback.jsonl'), '<<<<<<< HEAD\n{"pattern_id": "p1"\n', 'utf-8');
+
+    assert.strictEqual(new FeedbackStore(workspace).get('p1')!.false_positive, 1);
+  });
+});
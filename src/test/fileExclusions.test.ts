@@ -0,0 +1,135 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ExclusionReason, FileExclusions } from '../engine/fileExclusions';
+import { GitHubCommit } from '../types';
+
+suite('FileExclusions', () => {
+  // Content is passed to check() so the working tree is never read
+  const check = (exclusions: FileExclusions, file: string) => exclusions.check(file, 'const x = 1;\n');
+
+  suite('.codeghostignore', () => {
+    test('ignores matching files and everything inside ignored directories', () => {
+      const exclusions = new FileExclusions('/repo', 'fixtures/\n*.tmp.ts\n');
+      assert.strictEqual(check(exclusions, 'fixtures/a.ts'), 'codeghostignore');
+      assert.strictEqual(check(exclusions, 'src/fixtures/deep/b.ts'), 'codeghostignore');
+      assert.strictEqual(check(exclusions, 'src/cache.tmp.ts'), 'codeghostignore');
+      assert.strictEqual(check(exclusions, 'src/index.ts'), undefined);
+    });
+
+    test('skips comments and blank lines, and unescapes a leading # or !', () => {
+      const exclusions = new FileExclusions('/repo', '# comment\n\n\\#notes.ts\n\\!bang.ts\n');
+      assert.strictEqual(check(exclusions, '#notes.ts'), 'codeghostignore');
+      assert.strictEqual(check(exclusions, '!bang.ts'), 'codeghostignore');
+      assert.strictEqual(check(exclusions, 'comment'), undefined);
+    });
+
+    test('the last matching rule wins, and a negation re-includes a built-in exclusion', () => {
+      const exclusions = new FileExclusions('/repo', 'src/*.ts\n!src/keep.ts\n!vendor/lib.js\n');
+      assert.strictEqual(check(exclusions, 'src/drop.ts'), 'codeghostignore');
+      assert.strictEqual(check(exclusions, 'src/keep.ts'), undefined);
+      assert.strictEqual(check(exclusions, 'vendor/lib.js'), undefined);
+      assert.strictEqual(check(exclusions, 'vendor/other.js'), 'vendored');
+    });
+
+    test('a negation does not re-include a file inside an ignored directory', () => {
+      const exclusions = new FileExclusions('/repo', 'build/\n!build/keep.ts\n');
+      assert.strictEqual(check(exclusions, 'build/keep.ts'), 'codeghostignore');
+    });
+
+    test('bracket classes match one of their characters, or with ! none of them', () => {
+      const exclusions = new FileExclusions('/repo', '[Mm]akefile.ts\nlog[0-9].ts\nsnap[!s].ts\n');
+      assert.strictEqual(check(exclusions, 'Makefile.ts'), 'codeghostignore');
+      assert.strictEqual(check(exclusions, 'tools/makefile.ts'), 'codeghostignore');
+      assert.strictEqual(check(exclusions, 'log7.ts'), 'codeghostignore');
+      assert.strictEqual(check(exclusions, 'logs.ts'), undefined);
+      assert.strictEqual(check(exclusions, 'snapa.ts'), 'codeghostignore');
+      assert.strictEqual(check(exclusions, 'snaps.ts'), undefined);
+      assert.strictEqual(check(exclusions, '[Mm]akefile.ts'), undefined);
+    });
+
+    test('a trailing slash only matches directories', () => {
+      const exclusions = new FileExclusions('/repo', 'logs/\n');
+      assert.strictEqual(check(exclusions, 'logs'), undefined);
+      assert.strictEqual(check(exclusions, 'logs/today.ts'), 'codeghostignore');
+    });
+  });
+
+  suite('.gitattributes', () => {
+    test('marks linguist-generated and linguist-vendored files', () => {
+      const exclusions = new FileExclusions('/repo', '', 'api/*.ts linguist-generated\nlib/** linguist-vendored=true\n');
+      assert.strictEqual(check(exclusions, 'api/client.ts'), 'generated');
+      assert.strictEqual(check(exclusions, 'lib/x/y.ts'), 'vendored');
+      assert.strictEqual(check(exclusions, 'src/y.ts'), undefined);
+    });
+
+    test('unset or false attributes re-include files the built-in rules exclude', () => {
+      const exclusions = new FileExclusions(
+        '/repo',
+        '',
+        'vendor/** -linguist-vendored\ndist/** linguist-generated=false\n'
+      );
+      assert.strictEqual(check(exclusions, 'vendor/patched.js'), undefined);
+      assert.strictEqual(check(exclusions, 'dist/bundle.js'), undefined);
+      assert.strictEqual(exclusions.check('dist/bundle.js', '// @generated\n'), undefined);
+    });
+
+    test('ignores comments, unspecified (!) attributes and unrelated attributes', () => {
+      const exclusions = new FileExclusions('/repo', '', '# *.ts linguist-generated\n*.ts !linguist-generated text eol=lf\n');
+      assert.strictEqual(check(exclusions, 'src/a.ts'), undefined);
+    });
+
+    test('the last matching line wins', () => {
+      const exclusions = new FileExclusions('/repo', '', 'gen/** linguist-generated\ngen/hand.ts -linguist-generated\n');
+      assert.strictEqual(check(exclusions, 'gen/auto.ts'), 'generated');
+      assert.strictEqual(check(exclusions, 'gen/hand.ts'), undefined);
+    });
+  });
+
+  suite('built-in rules', () => {
+    test('recognizes lockfiles, build output, minified files and generated headers', () => {
+      const exclusions = new FileExclusions('/repo');
+      assert.strictEqual(check(exclusions, 'package-lock.json'), 'lockfile');
+      assert.strictEqual(check(exclusions, 'out/extension.js'), 'build output');
+      assert.strictEqual(check(exclusions, 'web/app.min.js'), 'minified');
+      assert.strictEqual(exclusions.check('api/types.go', '// Code generated by protoc-gen-go. DO NOT EDIT.\n'), 'generated');
+      assert.strictEqual(exclusions.check('web/app.js', 'x'.repeat(500) + '\n'), 'minified');
+    });
+  });
+
+  suite('applyToCommit', () => {
+    let workspace: string;
+
+    setup(() => {
+      workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'codeghost-exclusions-'));
+    });
+
+    teardown(() => {
+      fs.rmSync(workspace, { recursive: true, force: true });
+    });
+
+    const longLine = `const message = '${'a'.repeat(150)}';`;
+    const changed = (filename: string): GitHubCommit => ({
+      sha: 'aaaa111',
+      commit: { message: 'fix: message', author: { name: 'Jane Doe', date: '' } },
+      files: [{ filename, status: 'modified', additions: 1, deletions: 1, changes: 2, patch: `@@ -1 +1 @@\n-${longLine}\n+${longLine};` }],
+    });
+
+    test('judges a file by its working-tree copy, not by a few long changed lines', () => {
+      fs.writeFileSync(path.join(workspace, 'app.js'), ['import a from "a";', longLine, 'a();', 'export {};'].join('\n'));
+      const excluded = new Map<string, ExclusionReason>();
+
+      assert.strictEqual(new FileExclusions(workspace).applyToCommit(changed('app.js'), excluded), true);
+      assert.strictEqual(excluded.size, 0);
+    });
+
+    test('drops a file whose working-tree copy is minified', () => {
+      fs.writeFileSync(path.join(workspace, 'app.js'), 'var a=1;'.repeat(200));
+      const excluded = new Map<string, ExclusionReason>();
+
+      assert.strictEqual(new FileExclusions(workspace).applyToCommit(changed('app.js'), excluded), false);
+      assert.deepStrictEqual([...excluded], [['app.js', 'minified']]);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import * as assert from 'assert';
+import { FixHistory } from '../engine/fixHistory';
+import { BugPattern, GitHubCommit, GitHubFile } from '../types';
+
+const sha = (digit: string) => digit.repeat(40);
+
+const commit = (id: string, day: number, message: string, files: GitHubFile[] = []): GitHubCommit => ({
+  sha: sha(id),
+  commit: { message, author: { name: 'Jane Doe', date: new Date(Date.UTC(2025, 0, day)).toISOString() } },
+  files,
+});
+
+/** A file whose line `line` was rewritten */
+const rewrite = (filename: string, line: number, previousFilename?: string): GitHubFile => ({
+  filename,
+  previous_filename: previousFilename,
+  status: previousFilename ? 'renamed' : 'modified',
+  additions: 1,
+  deletions: 1,
+  changes: 2,
+  patch: [`@@ -${line - 1},3 +${line - 1},3 @@`, ' before();', '-attempt();', '+attempt(again);', ' after();'].join('\n'),
+});
+
+const pattern = (refs: Array<[string, string, number]>, risk = 5): BugPattern => ({
+  id: 'pattern_1',
+  language: 'typescript',
+  regex: String.raw`\battempt\(\)`,
+  category: 'logic_error',
+  risk_base: risk,
+  commits: refs.map(([id, file, line]) => ({ sha: sha(id), file, line, message: 'fix' })),
+  occurrence_count: refs.length,
+});
+
+suite('FixHistory', () => {
+  test('parses the SHA a revert message names', () => {
+    assert.strictEqual(FixHistory.parseRevert('Revert "Cache profiles"\n\nThis reverts commit 1A2B3C4D.'), '1a2b3c4d');
+    assert.strictEqual(FixHistory.parseRevert('Fix the revert button'), undefined);
+  });
+
+  suite('reverts', () => {
+    test('a reverted commit is undone, matched by its abbreviated SHA', () => {
+      const history = new FixHistory([
+        commit('b', 2, `Revert "Cache profiles"\n\nThis reverts commit ${sha('a').substring(0, 8)}.`),
+        commit('a', 1, 'fix: cache profiles'),
+      ]);
+
+      assert.deepStrictEqual(history.getUndoneCommits(), [sha('a')]);
+      assert.strictEqual(history.isUndone(sha('a')), true);
+      assert.strictEqual(history.isUndone(sha('b')), false);
+    });
+
+    test('reverting the revert reinstates the original, and the revert is undone instead', () => {
+      const history = new FixHistory([
+        commit('c', 3, `Reapply "Cache profiles"\n\nThis reverts commit ${sha('b')}.`),
+        commit('b', 2, `Revert "Cache profiles"\n\nThis reverts commit ${sha('a')}.`),
+        commit('a', 1, 'fix: cache profiles'),
+      ]);
+
+      assert.deepStrictEqual(history.getUndoneCommits(), [sha('b')]);
+      assert.strictEqual(history.isUndone(sha('a')), false);
+    });
+
+    test('links references from a revert commit to what it reverted', () => {
+      const history = new FixHistory([
+        commit('b', 2, `Revert "Cache profiles"\n\nThis reverts commit ${sha('a').substring(0, 7)}.`),
+        commit('a', 1, 'fix: cache profiles'),
+      ]);
+      const learned = pattern([['b', 'src/a.ts', 10]]);
+
+      history.annotatePatterns([learned], []);
+
+      assert.strictEqual(learned.commits[0].reverts, sha('a'));
+    });
+  });
+
+  suite('fix chains', () => {
+    test('links fixes that rewrote the same lines within 30 days and adds 1 risk per extra attempt', () => {
+      const fixes = [
+        commit('c', 20, 'fix: attempt three', [rewrite('src/a.ts', 10)]),
+        commit('b', 10, 'fix: attempt two', [rewrite('src/a.ts', 10)]),
+        commit('a', 1, 'fix: attempt one', [rewrite('src/a.ts', 10)]),
+      ];
+      const learned = pattern([['c', 'src/a.ts', 10]], 5);
+
+      new FixHistory(fixes).annotatePatterns([learned], fixes);
+
+      assert.deepStrictEqual(learned.commits[0].fix_chain, [sha('a'), sha('b')]);
+      assert.strictEqual(learned.risk_base, 7);
+    });
+
+    test('the boost never takes risk past 10', () => {
+      const fixes = [
+        commit('b', 10, 'fix: attempt two', [rewrite('src/a.ts', 10)]),
+        commit('a', 1, 'fix: attempt one', [rewrite('src/a.ts', 10)]),
+      ];
+      const learned = pattern([['b', 'src/a.ts', 10]], 10);
+
+      new FixHistory(fixes).annotatePatterns([learned], fixes);
+
+      assert.strictEqual(learned.risk_base, 10);
+    });
+
+    test('fixes further apart than the window or on other lines do not chain', () => {
+      const fixes = [
+        commit('c', 60, 'fix: much later', [rewrite('src/a.ts', 10)]),
+        commit('b', 5, 'fix: elsewhere', [rewrite('src/a.ts', 40)]),
+        commit('a', 1, 'fix: first', [rewrite('src/a.ts', 10)]),
+      ];
+      const learned = pattern([
+        ['c', 'src/a.ts', 10],
+        ['b', 'src/a.ts', 40],
+      ]);
+
+      new FixHistory(fixes).annotatePatterns([learned], fixes);
+
+      assert.ok(learned.commits.every((ref) => ref.fix_chain === undefined));
+      assert.strictEqual(learned.risk_base, 5);
+    });
+
+    test('follows a rename between the attempts', () => {
+      const fixes = [
+        commit('b', 10, 'fix: attempt two', [rewrite('src/new.ts', 10, 'src/old.ts')]),
+        commit('a', 1, 'fix: attempt one', [rewrite('src/old.ts', 10)]),
+      ];
+      const learned = pattern([['b', 'src/new.ts', 10]]);
+
+      new FixHistory(fixes).annotatePatterns([learned], fixes);
+
+      assert.deepStrictEqual(learned.commits[0].fix_chain, [sha('a')]);
+    });
+
+    test('a reference only takes the chain of its own commit, file and lines', () => {
+      const fixes = [
+        commit('b', 10, 'fix: attempt two', [rewrite('src/a.ts', 10), rewrite('src/other.ts', 10)]),
+        commit('a', 1, 'fix: attempt one', [rewrite('src/a.ts', 10)]),
+      ];
+      const learned = pattern([
+        ['b', 'src/other.ts', 10],
+        ['b', 'src/a.ts', 30],
+        ['a', 'src/other.ts', 10],
+      ]);
+
+      new FixHistory(fixes).annotatePatterns([learned], fixes);
+
+      assert.ok(learned.commits.every((ref) => ref.fix_chain === undefined));
+
+      const nearby = pattern([['b', 'src/a.ts', 12]]);
+      new FixHistory(fixes).annotatePatterns([nearby], fixes);
+      assert.deepStrictEqual(nearby.commits[0].fix_chain, [sha('a')]);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import * as assert from 'assert';
+import { GitLogParser, parseUnifiedDiff } from '../engine/gitLogParser';
+import { GitHubCommit } from '../types';
+
+/** Header and message of one commit, laid out as GIT_LOG_FORMAT prints them */
+const commitHeader = (sha: string, message: string) => [
+  `\x1d${sha}\x1fJane Doe\x1fjane@example.com\x1f2025-01-01T00:00:00Z`,
+  ...message.split('\n'),
+  '',
+  '\x1e',
+];
+
+function parse(lines: string[], maxFileDiffBytes = 1024, truncatedLines: number[] = []): GitHubCommit[] {
+  const commits: GitHubCommit[] = [];
+  const parser = new GitLogParser((commit) => commits.push(commit), { maxFileDiffBytes });
+  lines.forEach((line, index) => parser.push(line, truncatedLines.includes(index)));
+  parser.end();
+  return commits;
+}
+
+const modified = (file: string, removed: string, added: string) => [
+  `diff --git a/${file} b/${file}`,
+  'index 1111111..2222222 100644',
+  `--- a/${file}`,
+  `+++ b/${file}`,
+  '@@ -1,2 +1,2 @@',
+  ' keep();',
+  `-${removed}`,
+  `+${added}`,
+];
+
+suite('GitLogParser', () => {
+  test('splits a stream into commits with their messages, authors and files', () => {
+    const commits = parse([
+      ...commitHeader('aaaa111', 'fix: guard the profile\n\nFixes #12'),
+      '',
+      ...modified('src/a.ts', 'const n = user.profile.name;', 'const n = user.profile?.name;'),
+      ...modified('src/b.ts', 'old();', 'fresh();'),
+      ...commitHeader('bbbb222', 'chore: bump version'),
+      ...commitHeader('cccc333', 'fix: close the handle'),
+      '',
+      ...modified('src/c.ts', 'open();', 'open().close();'),
+    ]);
+
+    assert.deepStrictEqual(
+      commits.map((c) => [c.sha, c.commit.message, c.files!.map((f) => f.filename)]),
+      [
+        ['aaaa111', 'fix: guard the profile\n\nFixes #12', ['src/a.ts', 'src/b.ts']],
+        ['bbbb222', 'chore: bump version', []],
+        ['cccc333', 'fix: close the handle', ['src/c.ts']],
+      ]
+    );
+    assert.deepStrictEqual(commits[0].commit.author, { name: 'Jane Doe', email: 'jane@example.com', date: '2025-01-01T00:00:00Z' });
+    assert.deepStrictEqual(
+      [commits[0].files![0].additions, commits[0].files![0].deletions, commits[0].files![0].status],
+      [1, 1, 'modified']
+    );
+    assert.strictEqual(
+      commits[0].files![0].patch,
+      ['@@ -1,2 +1,2 @@', ' keep();', '-const n = user.profile.name;', '+const n = user.profile?.name;'].join('\n')
+    );
+  });
+
+  test('records renames and copies with the previous name', () => {
+    const [commit] = parse([
+      ...commitHeader('aaaa111', 'fix: rename and patch'),
+      'diff --git a/src/old.ts b/src/new.ts',
+      'similarity index 90%',
+      'rename from src/old.ts',
+      'rename to src/new.ts',
+      '--- a/src/old.ts',
+      '+++ b/src/new.ts',
+      '@@ -1 +1 @@',
+      '-a();',
+      '+b();',
+      'diff --git a/src/base.ts b/src/copy.ts',
+      'similarity index 80%',
+      'copy from src/base.ts',
+      'copy to src/copy.ts',
+      '--- a/src/base.ts',
+      '+++ b/src/copy.ts',
+      '@@ -1 +1 @@',
+      '-c();',
+      '+d();',
+    ]);
+
+    assert.deepStrictEqual(
+      commit.files!.map((f) => [f.status, f.previous_filename, f.filename]),
+      [
+        ['renamed', 'src/old.ts', 'src/new.ts'],
+        ['copied', 'src/base.ts', 'src/copy.ts'],
+      ]
+    );
+  });
+
+  test('marks added and deleted files', () => {
+    const [commit] = parse([
+      ...commitHeader('aaaa111', 'fix: replace the helper'),
+      'diff --git a/src/new.ts b/src/new.ts',
+      'new file mode 100644',
+      '--- /dev/null',
+      '+++ b/src/new.ts',
+      '@@ -0,0 +1 @@',
+      '+helper();',
+      'diff --git a/src/gone.ts b/src/gone.ts',
+      'deleted file mode 100644',
+      '--- a/src/gone.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-helper();',
+    ]);
+
+    assert.deepStrictEqual(
+      commit.files!.map((f) => [f.filename, f.status]),
+      [
+        ['src/new.ts', 'added'],
+        ['src/gone.ts', 'removed'],
+      ]
+    );
+  });
+
+  test('skips binary files and keeps the text files around them', () => {
+    const [commit] = parse([
+      ...commitHeader('aaaa111', 'fix: new logo and a guard'),
+      'diff --git a/logo.png b/logo.png',
+      'index 1111111..2222222 100644',
+      'Binary files a/logo.png and b/logo.png differ',
+      'diff --git a/font.woff b/font.woff',
+      'index 3333333..4444444 100644',
+      'GIT binary patch',
+      'literal 12',
+      'zcmZ?wbhEHbRA5kG',
+      ...modified('src/a.ts', 'a();', 'b();'),
+    ]);
+
+    assert.deepStrictEqual(
+      commit.files!.map((f) => f.filename),
+      ['src/a.ts']
+    );
+  });
+
+  test('skips a file with a line cut off by the stream, but not the rest of the commit', () => {
+    const lines = [
+      ...commitHeader('aaaa111', 'fix: rebuild the bundle'),
+      ...modified('dist/bundle.js', 'var a=1;', 'var a=2;'),
+      ...modified('src/a.ts', 'a();', 'b();'),
+    ];
+
+    const [commit] = parse(lines, 1024, [lines.indexOf('+var a=2;')]);
+
+    assert.deepStrictEqual(
+      commit.files!.map((f) => f.filename),
+      ['src/a.ts']
+    );
+  });
+
+  test('skips a file whose patch is over the size limit, counted in UTF-8 bytes', () => {
+    // 40 characters, but 120 bytes
+    const wide = '€'.repeat(40);
+    const [commit] = parse(
+      [...commitHeader('aaaa111', 'fix: translations'), ...modified('src/i18n.ts', wide, `${wide}!`), ...modified('src/a.ts', 'a();', 'b();')],
+      200
+    );
+
+    assert.deepStrictEqual(
+      commit.files!.map((f) => f.filename),
+      ['src/a.ts']
+    );
+  });
+
+  test('skips combined merge diffs', () => {
+    const [commit] = parse([
+      ...commitHeader('aaaa111', 'Merge branch feature'),
+      'diff --cc src/conflict.ts',
+      'index 1111111,2222222..3333333',
+      '--- a/src/conflict.ts',
+      '+++ b/src/conflict.ts',
+      '@@@ -1,1 -1,1 +1,1 @@@',
+      '- a();',
+      ' -b();',
+      '++c();',
+      ...modified('src/a.ts', 'a();', 'b();'),
+    ]);
+
+    assert.deepStrictEqual(
+      commit.files!.map((f) => f.filename),
+      ['src/a.ts']
+    );
+  });
+
+  test('parseUnifiedDiff reads a hosted diff with CRLF line endings', () => {
+    const files = parseUnifiedDiff('aaaa111', modified('src/a.ts', 'a();', 'b();').join('\r\n'));
+
+    assert.strictEqual(files.length, 1);
+    assert.strictEqual(files[0].patch, ['@@ -1,2 +1,2 @@', ' keep();', '-a();', '+b();'].join('\n'));
+  });
+});
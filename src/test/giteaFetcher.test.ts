@@ -0,0 +1,155 @@
+import * as assert from 'assert';
+import { GiteaFetcher } from '../engine/giteaFetcher';
+import { GitHubCommit } from '../types';
+import pull from './fixtures/gitea/commit_pull.json';
+import issue from './fixtures/gitea/issue.json';
+import { MockServer } from './mockServer';
+
+const REPO = '/api/v1/repos/owner/repo';
+
+const commit = (n: number) => ({
+  sha: `${n}`.padStart(40, 'b'),
+  commit: {
+    message: `Commit ${n}`,
+    author: { name: 'Jane Doe', email: 'jane@example.com', date: '2025-01-01T00:00:00.000Z' },
+  },
+  // Extras Gitea may send anyway; the source drops them
+  stats: { total: 2, additions: 1, deletions: 1 },
+});
+
+// As served by `/git/commits/{sha}.diff`
+const DIFF = [
+  'diff --git a/src/app.ts b/src/app.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/app.ts',
+  '+++ b/src/app.ts',
+  '@@ -1,3 +1,3 @@',
+  ' const user = load();',
+  '-const name = user.profile.name;',
+  '+const name = user.profile?.name;',
+  ' render(name);',
+  'diff --git a/lib/util.ts b/src/util.ts',
+  'similarity index 90%',
+  'rename from lib/util.ts',
+  'rename to src/util.ts',
+  'index 3333333..4444444 100644',
+  '--- a/lib/util.ts',
+  '+++ b/src/util.ts',
+  '@@ -1 +1 @@',
+  '-export const a = 1;',
+  '+export const a = 2;',
+  'diff --git a/logo.png b/logo.png',
+  'new file mode 100644',
+  'index 0000000..5555555',
+  'Binary files /dev/null and b/logo.png differ',
+  '',
+].join('\r\n');
+
+suite('GiteaFetcher', () => {
+  let server: MockServer;
+  let fetcher: GiteaFetcher;
+
+  setup(async () => {
+    server = await MockServer.start();
+    fetcher = new GiteaFetcher('gitea-secret', 'owner', 'repo', server.url('/api/v1'));
+  });
+
+  teardown(async () => {
+    await server.close();
+  });
+
+  test("pages through commits with the token, at Gitea's page size", async () => {
+    server.route(`${REPO}/commits`, ({ query }) => {
+      const limit = Number(query.get('limit'));
+      const start = (Number(query.get('page')) - 1) * limit;
+      return { body: Array.from({ length: 70 }, (_, i) => commit(70 - i)).slice(start, start + limit) };
+    });
+
+    const commits = await fetcher.fetchCommits(100);
+
+    assert.strictEqual(commits.length, 70);
+    assert.deepStrictEqual(commits[0], { sha: commit(70).sha, commit: commit(70).commit });
+    const requests = server.requestsTo(`${REPO}/commits`);
+    assert.deepStrictEqual(
+      requests.map((r) => [r.query.get('page'), r.query.get('limit'), r.query.get('files')]),
+      [
+        ['1', '50', 'false'],
+        ['2', '50', 'false'],
+      ]
+    );
+    assert.ok(requests.every((r) => r.headers.authorization === 'token gitea-secret'));
+  });
+
+  test('parses the .diff of a commit into files', async () => {
+    const sha = commit(1).sha;
+    server.route(`${REPO}/git/commits/${sha}`, { body: commit(1) });
+    server.route(`${REPO}/git/commits/${sha}.diff`, { body: DIFF });
+
+    const details = await fetcher.fetchCommitDetails(sha);
+
+    assert.strictEqual(details.commit.message, 'Commit 1');
+    assert.deepStrictEqual(
+      details.files?.map((f) => [f.filename, f.status, f.previous_filename, f.additions, f.deletions]),
+      [
+        ['src/app.ts', 'modified', undefined, 1, 1],
+        ['src/util.ts', 'renamed', 'lib/util.ts', 1, 1],
+      ]
+    );
+    assert.strictEqual(
+      details.files?.[0].patch,
+      '@@ -1,3 +1,3 @@\n const user = load();\n-const name = user.profile.name;\n+const name = user.profile?.name;\n render(name);'
+    );
+  });
+
+  test('collects renames commit by commit from the compare API', async () => {
+    const [head, middle, base] = [commit(3), commit(2), commit(1)];
+    server.route(`${REPO}/compare/${base.sha}...${head.sha}`, {
+      body: {
+        commits: [
+          { sha: middle.sha, files: [{ filename: 'src/util.ts', status: 'renamed' }] },
+          { sha: head.sha, files: [{ filename: 'src/app.ts', status: 'modified' }] },
+        ],
+      },
+    });
+    server.route(`${REPO}/git/commits/${middle.sha}.diff`, { body: DIFF });
+
+    const paths = await fetcher.fetchPathHistory([head, middle, base], []);
+
+    assert.strictEqual(paths.size, 1);
+    assert.strictEqual(paths.resolve('lib/util.ts', base.sha), 'src/util.ts');
+    // The commit after the rename already used the new path
+    assert.strictEqual(paths.resolve('lib/util.ts', head.sha), 'lib/util.ts');
+    assert.strictEqual(server.requestsTo(`${REPO}/git/commits/${head.sha}.diff`).length, 0);
+  });
+
+  test('reads labels of the pull request and of the issue it closes', async () => {
+    const sha = commit(1).sha;
+    server.route(`${REPO}/commits/${sha}/pull`, { body: pull });
+    server.route(`${REPO}/issues/12`, { body: issue });
+    const fix: GitHubCommit = { sha, commit: { message: 'Guard the profile', author: { name: 'Jane Doe', date: '' } } };
+
+    await fetcher.fetchLabelEvidence([fix]);
+
+    assert.deepStrictEqual(fix.label_evidence, {
+      pull_request: {
+        number: 9,
+        title: 'Guard against a missing profile',
+        url: 'https://gitea.example.com/team/repo/pulls/9',
+        labels: ['Kind/Bug'],
+      },
+      issues: [{ number: 12, labels: ['Kind/Bug', 'Priority/High'] }],
+    });
+  });
+
+  test('a commit without a pull request still gets the issues its message closes', async () => {
+    const sha = commit(2).sha;
+    server.route(`${REPO}/issues/12`, { body: issue });
+    const fix: GitHubCommit = { sha, commit: { message: 'Guard the profile\n\nFixes #12', author: { name: 'Jane Doe', date: '' } } };
+
+    await fetcher.fetchLabelEvidence([fix]);
+
+    assert.strictEqual(fix.label_evidence?.pull_request, undefined);
+    assert.deepStrictEqual(fix.label_evidence?.issues.map((i) => i.number), [12]);
+    assert.strictEqual(server.requestsTo(`${REPO}/commits/${sha}/pull`).length, 1);
+  });
+});
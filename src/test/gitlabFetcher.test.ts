@@ -0,0 +1,156 @@
+import * as assert from 'assert';
+import { GitLabFetcher } from '../engine/gitlabFetcher';
+import { GitHubCommit } from '../types';
+import mergeRequests from './fixtures/gitlab/commit_merge_requests.json';
+import issue from './fixtures/gitlab/issue.json';
+import { MockServer } from './mockServer';
+
+const PROJECT = '/gitlab/api/v4/projects/group%2Fsub%2Fproject';
+
+const commit = (n: number) => ({
+  id: `${n}`.padStart(40, 'a'),
+  message: `Commit ${n}`,
+  author_name: 'Jane Doe',
+  author_email: 'jane@example.com',
+  authored_date: '2025-01-01T00:00:00.000Z',
+});
+
+/** Commits 1..count, newest first, served in pages */
+function history(server: MockServer, count: number): void {
+  server.route(`${PROJECT}/repository/commits`, ({ query }) => {
+    const perPage = Number(query.get('per_page'));
+    const start = (Number(query.get('page')) - 1) * perPage;
+    const ids = Array.from({ length: count }, (_, i) => count - i).slice(start, start + perPage);
+    return { body: ids.map(commit) };
+  });
+}
+
+suite('GitLabFetcher', () => {
+  let server: MockServer;
+  let fetcher: GitLabFetcher;
+
+  setup(async () => {
+    server = await MockServer.start();
+    // Self-hosted under a path prefix, with the project in a subgroup
+    fetcher = new GitLabFetcher('glpat-secret', 'group/sub/project', server.url('/gitlab/api/v4'));
+  });
+
+  teardown(async () => {
+    await server.close();
+  });
+
+  test('pages through commits with the private token', async () => {
+    history(server, 130);
+
+    const commits = await fetcher.fetchCommits(120);
+
+    assert.strictEqual(commits.length, 120);
+    assert.strictEqual(commits[0].sha, commit(130).id);
+    assert.strictEqual(commits[0].commit.author.email, 'jane@example.com');
+    const requests = server.requestsTo(`${PROJECT}/repository/commits`);
+    assert.deepStrictEqual(
+      requests.map((r) => [r.query.get('page'), r.query.get('per_page')]),
+      [
+        ['1', '100'],
+        ['2', '100'],
+      ]
+    );
+    assert.ok(requests.every((r) => r.headers['private-token'] === 'glpat-secret'));
+  });
+
+  test('stops at the last scanned commit', async () => {
+    history(server, 30);
+
+    const commits = await fetcher.fetchCommits(100, commit(27).id);
+
+    assert.deepStrictEqual(
+      commits.map((c) => c.commit.message),
+      ['Commit 30', 'Commit 29', 'Commit 28']
+    );
+  });
+
+  test('a refresh pages past maxCommits until it reaches the last scanned commit', async () => {
+    history(server, 260);
+
+    const commits = await fetcher.fetchCommits(50, commit(10).id);
+
+    assert.strictEqual(commits.length, 250);
+    assert.strictEqual(commits[249].commit.message, 'Commit 11');
+    assert.strictEqual(server.requestsTo(`${PROJECT}/repository/commits`).length, 3);
+  });
+
+  test("pages through a commit's diffs and maps their status", async () => {
+    const sha = commit(1).id;
+    server.route(`${PROJECT}/repository/commits/${sha}`, { body: commit(1) });
+    server.route(`${PROJECT}/repository/commits/${sha}/diff`, ({ query }) => {
+      if (query.get('page') === '1') {
+        const diffs = Array.from({ length: 100 }, (_, i) => ({
+          old_path: `src/f${i}.ts`,
+          new_path: `src/f${i}.ts`,
+          new_file: false,
+          renamed_file: false,
+          deleted_file: false,
+          diff: '@@ -1 +1 @@\n-a\n+b\n',
+        }));
+        return { body: diffs };
+      }
+      return {
+        body: [
+          { old_path: 'old.ts', new_path: 'new.ts', new_file: false, renamed_file: true, deleted_file: false, diff: '@@ -1 +1 @@\n-x\n+y\n' },
+          { old_path: 'img.png', new_path: 'img.png', new_file: true, renamed_file: false, deleted_file: false, diff: '' },
+        ],
+      };
+    });
+
+    const details = await fetcher.fetchCommitDetails(sha);
+
+    assert.strictEqual(details.files?.length, 101);
+    assert.deepStrictEqual(details.files?.[0], {
+      filename: 'src/f0.ts',
+      previous_filename: undefined,
+      status: 'modified',
+      additions: 1,
+      deletions: 1,
+      changes: 2,
+      patch: '@@ -1 +1 @@\n-a\n+b',
+    });
+    assert.strictEqual(details.files?.[100].status, 'renamed');
+    assert.strictEqual(details.files?.[100].previous_filename, 'old.ts');
+  });
+
+  test('reports renames from the compare API', async () => {
+    history(server, 3);
+    server.route(`${PROJECT}/repository/compare`, {
+      body: {
+        diffs: [{ old_path: 'lib/a.ts', new_path: 'src/a.ts', new_file: false, renamed_file: true, deleted_file: false, diff: '' }],
+      },
+    });
+    const commits = await fetcher.fetchCommits(3);
+
+    const paths = await fetcher.fetchPathHistory(commits, []);
+
+    assert.strictEqual(paths.resolve('lib/a.ts', commit(1).id), 'src/a.ts');
+    const [compare] = server.requestsTo(`${PROJECT}/repository/compare`);
+    assert.strictEqual(compare.query.get('from'), commit(1).id);
+    assert.strictEqual(compare.query.get('to'), commit(3).id);
+  });
+
+  test('reads labels of the merged merge request and the type of the issue it closes', async () => {
+    const sha = commit(1).id;
+    server.route(`${PROJECT}/repository/commits/${sha}/merge_requests`, { body: mergeRequests });
+    server.route(`${PROJECT}/issues/12`, { body: issue });
+    const fix: GitHubCommit = { sha, commit: { message: 'Guard the profile', author: { name: 'Jane Doe', date: '' } } };
+
+    await fetcher.fetchLabelEvidence([fix]);
+
+    assert.deepStrictEqual(fix.label_evidence, {
+      pull_request: {
+        number: 8,
+        title: 'Guard against a missing profile',
+        url: 'https://gitlab.example.com/group/sub/project/-/merge_requests/8',
+        labels: ['regression', 'workflow::done'],
+      },
+      issues: [{ number: 12, labels: ['priority::1'], type: 'incident' }],
+    });
+  });
+});
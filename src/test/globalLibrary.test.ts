@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GlobalLibrary } from '../engine/globalLibrary';
+import { BugPattern } from '../types';
+
+const pattern = (id: string, risk: number, occurrences: number, extra: Partial<BugPattern> = {}): BugPattern => ({
+  id,
+  language: 'typescript',
+  regex: String.raw`\buser\.profile\.name\b`,
+  category: 'null_check_missing',
+  risk_base: risk,
+  commits: [{ sha: `${id}-sha`, file: 'src/a.ts', line: 1, message: 'fix crash' }],
+  occurrence_count: occurrences,
+  ...extra,
+});
+
+suite('GlobalLibrary', () => {
+  let storage: string;
+  const libraryFile = () => path.join(storage, 'pattern_library.json');
+  const open = (key: string, name = key) => new GlobalLibrary(storage, { key, name, source_repo: `acme/${name}` });
+
+  setup(() => {
+    storage = fs.mkdtempSync(path.join(os.tmpdir(), 'codeghost-library-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(storage, { recursive: true, force: true });
+  });
+
+  test('merges a pattern learned by several siblings, weighting risk by occurrences', () => {
+    open('web').contribute([pattern('pattern_shared', 9, 3), pattern('pattern_web', 5, 1)]);
+    open('api').contribute([pattern('pattern_shared', 5, 1)]);
+
+    const library = open('cli');
+    const shared = library.getPattern('pattern_shared')!;
+
+    assert.strictEqual(library.getSiblingCount(), 2);
+    assert.strictEqual(shared.occurrence_count, 4);
+    assert.strictEqual(shared.risk_base, 8);
+    assert.deepStrictEqual(shared.learned_in, ['web (acme/web)', 'api (acme/api)']);
+    assert.deepStrictEqual(
+      shared.commits.map((c) => c.sha),
+      ['pattern_shared-sha', 'pattern_shared-sha']
+    );
+    assert.deepStrictEqual(
+      library.getPatternsByLanguage('typescript', new Set()).map((p) => p.id),
+      ['pattern_shared', 'pattern_web']
+    );
+  });
+
+  test('never serves a workspace its own contribution or the ids it already has', () => {
+    open('web').contribute([pattern('pattern_shared', 9, 3), pattern('pattern_web', 5, 1)]);
+    const library = open('api');
+    library.contribute([pattern('pattern_api', 6, 1)]);
+
+    assert.strictEqual(library.getPattern('pattern_api'), undefined);
+    assert.deepStrictEqual(
+      library.getPatternsByLanguage('typescript', new Set(['pattern_shared'])).map((p) => p.id),
+      ['pattern_web']
+    );
+    assert.deepStrictEqual(library.getPatternsByLanguage('python', new Set()), []);
+  });
+
+  test('only contributes patterns learned here and trusted', () => {
+    const contributed = open('web').contribute([
+      pattern('pattern_kept', 5, 1, { learned_in: ['elsewhere'] }),
+      pattern('pattern_pack', 5, 1, { origin: { pack: 'team', checksum: 'abc123', imported_at: '2025-01-01T00:00:00Z' } }),
+      pattern('pattern_quarantined', 5, 1, { quarantined: 'matched 40% of HEAD' }),
+      pattern('pattern_demoted', 5, 1, {
+        validation: { head_hits: 40, head_lines: 100, hit_rate: 0.4, status: 'demoted', validated_at: '2025-01-01T00:00:00Z' },
+      }),
+    ]);
+
+    assert.strictEqual(contributed, 1);
+    const saved = JSON.parse(fs.readFileSync(libraryFile(), 'utf-8'));
+    assert.deepStrictEqual(
+      saved.repos.web.patterns.map((p: BugPattern) => [p.id, p.learned_in]),
+      [['pattern_kept', undefined]]
+    );
+  });
+
+  test('replaces the file whole and keeps what other windows wrote since loading', () => {
+    const web = open('web');
+    open('api').contribute([pattern('pattern_api', 6, 1)]);
+
+    web.contribute([pattern('pattern_web', 5, 1)]);
+
+    assert.deepStrictEqual(fs.readdirSync(storage), ['pattern_library.json']);
+    const saved = JSON.parse(fs.readFileSync(libraryFile(), 'utf-8'));
+    assert.deepStrictEqual(Object.keys(saved.repos).sort(), ['api', 'web']);
+    assert.deepStrictEqual(
+      web.getPatternsByLanguage('typescript', new Set()).map((p) => p.id),
+      ['pattern_api']
+    );
+  });
+
+  test('a failed save leaves no temporary file behind', () => {
+    // A directory in the library's place makes the rename fail
+    const blocked = path.join(storage, 'blocked');
+    fs.mkdirSync(path.join(blocked, 'pattern_library.json'), { recursive: true });
+
+    assert.throws(
+      () => new GlobalLibrary(blocked, { key: 'web', name: 'web' }).contribute([pattern('pattern_web', 5, 1)]),
+      /^Error: Failed to save the global pattern library/
+    );
+    assert.deepStrictEqual(fs.readdirSync(blocked), ['pattern_library.json']);
+  });
+});
@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import { GoDetectors } from '../engine/goDetectors';
+import { PatternExtractor } from '../engine/patternExtractor';
+import { CodeScanner } from '../engine/scanner';
+import { GitHubCommit } from '../types';
+
+const fixCommit = (patch: string): GitHubCommit => ({
+  sha: 'aaaa111',
+  commit: { message: 'fix: panic on first write', author: { name: 'Jane Doe', date: '2025-01-01T00:00:00Z' } },
+  files: [{ filename: 'cache/cache.go', status: 'modified', additions: 1, deletions: 0, changes: 1, patch }],
+});
+
+suite('GoDetectors', () => {
+  const detectors = new GoDetectors();
+
+  suite('ignored errors', () => {
+    test('learns a call whose error was discarded, in each shape', () => {
+      for (const [buggy, fixed] of [
+        ['data, _ := os.ReadFile(path)', 'data, err := os.ReadFile(path)'],
+        ['_ = os.Remove(path)', 'if err := os.Remove(path); err != nil {'],
+        ['os.Remove(path)', 'err = os.Remove(path)'],
+      ]) {
+        const result = detectors.detect(buggy, fixed);
+        assert.strictEqual(result?.category, 'missing_error_handling', buggy);
+
+        const regex = new RegExp(result!.regex);
+        assert.ok(regex.test(buggy), buggy);
+        assert.ok(!regex.test(fixed), fixed);
+      }
+    });
+
+    test('does not fire when the error was already handled or the call changed', () => {
+      assert.strictEqual(detectors.detect('data, err := os.ReadFile(path)', 'data, err := os.ReadFile(clean)'), null);
+      assert.strictEqual(detectors.detect('data, _ := os.ReadFile(path)', 'data, err := ioutil.ReadFile(path)'), null);
+    });
+  });
+
+  test('learns a defer in a loop, tied to the loop', () => {
+    const result = detectors.detect('defer f.Close()', 'f.Close()');
+
+    assert.strictEqual(result?.category, 'memory_leak');
+    assert.ok(new RegExp(result!.regex).test('\tdefer f.Close()'));
+
+    const source = ['func read(paths []string) {', '\tfor _, p := range paths {', '\t\tf, _ := os.Open(p)', '\t\tdefer f.Close()', '\t}', '}'];
+    assert.ok(CodeScanner.isEnclosedBy(source, 3, new RegExp(result!.enclosing!)));
+    assert.ok(!CodeScanner.isEnclosedBy(['func read(p string) {', '\tdefer f.Close()', '}'], 1, new RegExp(result!.enclosing!)));
+    assert.strictEqual(detectors.detect('defer f.Close()', 'defer g.Close()'), null);
+  });
+
+  test('learns a goroutine that captured its loop variable', () => {
+    const result = detectors.detect('go func() {', 'go func(item Item) {');
+
+    assert.strictEqual(result?.category, 'race_condition');
+    assert.ok(new RegExp(result!.regex).test('\tgo func() {'));
+    assert.ok(!new RegExp(result!.regex).test('\tgo func(item Item) {'));
+    assert.ok(new RegExp(result!.enclosing!).test('for _, item := range items {'));
+    assert.ok(!new RegExp(result!.enclosing!).test('for i := 0; i < n; i++ {'));
+  });
+
+  test('learns a map declared with var', () => {
+    const result = detectors.detect('var counts map[string]int', 'counts := make(map[string]int)');
+
+    assert.strictEqual(result?.category, 'null_check_missing');
+    assert.ok(new RegExp(result!.regex).test('\tvar seen map[string]bool'));
+    assert.ok(!new RegExp(result!.regex).test('\tvar seen = map[string]bool{}'));
+    assert.strictEqual(detectors.detect('var counts map[string]int', 'var counts map[string]int64'), null);
+  });
+
+  suite('insertions', () => {
+    test('a nil check added above an unchanged map write', () => {
+      const patch = [
+        '@@ -10,3 +10,6 @@ func (c *Cache) Put(key string, value []byte) {',
+        ' \tc.mu.Lock()',
+        '+\tif c.entries == nil {',
+        '+\t\tc.entries = make(map[string][]byte)',
+        '+\t}',
+        ' \tc.entries[key] = value',
+        ' \tc.mu.Unlock()',
+      ].join('\n');
+
+      const [learned] = new PatternExtractor().extractPatterns([fixCommit(patch)]);
+
+      assert.strictEqual(learned.category, 'null_check_missing');
+      const regex = new RegExp(learned.regex);
+      assert.ok(regex.test('\tc.entries[name] = data'));
+      assert.ok(!regex.test('\tv := c.entries[name]'));
+    });
+
+    test('a copy of the loop variable added above an unchanged go func()', () => {
+      const patch = [
+        '@@ -20,3 +20,4 @@ func fetchAll(urls []string) {',
+        ' \tfor _, url := range urls {',
+        '+\t\turl := url',
+        ' \t\tgo func() {',
+        ' \t\t\tfetch(url)',
+      ].join('\n');
+
+      const [learned] = new PatternExtractor().extractPatterns([fixCommit(patch)]);
+
+      assert.strictEqual(learned.category, 'race_condition');
+      assert.strictEqual(learned.commits[0].line, 21);
+      assert.ok(new RegExp(learned.enclosing!).test('\tfor _, url := range urls {'));
+    });
+  });
+});
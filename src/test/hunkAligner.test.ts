@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import { HunkAligner } from '../engine/hunkAligner';
+
+const align = (patch: string) => new HunkAligner().align(HunkAligner.parse(patch)[0]);
+
+suite('HunkAligner', () => {
+  test('parse numbers lines on both sides and skips "no newline" markers', () => {
+    const [first, second] = HunkAligner.parse(
+      ['@@ -10,2 +10,2 @@', ' keep();', '-old();', '+new();', '\\ No newline at end of file', '@@ -40 +40,2 @@', '+added();', ' tail();'].join(
+        '\n'
+      )
+    );
+
+    assert.deepStrictEqual(first.lines, [
+      { type: 'context', text: 'keep();', oldLine: 10, newLine: 10 },
+      { type: 'removed', text: 'old();', oldLine: 11 },
+      { type: 'added', text: 'new();', newLine: 11 },
+    ]);
+    assert.deepStrictEqual(second.lines[0], { type: 'added', text: 'added();', newLine: 40 });
+  });
+
+  test('pairs each removed line with its most similar added line, in order', () => {
+    const aligned = align(
+      [
+        '@@ -1,2 +1,3 @@',
+        '-const name = user.profile.name;',
+        '-render(name, options);',
+        '+if (!user) return;',
+        '+const name = user.profile?.name;',
+        '+render(name, options ?? {});',
+      ].join('\n')
+    );
+
+    assert.deepStrictEqual(
+      aligned.pairs.map((p) => [p.removed.oldLine, p.added.text]),
+      [
+        [1, 'const name = user.profile?.name;'],
+        [2, 'render(name, options ?? {});'],
+      ]
+    );
+    assert.deepStrictEqual(
+      aligned.lines.map((l) => l.kind),
+      ['inserted', 'changed', 'changed']
+    );
+  });
+
+  test('re-indented lines count as context, unrelated ones as inserted', () => {
+    const aligned = align(
+      ['@@ -1 +1,3 @@', '-riskyCall(input);', '+try {', '+  riskyCall(input);', '+} catch (e) { log(e); }'].join('\n')
+    );
+
+    assert.deepStrictEqual(aligned.pairs, []);
+    assert.deepStrictEqual(
+      aligned.lines.map((l) => [l.kind, l.text, l.oldLine]),
+      [
+        ['inserted', 'try {', undefined],
+        ['context', 'riskyCall(input);', 1],
+        ['inserted', '} catch (e) { log(e); }', undefined],
+      ]
+    );
+  });
+
+  test('similarity ignores whitespace and tells rewrites from unrelated lines', () => {
+    assert.strictEqual(HunkAligner.similarity('a  =  b;', 'a = b;'), 1);
+    assert.ok(HunkAligner.similarity('const x = items[i];', 'const x = items[i - 1];') >= 0.5);
+    assert.ok(HunkAligner.similarity('const x = items[i];', 'return fetchAll();') < 0.5);
+  });
+
+  test('pairs very large blocks by position instead of comparing every line', () => {
+    const count = 3000;
+    const removed = Array.from({ length: count }, (_, i) => `-const value${i} = input.field${i};`);
+    const added = Array.from({ length: count }, (_, i) =>
+      i === 5 ? '+unrelatedCall();' : `+const value${i} = input?.field${i};`
+    );
+
+    const started = Date.now();
+    const aligned = align([`@@ -1,${count} +1,${count} @@`, ...removed, ...added].join('\n'));
+
+    assert.ok(Date.now() - started < 2000);
+    assert.strictEqual(aligned.pairs.length, count - 1);
+    assert.strictEqual(aligned.pairs[0].removed.oldLine, 1);
+    assert.strictEqual(aligned.pairs[5].removed.oldLine, 7);
+    assert.strictEqual(aligned.lines[5].kind, 'inserted');
+  });
+});
@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalGitFetcher } from '../engine/localGitFetcher';
+
+suite('LocalGitFetcher', () => {
+  let workspace: string;
+
+  setup(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'codeghost-git-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=Jane Doe', '-c', 'user.email=jane@example.com', ...args], {
+      cwd: workspace,
+      encoding: 'utf-8',
+    }).trim();
+
+  /** Commit `count` changes to one file and return their SHAs, oldest first */
+  const commitHistory = (count: number) => {
+    git('init', '--quiet');
+    const shas: string[] = [];
+    for (let i = 1; i <= count; i++) {
+      fs.writeFileSync(path.join(workspace, 'a.ts'), `export const a = ${i};\n`);
+      git('add', 'a.ts');
+      git('commit', '--quiet', '-m', `Commit ${i}`);
+      shas.push(git('rev-parse', 'HEAD'));
+    }
+    return shas;
+  };
+
+  test('a full scan reads the newest maxCommits commits', async () => {
+    const shas = commitHistory(5);
+
+    const commits = await new LocalGitFetcher(workspace).fetchCommits(2);
+
+    assert.deepStrictEqual(
+      commits.map((c) => c.sha),
+      [shas[4], shas[3]]
+    );
+  });
+
+  test('a refresh reads every commit since the last scanned one, even more than maxCommits', async () => {
+    const shas = commitHistory(6);
+
+    const commits = await new LocalGitFetcher(workspace).fetchCommits(2, shas[1]);
+
+    assert.deepStrictEqual(
+      commits.map((c) => c.commit.message),
+      ['Commit 6', 'Commit 5', 'Commit 4', 'Commit 3']
+    );
+  });
+
+  test('rejects option-like refs before running git', async () => {
+    for (const ref of ['--output=/tmp/log', '^--all', 'main..-x', 'main branch']) {
+      const fetcher = new LocalGitFetcher(workspace, { refs: [ref] });
+      await assert.rejects(fetcher.fetchCommits(10), /Invalid ref/);
+    }
+    assert.deepStrictEqual(fs.readdirSync(workspace), []);
+  });
+});
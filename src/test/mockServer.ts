@@ -0,0 +1,91 @@
+/**
+ * Mock HTTP Server
+ * Local stand-in for a hosting service's API, for testing commit sources
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+export interface RecordedRequest {
+  method: string;
+  /** Path as sent, still percent-encoded */
+  path: string;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+}
+
+export interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  /** Strings are sent as is, anything else as JSON */
+  body?: unknown;
+}
+
+type Handler = (request: RecordedRequest) => MockResponse;
+
+export class MockServer {
+  /** Every request received, in order */
+  readonly requests: RecordedRequest[] = [];
+  private routes = new Map<string, Handler>();
+
+  private constructor(private server: http.Server) {}
+
+  /**
+   * Start a server on a free local port
+   */
+  static async start(): Promise<MockServer> {
+    const server = http.createServer();
+    const mock = new MockServer(server);
+    server.on('request', (req, res) => mock.handle(req, res));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    return mock;
+  }
+
+  /**
+   * Base URL, optionally with a path prefix (e.g. `/api/v4`)
+   */
+  url(prefix = ''): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}${prefix}`;
+  }
+
+  /**
+   * Answer GET requests for `path`. Paths without a route get a 404.
+   */
+  route(path: string, response: MockResponse | Handler): void {
+    this.routes.set(path, typeof response === 'function' ? response : () => response);
+  }
+
+  /**
+   * Requests received for `path`
+   */
+  requestsTo(path: string): RecordedRequest[] {
+    return this.requests.filter((request) => request.path === path);
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const request: RecordedRequest = {
+      method: req.method || 'GET',
+      path: url.pathname,
+      query: url.searchParams,
+      headers: req.headers,
+    };
+    this.requests.push(request);
+
+    const handler = this.routes.get(request.path);
+    const response: MockResponse = handler ? handler(request) : { status: 404, body: { message: 'Not Found' } };
+    const text = typeof response.body === 'string';
+    const body = text ? (response.body as string) : JSON.stringify(response.body ?? null);
+
+    res.writeHead(response.status ?? 200, {
+      'Content-Type': text ? 'text/plain' : 'application/json',
+      ...response.headers,
+    });
+    res.end(body);
+  }
+}
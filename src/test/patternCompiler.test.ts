@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import { PatternCompiler } from '../engine/patternCompiler';
+import { BugPattern } from '../types';
+
+const pattern = (regex: string, enclosing?: string): BugPattern => ({
+  id: 'pattern_1',
+  language: 'typescript',
+  regex,
+  category: 'null_check_missing',
+  risk_base: 5,
+  commits: [],
+  occurrence_count: 1,
+  enclosing,
+});
+
+suite('PatternCompiler', () => {
+  test('accepts the shapes detectors learn', () => {
+    for (const source of [
+      String.raw`\buser\.profile\.name\b`,
+      String.raw`^\s*[\w.]+\s*=\s*open\s*\(`,
+      String.raw`\b(\w+)\[\1\.length\]`,
+      String.raw`([a-z]+,)*[a-z]+;`,
+      String.raw`\bJSON\.parse\([^)]*\)(?!\s*\.catch)`,
+      String.raw`\w+\s*\(`,
+      String.raw`^\s*except\s*:`,
+    ]) {
+      assert.strictEqual(PatternCompiler.check(source), undefined, source);
+    }
+  });
+
+  test('rejects nested quantifiers', () => {
+    assert.match(PatternCompiler.check('(a+)+b') ?? '', /nested quantifier in \(a\+\)\+/);
+    assert.match(PatternCompiler.check(String.raw`x(?:\s*\w+)*;`) ?? '', /nested quantifier/);
+  });
+
+  test('rejects repeated alternatives that match the same text', () => {
+    assert.match(PatternCompiler.check(String.raw`(\w|\d)+$`) ?? '', /repeated alternatives/);
+    assert.match(PatternCompiler.check(String.raw`(?:[a-z]|\w)*;`) ?? '', /repeated alternatives/);
+  });
+
+  test('rejects adjacent repeats over the same characters', () => {
+    assert.match(PatternCompiler.check(String.raw`=\s*\s*null`) ?? '', /adjacent quantifiers \\s\*\\s\*/);
+    assert.match(PatternCompiler.check(String.raw`x\w+\d+y`) ?? '', /adjacent quantifiers/);
+    // Bounded or disjoint repeats can't trade characters indefinitely
+    assert.strictEqual(PatternCompiler.check(String.raw`x\s*\w+y`), undefined);
+    assert.strictEqual(PatternCompiler.check(String.raw`x\s{0,2}\s*y`), undefined);
+  });
+
+  test('rejects a regex that matches an empty line', () => {
+    assert.match(PatternCompiler.check(String.raw`\s*`) ?? '', /matches an empty line/);
+    assert.match(PatternCompiler.check('foo|') ?? '', /matches an empty line/);
+  });
+
+  test('rejects invalid regexes', () => {
+    assert.match(PatternCompiler.check('user.profile(') ?? '', /^invalid regex/);
+  });
+
+  test('rejects a known catastrophic pattern but accepts its unambiguous rewrite', () => {
+    // On a line of letters without `!`, each extra letter doubles the work
+    assert.match(PatternCompiler.check(String.raw`^(\w+\s?)*!`) ?? '', /nested quantifier/);
+
+    const rewrite = String.raw`^(\w+\s)*\w+!`;
+    assert.strictEqual(PatternCompiler.check(rewrite), undefined);
+    const started = Date.now();
+    assert.strictEqual(new RegExp(rewrite).test('a'.repeat(5000)), false);
+    assert.ok(Date.now() - started < 1000);
+  });
+
+  suite('compile', () => {
+    test('reports the problem instead of a regex, including an unsafe enclosing regex', () => {
+      const compiler = new PatternCompiler();
+
+      assert.deepStrictEqual(Object.keys(compiler.compile(pattern('(a+)+b'))), ['problem']);
+      assert.match(compiler.compile(pattern(String.raw`\bfetch\(`, '(a|a)*b')).problem ?? '', /^enclosing repeated alternatives/);
+    });
+
+    test('compiles case-insensitively and caches until the sources change', () => {
+      const compiler = new PatternCompiler();
+      const learned = pattern(String.raw`\bfetch\(`, String.raw`^\s*async\b`);
+
+      const first = compiler.compile(learned);
+      assert.ok(first.regex?.test('FETCH(url)'));
+      assert.ok(first.enclosing?.test('  async function load() {'));
+      assert.strictEqual(compiler.compile(learned), first);
+
+      learned.regex = String.raw`\bget\(`;
+      assert.notStrictEqual(compiler.compile(learned), first);
+    });
+  });
+});
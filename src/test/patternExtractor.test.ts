@@ -0,0 +1,187 @@
+import * as assert from 'assert';
+import { PatternExtractor } from '../engine/patternExtractor';
+import { BugCategory, GitHubCommit } from '../types';
+
+const fixCommit = (filename: string, lines: string[]): GitHubCommit => ({
+  sha: 'aaaa111',
+  commit: { message: 'fix: security issue', author: { name: 'Jane Doe', date: '2025-01-01T00:00:00Z' } },
+  files: [{ filename, status: 'modified', additions: 1, deletions: 1, changes: 2, patch: ['@@ -1,1 +1,1 @@', ...lines].join('\n') }],
+});
+
+const learn = (filename: string, buggy: string, fixed: string) =>
+  new PatternExtractor().extractPatterns([fixCommit(filename, [`-${buggy}`, `+${fixed}`])]);
+
+/** One fix per security sink: the line before, the line after, and another line the pattern must flag */
+const SINK_FIXES: Array<{ file: string; buggy: string; fixed: string; flags: string; category: BugCategory }> = [
+  {
+    file: 'src/users.ts',
+    buggy: `const rows = await db.query("SELECT * FROM users WHERE id = " + id);`,
+    fixed: `const rows = await db.query("SELECT * FROM users WHERE id = ?", [id]);`,
+    flags: `db.query("SELECT name FROM orders WHERE id = " + orderId);`,
+    category: 'injection',
+  },
+  {
+    file: 'src/users.ts',
+    buggy: 'const rows = await db.query(`SELECT * FROM users WHERE name = ${name}`);',
+    fixed: 'const rows = await db.query(`SELECT * FROM users WHERE name = $1`, [name]);',
+    flags: 'db.query(`DELETE FROM sessions WHERE user = ${user}`);',
+    category: 'injection',
+  },
+  {
+    file: 'app/users.py',
+    buggy: `cursor.execute(f"SELECT * FROM users WHERE id = {user_id}")`,
+    fixed: `cursor.execute("SELECT * FROM users WHERE id = %s", (user_id,))`,
+    flags: `cursor.execute(f"DELETE FROM sessions WHERE user_id = {uid}")`,
+    category: 'injection',
+  },
+  {
+    file: 'app/users.py',
+    buggy: `cursor.execute("SELECT * FROM users WHERE id = %s" % user_id)`,
+    fixed: `cursor.execute("SELECT * FROM users WHERE id = %s", (user_id,))`,
+    flags: `cursor.execute("DELETE FROM users WHERE id = {}".format(user_id))`,
+    category: 'injection',
+  },
+  {
+    file: 'src/git.ts',
+    buggy: 'execSync(`git checkout ${branch}`);',
+    fixed: "execFileSync('git', ['checkout', branch]);",
+    flags: "exec('rm -rf ' + dir);",
+    category: 'injection',
+  },
+  { file: 'tools/run.py', buggy: 'os.system("convert " + path)', fixed: 'subprocess.run(["convert", path])', flags: 'os.system(cmd)', category: 'injection' },
+  {
+    file: 'tools/run.py',
+    buggy: 'subprocess.run(cmd, shell=True)',
+    fixed: 'subprocess.run(shlex.split(cmd))',
+    flags: 'subprocess.call(line, shell=True)',
+    category: 'injection',
+  },
+  { file: 'src/calc.ts', buggy: 'const value = eval(input);', fixed: 'const value = Number(input);', flags: 'return eval(expr);', category: 'injection' },
+  {
+    file: 'src/calc.ts',
+    buggy: "const fn = new Function('x', body);",
+    fixed: 'const fn = compile(body);',
+    flags: 'new Function(src)();',
+    category: 'injection',
+  },
+  {
+    file: 'src/view.ts',
+    buggy: 'el.innerHTML = comment.text;',
+    fixed: 'el.textContent = comment.text;',
+    flags: 'row.outerHTML += html;',
+    category: 'xss',
+  },
+  {
+    file: 'src/view.ts',
+    buggy: "list.insertAdjacentHTML('beforeend', item);",
+    fixed: "list.insertAdjacentHTML('beforeend', sanitizeHtml(item));",
+    flags: "node.insertAdjacentHTML('afterbegin', row);",
+    category: 'xss',
+  },
+  { file: 'src/view.ts', buggy: 'document.write(banner);', fixed: 'header.append(banner);', flags: 'document.writeln(html);', category: 'xss' },
+  {
+    file: 'src/Comment.tsx',
+    buggy: 'return <div dangerouslySetInnerHTML={{ __html: body }} />;',
+    fixed: 'return <div dangerouslySetInnerHTML={{ __html: sanitize(body) }} />;',
+    flags: '<p dangerouslySetInnerHTML={{ __html: text }} />',
+    category: 'xss',
+  },
+  { file: 'app/cache.py', buggy: 'data = pickle.loads(blob)', fixed: 'data = json.loads(blob)', flags: 'obj = cPickle.load(f)', category: 'unsafe_deserialization' },
+  {
+    file: 'app/config.py',
+    buggy: 'config = yaml.load(text)',
+    fixed: 'config = yaml.load(text, Loader=yaml.SafeLoader)',
+    flags: 'yaml.load(stream, Loader=yaml.FullLoader)',
+    category: 'unsafe_deserialization',
+  },
+  {
+    file: 'app/cache.py',
+    buggy: 'state = jsonpickle.decode(raw)',
+    fixed: 'state = json.loads(raw)',
+    flags: 'jsonpickle.decode(payload)',
+    category: 'unsafe_deserialization',
+  },
+  {
+    file: 'web/cart.php',
+    buggy: '$cart = unserialize($_COOKIE["cart"]);',
+    fixed: '$cart = json_decode($_COOKIE["cart"], true);',
+    flags: '$items = unserialize($raw);',
+    category: 'unsafe_deserialization',
+  },
+  {
+    file: 'src/Load.java',
+    buggy: 'ObjectInputStream in = new ObjectInputStream(socket.getInputStream());',
+    fixed: 'ValidatingObjectInputStream in = open(socket.getInputStream());',
+    flags: 'var in = new ObjectInputStream(file);',
+    category: 'unsafe_deserialization',
+  },
+  {
+    file: 'src/billing.ts',
+    buggy: "const apiKey = 'sk_live_51Habc123';",
+    fixed: 'const apiKey = process.env.STRIPE_KEY;',
+    flags: 'password: "hunter22hunter",',
+    category: 'secret_exposure',
+  },
+  {
+    file: 'src/auth.ts',
+    buggy: "logger.info('login', user.name, user.password);",
+    fixed: "logger.info('login', user.name);",
+    flags: "console.log('token', token);",
+    category: 'secret_exposure',
+  },
+  {
+    file: 'src/files.ts',
+    buggy: 'const file = path.join(root, name);',
+    fixed: 'const file = path.join(root, path.basename(name));',
+    flags: 'return path.join(uploads, name);',
+    category: 'path_traversal',
+  },
+];
+
+suite('PatternExtractor', () => {
+  suite('security sinks', () => {
+    for (const fix of SINK_FIXES) {
+      test(`${fix.category}: ${fix.buggy}`, () => {
+        const [learned] = learn(fix.file, fix.buggy, fix.fixed);
+
+        assert.strictEqual(learned?.category, fix.category);
+        const regex = new RegExp(learned.regex, 'i');
+        assert.ok(regex.test(fix.buggy), 'matches the buggy line');
+        assert.ok(regex.test(fix.flags), `matches ${fix.flags}`);
+        assert.ok(!regex.test(fix.fixed), 'misses the fixed line');
+      });
+    }
+
+    test('a SQL keyword in prose is not a query', () => {
+      const patterns = learn('src/help.ts', `const hint = "Select the rows from " + table;`, `const hint = "Choose the rows from " + table;`);
+
+      assert.ok(patterns.every((p) => p.category !== 'injection'));
+    });
+
+    test('a sink rewritten over several lines is learned', () => {
+      const [learned] = new PatternExtractor().extractPatterns([
+        fixCommit('src/users.ts', [
+          `-const rows = await db.query("SELECT * FROM users WHERE id = " + id);`,
+          '+const rows = await knex',
+          "+  .from('users')",
+          "+  .where({ id });",
+        ]),
+      ]);
+
+      assert.strictEqual(learned?.category, 'injection');
+      assert.strictEqual(learned.commits[0].line, 1);
+    });
+
+    test('a path check added above an unchanged file read', () => {
+      const [learned] = new PatternExtractor().extractPatterns([
+        fixCommit('src/download.ts', [
+          '+if (name.includes("..")) throw new Error("bad path");',
+          ' const data = fs.readFileSync(name);',
+        ]),
+      ]);
+
+      assert.strictEqual(learned?.category, 'path_traversal');
+      assert.ok(new RegExp(learned.regex).test('  fs.readFileSync(name, "utf-8")'));
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import * as assert from 'assert';
+import { PatternGeneralizer } from '../engine/patternGeneralizer';
+import { patternId } from '../engine/patternIdentity';
+import { BugPattern } from '../types';
+
+/** A concrete pattern learned from `buggy` being fixed into `fixed` */
+function pattern(regex: string, buggy: string, fixed: string, sha: string, risk = 6): BugPattern {
+  const learned: BugPattern = {
+    id: '',
+    language: 'typescript',
+    regex,
+    category: 'null_check_missing',
+    risk_base: risk,
+    commits: [{ sha, file: 'src/a.ts', line: 1, message: 'fix crash' }],
+    occurrence_count: 1,
+    buggyExample: buggy,
+    fixedExample: fixed,
+  };
+  learned.id = patternId(learned);
+  return learned;
+}
+
+const profileName = (name: string, sha: string, risk?: number) =>
+  pattern(String.raw`\b${name}\.profile\.name\b`, `const n = ${name}.profile.name;`, `const n = ${name}.profile?.name;`, sha, risk);
+
+suite('PatternGeneralizer', () => {
+  const generalizer = new PatternGeneralizer();
+
+  test('anti-unifies fixes that differ only in identifiers into a template with a hole', () => {
+    const [template, ...rest] = generalizer.generalize([profileName('user', 'aaaa1', 8), profileName('account', 'bbbb2', 4)]);
+
+    assert.strictEqual(rest.length, 0);
+    assert.strictEqual(template.template?.source, '$1.profile.name');
+    assert.deepStrictEqual(
+      template.template?.instances.map((instance) => instance.commits),
+      [['aaaa1'], ['bbbb2']]
+    );
+    assert.strictEqual(template.risk_base, 6);
+    assert.strictEqual(template.occurrence_count, 2);
+    assert.strictEqual(template.id, patternId(template));
+
+    const regex = new RegExp(template.regex);
+    assert.ok(regex.test('return order.profile.name'));
+    assert.ok(!regex.test('return order.profile?.name'));
+  });
+
+  test('an identifier repeated across the fragment becomes one repeated hole', () => {
+    const [template] = generalizer.generalize([
+      pattern(String.raw`\bitems\[items\.length\]`, 'x = items[items.length];', 'x = items[items.length - 1];', 'aaaa1'),
+      pattern(String.raw`\brows\[rows\.length\]`, 'x = rows[rows.length];', 'x = rows[rows.length - 1];', 'bbbb2'),
+    ]);
+
+    assert.strictEqual(template.template?.source, '$1[$1.length]');
+    const regex = new RegExp(template.regex);
+    assert.ok(regex.test('y = cells[cells.length];'));
+    assert.ok(!regex.test('y = cells[rows.length];'));
+  });
+
+  test('leaves patterns alone when more than identifiers differ', () => {
+    const patterns = [
+      profileName('user', 'aaaa1'),
+      pattern(String.raw`\baccount\.profile\[0\]`, 'const n = account.profile[0];', 'const n = account.profile?.[0];', 'bbbb2'),
+    ];
+
+    const result = generalizer.generalize(patterns);
+
+    assert.deepStrictEqual(result.map((p) => p.id), patterns.map((p) => p.id));
+    assert.ok(result.every((p) => !p.template));
+  });
+
+  test('rejects a template that is nothing but holes', () => {
+    const result = generalizer.generalize([
+      pattern(String.raw`\buser\.name\b`, 'a = user.name;', 'a = user?.name;', 'aaaa1'),
+      pattern(String.raw`\baccount\.email\b`, 'a = account.email;', 'a = account?.email;', 'bbbb2'),
+    ]);
+
+    assert.strictEqual(result.length, 2);
+    assert.ok(result.every((p) => !p.template));
+  });
+
+  test('rejects a template that also matches the fixed code', () => {
+    const result = generalizer.generalize([
+      pattern(String.raw`\buser\.id\b`, 'if (user.id)', 'if (user.id && account.id)', 'aaaa1'),
+      pattern(String.raw`\baccount\.id\b`, 'if (account.id)', 'if (account.id && user.id)', 'bbbb2'),
+    ]);
+
+    assert.ok(result.every((p) => !p.template));
+  });
+
+  suite('with stored patterns', () => {
+    test('forms a template with a stored concrete pattern and returns only new and template patterns', () => {
+      const stored = profileName('user', 'aaaa1');
+
+      const result = generalizer.generalize([profileName('account', 'bbbb2')], [stored]);
+
+      assert.strictEqual(result.length, 1);
+      assert.strictEqual(result[0].template?.instances.length, 2);
+      assert.deepStrictEqual(
+        result[0].commits.map((c) => c.sha),
+        ['bbbb2', 'aaaa1']
+      );
+      // References are copied, so later steps of a scan don't rewrite the stored ones
+      assert.notStrictEqual(result[0].commits[1], stored.commits[0]);
+    });
+
+    test('widens a stored template with a new instance', () => {
+      const [stored] = generalizer.generalize([profileName('user', 'aaaa1'), profileName('account', 'bbbb2')]);
+
+      const result = generalizer.generalize([profileName('order', 'cccc3')], [stored]);
+
+      assert.strictEqual(result.length, 1);
+      assert.strictEqual(result[0].id, stored.id);
+      assert.strictEqual(result[0].template?.instances.length, 3);
+    });
+
+    test('merges a re-learned instance into the stored template', () => {
+      const [stored] = generalizer.generalize([profileName('user', 'aaaa1'), profileName('account', 'bbbb2')]);
+
+      const [result] = generalizer.generalize([profileName('user', 'dddd4')], [stored]);
+
+      assert.deepStrictEqual(
+        result.template?.instances.map((instance) => instance.commits),
+        [['dddd4', 'aaaa1'], ['bbbb2']]
+      );
+    });
+
+    test('never generalizes imported, quarantined or demoted stored patterns', () => {
+      const imported = { ...profileName('user', 'aaaa1'), origin: { pack: 'team', checksum: 'sha256:0', imported_at: '' } };
+      const quarantined = { ...profileName('order', 'cccc3'), quarantined: 'nested quantifier' };
+      const demoted: BugPattern = {
+        ...profileName('item', 'eeee5'),
+        validation: { head_hits: 90, head_lines: 100, hit_rate: 0.9, status: 'demoted', validated_at: '' },
+      };
+
+      const result = generalizer.generalize([profileName('account', 'bbbb2')], [imported, quarantined, demoted]);
+
+      assert.strictEqual(result.length, 1);
+      assert.strictEqual(result[0].template, undefined);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PatternPacks } from '../engine/patternPack';
+import { patternId } from '../engine/patternIdentity';
+import { PatternStore } from '../engine/patternStore';
+import { BugPattern, PatternOrigin, PatternPack } from '../types';
+
+function pattern(name: string, risk: number, sha: string, reason?: string): BugPattern {
+  const learned: BugPattern = {
+    id: '',
+    language: 'typescript',
+    regex: String.raw`\b${name}\.profile\.name\b`,
+    category: 'null_check_missing',
+    risk_base: risk,
+    commits: [
+      {
+        sha,
+        file: 'src/a.ts',
+        line: 3,
+        message: 'Fix crash on missing profile',
+        links: { commit_url: `https://example.com/commit/${sha}`, issues: [], jira: [], co_authors: [] },
+      },
+    ],
+    occurrence_count: 1,
+    buggyExample: `const n = ${name}.profile.name;`,
+    fixedExample: `const n = ${name}.profile?.name;`,
+    reason,
+  };
+  learned.id = patternId(learned);
+  return learned;
+}
+
+const provenance = { generator: 'codeghost@0.0.1', created_at: '2025-01-01T00:00:00.000Z' };
+
+/** Pack text with the checksum recomputed, as if written by another tool */
+function resealed(pack: PatternPack): string {
+  pack.checksum = PatternPacks.checksum(pack);
+  return JSON.stringify(pack);
+}
+
+suite('PatternPacks', () => {
+  suite('checksum', () => {
+    test('a pack round-trips through parse', () => {
+      const pack = PatternPacks.create('team', [pattern('user', 7, 'aaaa111')], provenance, false);
+
+      const { pack: parsed, problems } = PatternPacks.parse(JSON.stringify(pack, null, 2));
+
+      assert.deepStrictEqual(problems, []);
+      assert.strictEqual(parsed.patterns[0].regex, pack.patterns[0].regex);
+      assert.match(pack.checksum, /^sha256:[0-9a-f]{64}$/);
+    });
+
+    test('does not depend on key order or formatting', () => {
+      const pack = PatternPacks.create('team', [pattern('user', 7, 'aaaa111')], provenance, false);
+      const reordered = JSON.parse(JSON.stringify(pack));
+      const { patterns, ...rest } = reordered;
+      const shuffled = { patterns, ...Object.fromEntries(Object.entries(rest).reverse()) } as PatternPack;
+
+      assert.strictEqual(PatternPacks.checksum(shuffled), pack.checksum);
+    });
+
+    test('rejects a modified pack', () => {
+      const pack = PatternPacks.create('team', [pattern('user', 7, 'aaaa111')], provenance, false);
+      pack.patterns[0].risk_base = 10;
+
+      assert.throws(() => PatternPacks.parse(JSON.stringify(pack)), /checksum mismatch/);
+    });
+
+    test('rejects packs from a newer version and files that are not packs', () => {
+      const pack = PatternPacks.create('team', [], provenance, false);
+      pack.version = 99;
+
+      assert.throws(() => PatternPacks.parse(resealed(pack)), /newer version/);
+      assert.throws(() => PatternPacks.parse('{"patterns": []}'), /not a CodeGhost pattern pack/);
+      assert.throws(() => PatternPacks.parse('{'), /Failed to read pattern pack/);
+    });
+  });
+
+  suite('parse', () => {
+    test('skips malformed patterns and reports them', () => {
+      const pack = PatternPacks.create('team', [pattern('user', 7, 'aaaa111'), pattern('account', 5, 'bbbb222')], provenance, false);
+      (pack.patterns[1] as any).template = {};
+
+      const { pack: parsed, problems } = PatternPacks.parse(resealed(pack));
+
+      assert.strictEqual(parsed.patterns.length, 1);
+      assert.strictEqual(problems.length, 1);
+      assert.match(problems[0], /malformed template/);
+    });
+
+    test('keeps only http(s) links and hex SHAs in commit references', () => {
+      const pack = PatternPacks.create('team', [pattern('user', 7, 'aaaa111')], provenance, false);
+      const ref = pack.patterns[0].commits[0];
+      ref.links!.commit_url = 'command:workbench.action.terminal.new';
+      ref.reverts = 'not a sha';
+      ref.fix_chain = ['bbbb222', '](javascript:alert(1))'];
+
+      const { pack: parsed } = PatternPacks.parse(resealed(pack));
+      const sanitized = parsed.patterns[0].commits[0];
+
+      assert.strictEqual(sanitized.links?.commit_url, undefined);
+      assert.strictEqual(sanitized.reverts, undefined);
+      assert.deepStrictEqual(sanitized.fix_chain, ['bbbb222']);
+    });
+
+    test('drops fields the importing workspace sets', () => {
+      const pack = PatternPacks.create('team', [pattern('user', 7, 'aaaa111')], provenance, false);
+      pack.patterns[0].origin = { pack: 'other', checksum: 'sha256:0', imported_at: '' };
+      pack.patterns[0].learned_in = ['elsewhere'];
+
+      const { pack: parsed } = PatternPacks.parse(resealed(pack));
+
+      assert.strictEqual(parsed.patterns[0].origin, undefined);
+      assert.strictEqual(parsed.patterns[0].learned_in, undefined);
+    });
+  });
+
+  test('redaction removes code examples and commit messages', () => {
+    const pack = PatternPacks.create('team', [pattern('user', 7, 'aaaa111')], provenance, true);
+
+    assert.strictEqual(pack.provenance.redacted, true);
+    assert.strictEqual(pack.patterns[0].buggyExample, undefined);
+    assert.strictEqual(pack.patterns[0].commits[0].message, '');
+    assert.strictEqual(pack.patterns[0].commits[0].links, undefined);
+  });
+
+  suite('import strategies', () => {
+    let workspace: string;
+    let store: PatternStore;
+    const origin: PatternOrigin = { pack: 'team', checksum: 'sha256:0', imported_at: '2025-01-02T00:00:00.000Z' };
+
+    setup(() => {
+      workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'codeghost-pack-'));
+      store = new PatternStore(workspace);
+      store.addPatterns([pattern('user', 8, 'aaaa111', 'learned here')]);
+    });
+
+    teardown(() => {
+      fs.rmSync(workspace, { recursive: true, force: true });
+    });
+
+    const incoming = () => [pattern('user', 4, 'cccc333', 'from the pack'), pattern('account', 5, 'bbbb222')];
+
+    test('adds new patterns with their origin', () => {
+      const report = store.importPatterns(incoming(), origin, 'keep');
+
+      assert.strictEqual(report.added, 1);
+      const added = store.getPatterns().find((p) => p.regex.includes('account'));
+      assert.deepStrictEqual(added?.origin, origin);
+    });
+
+    test('finds conflicts with stored patterns', () => {
+      assert.deepStrictEqual(
+        store.findConflicts(incoming()).map((p) => p.reason),
+        ['from the pack']
+      );
+    });
+
+    test("merge adds the pack's references to the stored pattern", () => {
+      const report = store.importPatterns(incoming(), origin, 'merge');
+      const user = store.getPatterns().find((p) => p.regex.includes('user'))!;
+
+      assert.deepStrictEqual(report, { added: 1, merged: 1, kept: 0, replaced: 0 });
+      assert.deepStrictEqual(
+        user.commits.map((c) => c.sha),
+        ['aaaa111', 'cccc333']
+      );
+      assert.strictEqual(user.risk_base, 6);
+      assert.strictEqual(user.reason, 'learned here');
+      assert.strictEqual(user.origin, undefined);
+    });
+
+    test('keep leaves the stored pattern untouched', () => {
+      const report = store.importPatterns(incoming(), origin, 'keep');
+      const user = store.getPatterns().find((p) => p.regex.includes('user'))!;
+
+      assert.deepStrictEqual(report, { added: 1, merged: 0, kept: 1, replaced: 0 });
+      assert.strictEqual(user.risk_base, 8);
+      assert.strictEqual(user.commits.length, 1);
+    });
+
+    test("replace swaps in the pack's version", () => {
+      const report = store.importPatterns(incoming(), origin, 'replace');
+      const user = store.getPatterns().find((p) => p.regex.includes('user'))!;
+
+      assert.deepStrictEqual(report, { added: 1, merged: 0, kept: 0, replaced: 1 });
+      assert.strictEqual(user.reason, 'from the pack');
+      assert.strictEqual(user.risk_base, 4);
+      assert.deepStrictEqual(user.origin, origin);
+    });
+
+    test('a full rebuild keeps imported patterns', () => {
+      store.importPatterns(incoming(), origin, 'keep');
+
+      store.clear();
+
+      assert.deepStrictEqual(
+        store.getPatterns().map((p) => p.regex.includes('account')),
+        [true]
+      );
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FeedbackStore } from '../engine/feedback';
+import { PatternGeneralizer } from '../engine/patternGeneralizer';
+import { BUG_MEMORY_VERSION, PatternStore } from '../engine/patternStore';
+import { patternId } from '../engine/patternIdentity';
+import { SuppressionStore } from '../engine/suppressions';
+import { BugPattern } from '../types';
+
+suite('PatternStore', () => {
+  let workspace: string;
+
+  setup(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'codeghost-store-'));
+    fs.mkdirSync(path.join(workspace, '.codeghost'));
+  });
+
+  teardown(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  const memoryFile = () => path.join(workspace, '.codeghost', 'bug_memory.json');
+  const write = (memory: unknown) => fs.writeFileSync(memoryFile(), JSON.stringify(memory), 'utf-8');
+
+  // A version 1 pattern: random id, same matcher under two ids
+  const v1Pattern = (id: string, sha: string, risk: number) => ({
+    id,
+    language: 'typescript',
+    regex: String.raw`\buser\.profile\.name\b`,
+    category: 'null_check_missing',
+    risk_base: risk,
+    commits: [{ sha, file: 'src/a.ts', line: 3, message: 'fix crash' }],
+    occurrence_count: 1,
+  });
+
+  suite('migration from version 1', () => {
+    test('derives ids from the pattern and merges patterns that turn out to be the same', () => {
+      const original = {
+        generated_at: '2025-01-01T00:00:00.000Z',
+        patterns: [v1Pattern('pattern_1700000000_abc', 'aaaa111', 8), v1Pattern('pattern_1700000001_def', 'bbbb222', 4)],
+      };
+      write(original);
+
+      const patterns = new PatternStore(workspace).getPatterns();
+
+      assert.strictEqual(patterns.length, 1);
+      assert.strictEqual(patterns[0].id, patternId(patterns[0]));
+      assert.match(patterns[0].id, /^pattern_[0-9a-f]{16}$/);
+      assert.deepStrictEqual(
+        patterns[0].commits.map((c) => c.sha),
+        ['aaaa111', 'bbbb222']
+      );
+      assert.strictEqual(patterns[0].occurrence_count, 2);
+      assert.strictEqual(patterns[0].risk_base, 6);
+
+      const saved = JSON.parse(fs.readFileSync(memoryFile(), 'utf-8'));
+      assert.strictEqual(saved.version, BUG_MEMORY_VERSION);
+      assert.strictEqual(saved.patterns.length, 1);
+    });
+
+    test('keeps the original file as a backup', () => {
+      const original = { generated_at: '2025-01-01T00:00:00.000Z', patterns: [v1Pattern('pattern_1_x', 'aaaa111', 5)] };
+      write(original);
+
+      new PatternStore(workspace);
+
+      const backup = path.join(workspace, '.codeghost', 'bug_memory.v1.backup.json');
+      assert.deepStrictEqual(JSON.parse(fs.readFileSync(backup, 'utf-8')), original);
+    });
+
+    test('does not count a reference twice when duplicates share it', () => {
+      write({ patterns: [v1Pattern('pattern_1_x', 'aaaa111', 5), v1Pattern('pattern_2_y', 'aaaa111', 5)] });
+
+      const [pattern] = new PatternStore(workspace).getPatterns();
+
+      assert.strictEqual(pattern.commits.length, 1);
+      assert.strictEqual(pattern.occurrence_count, 1);
+    });
+  });
+
+  suite('a file that cannot be loaded', () => {
+    test('is left alone when the backup before migrating cannot be written', () => {
+      const original = { generated_at: '2025-01-01T00:00:00.000Z', patterns: [v1Pattern('pattern_1_x', 'aaaa111', 5)] };
+      write(original);
+      // A directory where the backup file should go makes the write fail
+      fs.mkdirSync(path.join(workspace, '.codeghost', 'bug_memory.v1.backup.json'));
+
+      const store = new PatternStore(workspace);
+      store.updateLastScannedSha('cccc333');
+      store.save();
+
+      assert.strictEqual(store.isReadOnly, true);
+      assert.match(store.loadError ?? '', /Failed to back up bug memory/);
+      assert.deepStrictEqual(JSON.parse(fs.readFileSync(memoryFile(), 'utf-8')), original);
+    });
+
+    test('is left alone when it is not valid JSON', () => {
+      fs.writeFileSync(memoryFile(), '{"patterns": [', 'utf-8');
+
+      const store = new PatternStore(workspace);
+      store.updateLastScannedSha('cccc333');
+
+      assert.strictEqual(store.isReadOnly, true);
+      assert.ok(store.loadError);
+      assert.strictEqual(fs.readFileSync(memoryFile(), 'utf-8'), '{"patterns": [');
+    });
+  });
+
+  suite('templates', () => {
+    const profileName = (name: string, sha: string): BugPattern => {
+      const learned: BugPattern = {
+        id: '',
+        language: 'typescript',
+        regex: String.raw`\b${name}\.profile\.name\b`,
+        category: 'null_check_missing',
+        risk_base: 6,
+        commits: [{ sha, file: 'src/a.ts', line: 1, message: 'fix crash' }],
+        occurrence_count: 1,
+        buggyExample: `const n = ${name}.profile.name;`,
+        fixedExample: `const n = ${name}.profile?.name;`,
+      };
+      learned.id = patternId(learned);
+      return learned;
+    };
+
+    test('a template keeps the suppressions and feedback of the patterns it retires', () => {
+      const store = new PatternStore(workspace);
+      const user = profileName('user', 'aaaa111');
+      store.addPatterns([user]);
+      fs.writeFileSync(
+        path.join(workspace, '.codeghost', 'suppressions.json'),
+        JSON.stringify({
+          version: 1,
+          suppressions: [
+            { pattern_id: user.id, category: user.category, regex: user.regex, author: 'jane', created_at: '', reason: 'checked upstream' },
+          ],
+        }),
+        'utf-8'
+      );
+      fs.writeFileSync(
+        path.join(workspace, '.codeghost', 'feedback.jsonl'),
+        JSON.stringify({ pattern_id: user.id, verdict: 'false_positive', author: 'jane', created_at: '2025-01-01T00:00:00Z' }) + '\n',
+        'utf-8'
+      );
+
+      const generalizer = new PatternGeneralizer();
+      const [template] = generalizer.generalize([profileName('account', 'bbbb222')], store.getPatterns());
+      store.addPatterns([template]);
+      const [widened] = generalizer.generalize([profileName('order', 'cccc333')], store.getPatterns());
+      store.addPatterns([widened]);
+
+      assert.deepStrictEqual(
+        store.getPatterns().map((p) => p.id),
+        [template.id]
+      );
+      assert.deepStrictEqual(store.supersededIds(template.id), [user.id]);
+
+      const supersededIds = (id: string) => store.supersededIds(id);
+      assert.strictEqual(new SuppressionStore(workspace).isSuppressed(template.id), false);
+      assert.strictEqual(new SuppressionStore(workspace, supersededIds).isSuppressed(template.id), true);
+      assert.strictEqual(new FeedbackStore(workspace, undefined, supersededIds).get(template.id)?.false_positive, 1);
+    });
+  });
+
+  test('loads a file from a newer version read-only and never overwrites it', () => {
+    const newer = { version: BUG_MEMORY_VERSION + 1, generated_at: '2030-01-01T00:00:00.000Z', patterns: [], future_field: true };
+    write(newer);
+
+    const store = new PatternStore(workspace);
+    store.updateLastScannedSha('cccc333');
+
+    assert.strictEqual(store.isReadOnly, true);
+    assert.deepStrictEqual(JSON.parse(fs.readFileSync(memoryFile(), 'utf-8')), newer);
+  });
+});
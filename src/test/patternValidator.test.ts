@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+import { PatternValidator } from '../engine/patternValidator';
+import { BugPattern } from '../types';
+
+const pattern = (regex: string, buggyExample: string, fixedExample: string, extra: Partial<BugPattern> = {}): BugPattern => ({
+  id: 'pattern_1',
+  language: 'typescript',
+  regex,
+  category: 'null_check_missing',
+  risk_base: 7,
+  commits: [{ sha: 'aaaa111', file: 'src/a.ts', line: 3, message: 'fix crash' }],
+  occurrence_count: 1,
+  buggyExample,
+  fixedExample,
+  ...extra,
+});
+
+const profileName = () =>
+  pattern(String.raw`\buser\.profile\.name\b`, 'const n = user.profile.name;', 'const n = user.profile?.name;');
+
+/** `count` lines of TypeScript, `hits` of them matching profileName() */
+const head = (count: number, hits: number) => [
+  {
+    path: 'src/app.ts',
+    language: 'typescript',
+    lines: Array.from({ length: count }, (_, i) => (i < hits ? `show(user.profile.name, ${i});` : `show(other, ${i});`)),
+  },
+  // Lines in other languages don't count towards the hit rate
+  { path: 'tools/gen.py', language: 'python', lines: ['user.profile.name', 'x = 1'] },
+];
+
+suite('PatternValidator', () => {
+  const validator = new PatternValidator();
+
+  test('keeps a pattern that matches its buggy example and misses its fixed one', () => {
+    const { patterns, dropped } = validator.validate([profileName()]);
+
+    assert.strictEqual(dropped.length, 0);
+    assert.strictEqual(patterns[0].validation?.matches_buggy, true);
+    assert.strictEqual(patterns[0].validation?.matches_fixed, false);
+    assert.strictEqual(patterns[0].validation?.status, 'ok');
+  });
+
+  test('drops a pattern that also matches its fixed example', () => {
+    const tooBroad = pattern(String.raw`\bprofile\b`, 'const n = user.profile.name;', 'const n = user.profile?.name;');
+
+    const { patterns, dropped } = validator.validate([tooBroad]);
+
+    assert.deepStrictEqual(patterns, []);
+    assert.deepStrictEqual(dropped, [tooBroad]);
+    assert.strictEqual(tooBroad.validation?.matches_fixed, true);
+  });
+
+  test("drops a pattern that doesn't match its buggy example", () => {
+    const wrong = pattern(String.raw`\baccount\.profile\b`, 'const n = user.profile.name;', 'const n = user.profile?.name;');
+
+    assert.deepStrictEqual(validator.validate([wrong]).dropped, [wrong]);
+    assert.strictEqual(wrong.validation?.matches_buggy, false);
+  });
+
+  test('a fixed line that repeats the buggy one does not count as a match', () => {
+    // An insertion fix keeps the buggy line and adds a guard above it
+    const guarded = pattern(
+      String.raw`\bconfig\.port\b`,
+      'listen(config.port);',
+      'if (!config) return;\nlisten(config.port);'
+    );
+
+    assert.strictEqual(validator.validate([guarded]).patterns.length, 1);
+  });
+
+  test('drops a pattern whose regex is unsafe', () => {
+    const unsafe = pattern('(a+)+$', 'aaaa', 'b');
+
+    assert.deepStrictEqual(validator.validate([unsafe]).dropped, [unsafe]);
+    assert.strictEqual(unsafe.validation, undefined);
+  });
+
+  test('records HEAD hits over the lines of its language', () => {
+    const [validated] = validator.validate([profileName()], head(1000, 5)).patterns;
+
+    assert.strictEqual(validated.validation?.head_hits, 5);
+    assert.strictEqual(validated.validation?.head_lines, 1000);
+    assert.strictEqual(validated.validation?.hit_rate, 0.005);
+    assert.strictEqual(validated.validation?.status, 'ok');
+    assert.strictEqual(validated.risk_base, 7);
+    assert.ok(!Number.isNaN(Date.parse(validated.validation!.validated_at)));
+  });
+
+  test('demotes a pattern matching more of HEAD than the limit, keeping its original risk', () => {
+    const [validated] = validator.validate([profileName()], head(1000, 20)).patterns;
+
+    assert.strictEqual(validated.validation?.status, 'demoted');
+    assert.strictEqual(validated.validation?.original_risk_base, 7);
+    assert.strictEqual(validated.risk_base, 1);
+    assert.strictEqual(new PatternValidator(0.05).validate([profileName()], head(1000, 20)).patterns[0].risk_base, 7);
+  });
+
+  test('only counts HEAD lines inside the enclosing block a pattern requires', () => {
+    const scoped = pattern(String.raw`^\s*fetch\(`, 'fetch(url);', 'await fetch(url);', {
+      enclosing: String.raw`^\s*async\s+function\b`,
+    });
+    const file = {
+      path: 'src/load.ts',
+      language: 'typescript',
+      lines: ['function a() {', '  fetch(url);', '}', 'async function b() {', '  fetch(url);', '}'],
+    };
+
+    const [validated] = new PatternValidator(1).validate([scoped], [file]).patterns;
+
+    assert.strictEqual(validated.validation?.head_hits, 1);
+  });
+});
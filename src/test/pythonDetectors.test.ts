@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import { PatternExtractor } from '../engine/patternExtractor';
+import { PythonDetectors } from '../engine/pythonDetectors';
+import { CodeScanner } from '../engine/scanner';
+import { GitHubCommit } from '../types';
+
+const fixCommit = (filename: string, patch: string): GitHubCommit => ({
+  sha: 'aaaa111',
+  commit: { message: 'fix: await the response', author: { name: 'Jane Doe', date: '2025-01-01T00:00:00Z' } },
+  files: [{ filename, status: 'modified', additions: 1, deletions: 1, changes: 2, patch }],
+});
+
+suite('PythonDetectors', () => {
+  const detectors = new PythonDetectors();
+
+  suite('missing await', () => {
+    const asyncScope = ['async def load(client):', '    response = client.fetch(url)'];
+
+    test('learns a call awaited inside an async def, tied to the async def', () => {
+      const result = detectors.detect('response = client.fetch(url)', 'response = await client.fetch(url)', asyncScope);
+
+      assert.strictEqual(result?.category, 'missing_await');
+      const regex = new RegExp(result!.regex);
+      assert.ok(regex.test('data = client.fetch(other)'));
+      assert.ok(!regex.test('data = await client.fetch(other)'));
+
+      const enclosing = new RegExp(result!.enclosing!);
+      const source = ['def sync_load(client):', '    return client.fetch(url)', 'async def load(client):', '    return client.fetch(url)'];
+      assert.ok(!CodeScanner.isEnclosedBy(source, 1, enclosing));
+      assert.ok(CodeScanner.isEnclosedBy(source, 3, enclosing));
+    });
+
+    test('ignores the change outside an async def', () => {
+      const plain = ['def load(client):', '    response = client.fetch(url)'];
+      assert.strictEqual(detectors.detect('response = client.fetch(url)', 'response = await client.fetch(url)', plain), null);
+      assert.strictEqual(detectors.detect('response = client.fetch(url)', 'response = await client.fetch(url)'), null);
+    });
+
+    test('finds the async def in the hunk header when it is above the hunk', () => {
+      const patch = [
+        '@@ -20,3 +20,3 @@ async def load(client):',
+        '     url = build_url()',
+        '-    response = client.fetch(url)',
+        '+    response = await client.fetch(url)',
+        '     return response',
+      ].join('\n');
+
+      const [pattern] = new PatternExtractor().extractPatterns([fixCommit('app/load.py', patch)]);
+
+      assert.strictEqual(pattern.category, 'missing_await');
+      assert.strictEqual(pattern.enclosing, String.raw`^\s*async\s+def\b`);
+    });
+  });
+
+  suite('unmanaged open', () => {
+    test('learns a file object kept in a variable', () => {
+      const result = detectors.detect('f = open(path)', 'with open(path) as f:');
+      const regex = new RegExp(result!.regex);
+
+      assert.strictEqual(result?.category, 'memory_leak');
+      assert.ok(regex.test('    self.log = open(log_path, "a")'));
+    });
+
+    test('does not flag every line that mentions open(', () => {
+      const regex = new RegExp(detectors.detect('f = open(path)', 'with open(path) as f:')!.regex);
+
+      for (const line of ['with open(path) as f:', 'print("call open(path) first")', 'fd = os.open(path, os.O_RDONLY)', 'reopen(path)']) {
+        assert.ok(!regex.test(line), line);
+      }
+    });
+  });
+
+  test('other detectors learn from their before/after shapes', () => {
+    assert.strictEqual(detectors.detect('def add(item, items=[]):', 'def add(item, items=None):')?.category, 'logic_error');
+    assert.strictEqual(detectors.detect('except:', 'except ValueError:')?.category, 'missing_error_handling');
+    assert.strictEqual(detectors.detect('port = config["port"]', 'port = config.get("port", 80)')?.category, 'undefined_access');
+    assert.strictEqual(
+      detectors.detect('name = user.name', 'name = user.name if user is not None else ""')?.category,
+      'null_check_missing'
+    );
+  });
+});
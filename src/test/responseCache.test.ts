@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ResponseCache } from '../engine/responseCache';
+
+suite('ResponseCache', () => {
+  let cacheDir: string;
+
+  setup(() => {
+    cacheDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'codeghost-cache-')), 'http');
+  });
+
+  teardown(() => {
+    fs.rmSync(path.dirname(cacheDir), { recursive: true, force: true });
+  });
+
+  const entry = (url: string) => ({ url, etag: '"1"', fetchedAt: '2025-01-01T00:00:00.000Z', data: { url } });
+
+  /** Make an entry look last used `minutes` ago */
+  const age = (cache: ResponseCache, key: string, minutes: number) => {
+    const file = (cache as any).fileFor(key);
+    const time = new Date(Date.now() - minutes * 60 * 1000);
+    fs.utimesSync(file, time, time);
+  };
+
+  test('round-trips entries and keeps them out of Git', () => {
+    const cache = new ResponseCache(cacheDir);
+    const key = ResponseCache.keyFor('/repos/o/r/commits', { page: 1 });
+
+    cache.set(key, entry('/repos/o/r/commits'));
+
+    assert.deepStrictEqual(cache.get(key)?.data, { url: '/repos/o/r/commits' });
+    assert.strictEqual(fs.readFileSync(path.join(cacheDir, '.gitignore'), 'utf-8'), '*\n');
+  });
+
+  test('evicts the least recently used entries once over the limit', () => {
+    const cache = new ResponseCache(cacheDir, 3);
+    const [a, b, c, d] = ['/a', '/b', '/c', '/d'].map((url) => ResponseCache.keyFor(url));
+    cache.set(a, entry('/a'));
+    cache.set(b, entry('/b'));
+    cache.set(c, entry('/c'));
+    age(cache, a, 30);
+    age(cache, b, 20);
+    age(cache, c, 10);
+
+    // Reading the oldest entry makes it the most recently used
+    cache.get(a);
+    cache.set(d, entry('/d'));
+
+    assert.ok(cache.get(a));
+    assert.ok(cache.get(d));
+    assert.strictEqual(cache.get(b), undefined);
+    assert.strictEqual(cache.get(c), undefined);
+  });
+
+  test('rewriting an entry does not count it twice', () => {
+    const cache = new ResponseCache(cacheDir, 2);
+    const [a, b] = ['/a', '/b'].map((url) => ResponseCache.keyFor(url));
+    cache.set(a, entry('/a'));
+    cache.set(b, entry('/b'));
+    cache.set(b, entry('/b'));
+
+    assert.ok(cache.get(a));
+    assert.ok(cache.get(b));
+  });
+});
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { RustDetectors } from '../engine/rustDetectors';
+
+suite('RustDetectors', () => {
+  const detectors = new RustDetectors();
+
+  suite('unwrap', () => {
+    test('learns the call whose result was unwrapped, whichever way the fix handles it', () => {
+      for (const fixed of [
+        'let file = File::open(path)?;',
+        'let file = match File::open(path) {',
+        'if let Ok(file) = File::open(path) {',
+        'let Ok(file) = File::open(path) else {',
+        'let file = File::open(path).map_err(Error::Io)?;',
+      ]) {
+        const result = detectors.detect('let file = File::open(path).unwrap();', fixed);
+        assert.strictEqual(result?.category, 'missing_error_handling', fixed);
+
+        const regex = new RegExp(result!.regex);
+        assert.ok(regex.test('let config = File::open(config_path).expect("config");'), fixed);
+        assert.ok(!regex.test(fixed), fixed);
+        assert.ok(!regex.test('let file = MyFile::open(path).unwrap();'), fixed);
+      }
+    });
+
+    test('keeps a turbofish out of the learned callee', () => {
+      const result = detectors.detect('let port = text.parse::<u16>().unwrap();', 'let port = text.parse::<u16>().unwrap_or(80);');
+
+      assert.ok(new RegExp(result!.regex).test('let n = input.parse::<usize>().unwrap();'));
+      assert.ok(new RegExp(result!.regex).test('let n = input.parse().unwrap();'));
+    });
+
+    test('falls back to the unwrapped variable', () => {
+      const result = detectors.detect('let user = found.unwrap();', 'let user = found.ok_or(Error::NotFound)?;');
+
+      assert.strictEqual(result?.regex, String.raw`\bfound\s*\.\s*(?:unwrap|expect)\s*\(`);
+    });
+
+    test('does not fire unless the fix handles the error', () => {
+      assert.strictEqual(detectors.detect('let n = s.parse().unwrap();', 'let n = s.trim().parse().unwrap();'), null);
+      assert.strictEqual(detectors.detect('let n = s.parse().unwrap();', 'let n = s.parse();'), null);
+    });
+  });
+
+  test('learns indexing replaced by get()', () => {
+    const result = detectors.detect('let first = items[0];', 'let first = items.get(0)?;');
+
+    assert.strictEqual(result?.category, 'undefined_access');
+    assert.ok(new RegExp(result!.regex).test('total += items[i];'));
+    assert.ok(!new RegExp(result!.regex).test('let first = items.get(0)?;'));
+    assert.strictEqual(detectors.detect('let first = items[0];', 'let first = other.get(0)?;'), null);
+  });
+});
@@ -0,0 +1,161 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SuppressionStore } from '../engine/suppressions';
+import { BUG_CATEGORIES, BugPattern, ScanResult } from '../types';
+
+const PATTERN_ID = 'pattern_0123456789abcdef';
+
+const result = (lineNumber: number, category: ScanResult['category'] = 'null_check_missing', patternId = PATTERN_ID): ScanResult => ({
+  lineNumber,
+  riskScore: 7,
+  patternId,
+  commitShas: ['aaaa111'],
+  shortReason: 'crashed before',
+  category,
+});
+
+suite('SuppressionStore', () => {
+  suite('parseDirectives', () => {
+    const parse = (...lines: string[]) => SuppressionStore.parseDirectives(lines, BUG_CATEGORIES);
+
+    test('reads the scope, an optional target and the reason', () => {
+      assert.deepStrictEqual(
+        parse(
+          '// codeghost-ignore-next-line null_check_missing checked by the caller',
+          `# codeghost-ignore-file ${PATTERN_ID} generated fixtures`,
+          '/* codeghost-ignore-next-line * legacy code */',
+          '<!-- codeghost-ignore-next-line -->'
+        ),
+        [
+          { scope: 'next-line', line: 0, target: 'null_check_missing', reason: 'checked by the caller' },
+          { scope: 'file', line: 1, target: PATTERN_ID, reason: 'generated fixtures' },
+          { scope: 'next-line', line: 2, target: undefined, reason: 'legacy code' },
+          { scope: 'next-line', line: 3, target: undefined, reason: undefined },
+        ]
+      );
+    });
+
+    test('a first word that is no pattern id or category starts the reason', () => {
+      assert.deepStrictEqual(parse('-- codeghost-ignore-file seeded by hand'), [
+        { scope: 'file', line: 0, target: undefined, reason: 'seeded by hand' },
+      ]);
+    });
+
+    test('the reason may be set off by --', () => {
+      assert.deepStrictEqual(
+        parse('// codeghost-ignore-next-line missing_await -- fire and forget', '// codeghost-ignore-next-line -- fire and forget'),
+        [
+          { scope: 'next-line', line: 0, target: 'missing_await', reason: 'fire and forget' },
+          { scope: 'next-line', line: 1, target: undefined, reason: 'fire and forget' },
+        ]
+      );
+    });
+
+    test('ignores text that only mentions a directive', () => {
+      assert.deepStrictEqual(parse('const hint = "codeghost-ignore-file";', 'codeghost-ignore-next-line'), []);
+    });
+  });
+
+  suite('applyDirectives', () => {
+    const apply = (results: ScanResult[], lines: string[], startLineNumber = 0) =>
+      SuppressionStore.applyDirectives(results, lines, startLineNumber, BUG_CATEGORIES).map((r) => r.lineNumber);
+
+    test('a line directive silences the next non-blank line, past stacked directives', () => {
+      const lines = [
+        '// codeghost-ignore-next-line',
+        '',
+        '// codeghost-ignore-next-line missing_await -- unrelated',
+        'const n = user.profile.name;',
+        'const m = user.profile.name;',
+      ];
+
+      assert.deepStrictEqual(apply([result(3), result(4)], lines), [4]);
+    });
+
+    test('a directive with a target only silences that pattern or category', () => {
+      const lines = ['// codeghost-ignore-next-line missing_await', 'load(user.profile.name);'];
+
+      assert.deepStrictEqual(apply([result(1), result(1, 'missing_await', 'pattern_other')], lines), [1]);
+    });
+
+    test('a file directive silences its target anywhere in the file', () => {
+      const lines = ['a();', 'b();', `// codeghost-ignore-file ${PATTERN_ID} fixtures`];
+
+      assert.deepStrictEqual(apply([result(0), result(1), result(1, 'missing_await', 'pattern_other')], lines), [1]);
+    });
+
+    test('line numbers are relative to the first scanned line', () => {
+      const lines = ['// codeghost-ignore-next-line', 'a();', 'b();'];
+
+      assert.deepStrictEqual(apply([result(101), result(102)], lines, 100), [102]);
+    });
+  });
+
+  suite('workspace suppressions', () => {
+    let workspace: string;
+    const suppressionsFile = () => path.join(workspace, '.codeghost', 'suppressions.json');
+
+    setup(() => {
+      workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'codeghost-suppressions-'));
+      execFileSync('git', ['init', '--quiet'], { cwd: workspace });
+      execFileSync('git', ['config', 'user.name', 'Jane Doe'], { cwd: workspace });
+      execFileSync('git', ['config', 'user.email', 'jane@example.com'], { cwd: workspace });
+    });
+
+    teardown(() => {
+      fs.rmSync(workspace, { recursive: true, force: true });
+    });
+
+    const learned: BugPattern = {
+      id: PATTERN_ID,
+      language: 'typescript',
+      regex: String.raw`\buser\.profile\.name\b`,
+      category: 'null_check_missing',
+      risk_base: 7,
+      commits: [],
+      occurrence_count: 1,
+    };
+
+    test('records who suppressed a pattern, when and why', async () => {
+      const store = new SuppressionStore(workspace);
+
+      const suppression = await store.suppress(learned, 'profile is always loaded here');
+
+      assert.strictEqual(store.isSuppressed(PATTERN_ID), true);
+      assert.strictEqual(suppression.author, 'Jane Doe <jane@example.com>');
+      assert.strictEqual(suppression.reason, 'profile is always loaded here');
+      assert.strictEqual(suppression.regex, learned.regex);
+      assert.strictEqual(await store.suppress(learned, 'again'), suppression);
+
+      const saved = JSON.parse(fs.readFileSync(suppressionsFile(), 'utf-8'));
+      assert.strictEqual(saved.suppressions.length, 1);
+      assert.strictEqual(new SuppressionStore(workspace).isSuppressed(PATTERN_ID), true);
+    });
+
+    test('lifting keeps the entry with who lifted it, and a later suppression is a new entry', async () => {
+      const store = new SuppressionStore(workspace);
+      await store.suppress(learned, 'first reason');
+
+      assert.strictEqual(await store.lift(PATTERN_ID), true);
+      assert.strictEqual(await store.lift(PATTERN_ID), false);
+      assert.strictEqual(store.isSuppressed(PATTERN_ID), false);
+      assert.deepStrictEqual(store.getActive(), []);
+      assert.strictEqual(store.getLifted()[0].lifted_by, 'Jane Doe <jane@example.com>');
+
+      await store.suppress(learned, 'second reason');
+
+      const reloaded = new SuppressionStore(workspace);
+      assert.deepStrictEqual(
+        reloaded.getActive().map((s) => s.reason),
+        ['second reason']
+      );
+      assert.deepStrictEqual(
+        reloaded.getLifted().map((s) => s.reason),
+        ['first reason']
+      );
+    });
+  });
+});
@@ -12,22 +12,259 @@ export interface BugPattern {
   occurrence_count: number;
   buggyExample?: string;
   fixedExample?: string;
+  /** Structural form of the pattern; the scanner matches it on the syntax tree instead of `regex` */
+  ast?: AstPattern;
+  /** Set when the pattern generalizes several fixes that differed only in identifiers */
+  template?: PatternTemplate;
+  /** Explanation shown on matches, from the detector that learned the pattern */
+  reason?: string;
+  /** Regex the opening line of a block around a match must match (found by indentation, up to the enclosing function) */
+  enclosing?: string;
+  /** Id of the detector plugin that learned the pattern */
+  detector?: string;
+  /** How the pattern fared against its own examples and the HEAD tree */
+  validation?: PatternValidation;
+  /** Why the pattern's regex was rejected when compiled; quarantined patterns are never matched */
+  quarantined?: string;
+  /** Set on patterns imported from a pattern pack */
+  origin?: PatternOrigin;
+  /** Sibling repositories that taught a pattern served from the global library */
+  learned_in?: string[];
+  /** Ids of the patterns this template absorbed; suppressions and feedback recorded against them apply to it */
+  supersedes?: string[];
 }
 
+/**
+ * Where an imported pattern came from
+ */
+export interface PatternOrigin {
+  pack: string;
+  source_repo?: string;
+  /** Checksum of the pack it was imported from */
+  checksum: string;
+  imported_at: string;
+}
+
+export interface PatternValidation {
+  /** Whether the regex matches the buggy example; unset for structural patterns */
+  matches_buggy?: boolean;
+  /** Whether the regex matches a line of the fixed example */
+  matches_fixed?: boolean;
+  /** Lines of the pattern's language at HEAD that it matches */
+  head_hits: number;
+  head_lines: number;
+  hit_rate: number;
+  /** `demoted` patterns matched too much of HEAD and were lowered to risk_base 1 */
+  status: 'ok' | 'demoted';
+  original_risk_base?: number;
+  validated_at: string;
+}
+
+export interface PatternTemplate {
+  /** The shared buggy code with holes for the identifiers that varied, e.g. `$1.profile` */
+  source: string;
+  /** The concrete patterns the template was learned from */
+  instances: PatternInstance[];
+}
+
+export interface PatternInstance {
+  regex: string;
+  ast?: AstPattern;
+  buggyExample?: string;
+  fixedExample?: string;
+  /** SHAs of the fixes this instance came from */
+  commits: string[];
+}
+
+/**
+ * Structural edit a fix made, learned by comparing the syntax trees of a
+ * TypeScript/JavaScript file before and after the fix
+ */
+export interface AstPattern {
+  kind: AstPatternKind;
+  /** Object whose property access needed optional chaining, e.g. `user`; unset in a template matches any */
+  object?: string;
+  /** Property read off `object`, e.g. `name` */
+  property?: string;
+  /** Function or method whose call needed `await` */
+  callee?: string;
+  /** Upper bound of a `for` loop that used `<=`: a property (`length`) or identifier name */
+  bound?: string;
+}
+
+export type AstPatternKind = 'optional_chain' | 'missing_await' | 'inclusive_loop_bound';
+
 export interface CommitReference {
   sha: string;
+  /** Current path of the file, following renames */
   file: string;
+  /** Path the file had in this commit */
+  historical_file?: string;
   line: number;
   message: string;
+  classification?: CommitClassification;
+  links?: CommitLinks;
+  /** SHA of the commit this (revert) commit rolled back */
+  reverts?: string;
+  /** Other fixes that changed the same lines shortly before or after, oldest first */
+  fix_chain?: string[];
+}
+
+/**
+ * Issues, pull requests and people referenced by a commit
+ */
+export interface CommitLinks {
+  commit_url?: string;
+  issues: IssueLink[];
+  jira: JiraLink[];
+  pull_request?: PullRequestLink;
+  co_authors: CoAuthor[];
+}
+
+export interface IssueLink {
+  /** `owner/repo` for cross-repository references, unset for this repo */
+  repo?: string;
+  number: number;
+  /** Closing keyword used in the message (`fixes`, `closes`, ...) */
+  keyword?: string;
+  url?: string;
+}
+
+export interface JiraLink {
+  key: string;
+  url?: string;
+}
+
+export interface PullRequestLink {
+  number: number;
+  title?: string;
+  labels: string[];
+  url?: string;
+}
+
+export interface CoAuthor {
+  name: string;
+  email?: string;
+}
+
+export interface CommitClassification {
+  isFix: boolean;
+  confidence: number;
+  reasons: string[];
 }
 
 export interface BugMemory {
   version: number;
   generated_at: string;
   last_scanned_sha?: string;
+  /** Branch tips the last scan of several local branches started from */
+  scanned_tips?: string[];
   patterns: BugPattern[];
 }
 
+/**
+ * A pattern silenced for the whole workspace, kept in
+ * `.codeghost/suppressions.json`. Lifted suppressions stay in the file as
+ * an audit trail.
+ */
+export interface Suppression {
+  pattern_id: string;
+  /** Category and regex of the pattern when it was suppressed, for the record */
+  category: BugCategory;
+  regex: string;
+  author: string;
+  created_at: string;
+  reason: string;
+  lifted_by?: string;
+  lifted_at?: string;
+}
+
+export interface SuppressionFile {
+  version: number;
+  suppressions: Suppression[];
+}
+
+export type FeedbackVerdict = 'useful' | 'false_positive';
+
+/**
+ * One reaction to a match, a line of `.codeghost/feedback.jsonl`
+ */
+export interface FeedbackEvent {
+  pattern_id: string;
+  verdict: FeedbackVerdict;
+  author: string;
+  created_at: string;
+  /** Repo-relative file and line of the match reacted to */
+  file?: string;
+  line?: number;
+}
+
+/**
+ * Feedback on one pattern, counting each person's latest verdict per match
+ * location
+ */
+export interface PatternFeedback {
+  useful: number;
+  false_positive: number;
+  /** Posterior mean of the share of matches that are real bugs */
+  precision: number;
+  /** Enough votes with a false-positive ratio at or above the configured maximum */
+  demoted: boolean;
+}
+
+/**
+ * Patterns shared between repositories, written by `CodeGhost: Export
+ * Pattern Pack`
+ */
+export interface PatternPack {
+  format: 'codeghost-pattern-pack';
+  version: number;
+  /** Schema version of the patterns, as in bug_memory.json */
+  bug_memory_version: number;
+  name: string;
+  provenance: PackProvenance;
+  /** `sha256:<hex>` of everything else in the pack */
+  checksum: string;
+  patterns: BugPattern[];
+}
+
+export interface PackProvenance {
+  /** Remote URL of the repository the patterns were learned in, without credentials */
+  source_repo?: string;
+  /** Oldest and newest scanned commit */
+  commit_range?: { from?: string; to?: string };
+  /** Extension and version that wrote the pack, e.g. `codeghost@0.0.1` */
+  generator: string;
+  created_at: string;
+  created_by?: string;
+  /** Code examples and commit messages were left out */
+  redacted: boolean;
+}
+
+/**
+ * One workspace's patterns in the user-level global library
+ */
+export interface LibraryRepo {
+  name: string;
+  source_repo?: string;
+  updated_at: string;
+  patterns: BugPattern[];
+}
+
+/**
+ * `pattern_library.json` in the extension's global storage, keyed by the
+ * repository's remote URL (or workspace path)
+ */
+export interface LibraryFile {
+  version: number;
+  repos: Record<string, LibraryRepo>;
+}
+
+/**
+ * How to resolve a pack pattern whose id is already in the store
+ */
+export type PackConflictStrategy = 'merge' | 'keep' | 'replace';
+
 export interface ScanResult {
   lineNumber: number;
   riskScore: number;
@@ -50,18 +287,75 @@ export type BugCategory =
   | 'missing_error_handling'
   | 'unhandled_promise'
   | 'var_scoping'
+  | SecurityCategory
   | 'other';
 
+export type SecurityCategory =
+  | 'injection'
+  | 'xss'
+  | 'path_traversal'
+  | 'unsafe_deserialization'
+  | 'secret_exposure';
+
+/** Categories learned from security fixes; decorated and explained separately */
+export const SECURITY_CATEGORIES: ReadonlySet<BugCategory> = new Set<SecurityCategory>([
+  'injection',
+  'xss',
+  'path_traversal',
+  'unsafe_deserialization',
+  'secret_exposure',
+]);
+
+/** Every category, for validating categories read from files */
+export const BUG_CATEGORIES: ReadonlySet<BugCategory> = new Set<BugCategory>([
+  'null_check_missing',
+  'off_by_one_loop',
+  'missing_await',
+  'undefined_access',
+  'race_condition',
+  'memory_leak',
+  'type_error',
+  'logic_error',
+  'loose_equality',
+  'missing_error_handling',
+  'unhandled_promise',
+  'var_scoping',
+  ...SECURITY_CATEGORIES,
+  'other',
+]);
+
 export interface GitHubCommit {
   sha: string;
   commit: {
     message: string;
     author: {
       name: string;
+      email?: string;
       date: string;
     };
   };
   files?: GitHubFile[];
+  classification?: CommitClassification;
+  /** Pull/merge request the commit landed with, when the source can tell */
+  pull_request?: PullRequestLink;
+  links?: CommitLinks;
+  label_evidence?: LabelEvidence;
+}
+
+/**
+ * What the hosting service knows about a commit, for label-based classification
+ */
+export interface LabelEvidence {
+  pull_request?: PullRequestLink;
+  /** Issues closed by the commit or its pull request */
+  issues: LinkedIssue[];
+}
+
+export interface LinkedIssue {
+  number: number;
+  labels: string[];
+  /** Issue type or kind (GitHub issue types, GitLab `incident`, Bitbucket `bug`) */
+  type?: string;
 }
 
 export interface GitHubFile {
@@ -71,6 +365,9 @@ export interface GitHubFile {
   deletions: number;
   changes: number;
   patch?: string;
+  previous_filename?: string;
+  /** Contents after the commit, loaded for AST extraction */
+  content?: string;
 }
 
 export interface ExtensionConfig {
@@ -80,4 +377,53 @@ export interface ExtensionConfig {
   enableGPT: boolean;
   scanOnSaveOnly: boolean;
   enabled: boolean;
+  maxFileDiffBytes: number;
+  astExtraction: boolean;
+  detectorScripts: boolean;
+  maxHitRate: number;
+  maxFalsePositiveRatio: number;
+  globalLibrary: boolean;
+  globalLibraryWeight: number;
+  detectorsEnabled: Record<string, boolean>;
+  gitRefs: string[];
+  gitAllBranches: boolean;
+  gitFirstParent: boolean;
+  gitMergeDiffs: MergeDiffMode;
+  apiUrls: Record<Exclude<CommitSourceKind, 'local'>, string>;
+  classifier: Partial<ClassifierConfig>;
+  remoteConcurrency: number;
+  cacheResponses: boolean;
+  resolvePullRequests: boolean;
+  jiraBaseUrl: string;
+}
+
+export type CommitSourceKind = 'local' | 'github' | 'gitlab' | 'gitea' | 'bitbucket';
+
+/** How local history diffs merge commits */
+export type MergeDiffMode = 'first-parent' | 'skip';
+
+export interface ClassifierConfig {
+  includePatterns: string[];
+  excludePatterns: string[];
+  conventionalTypes: string[];
+  trailers: string[];
+  includeAuthors: string[];
+  excludeAuthors: string[];
+  includePaths: string[];
+  excludePaths: string[];
+  minConfidence: number;
+  /** Where fix signals come from: commit messages, PR/issue labels, or both */
+  mode: ClassifierMode;
+  bugLabels: string[];
+  bugIssueTypes: string[];
+}
+
+export type ClassifierMode = 'message' | 'labels' | 'both';
+
+/**
+ * Minimal cancellation token; `vscode.CancellationToken` satisfies it,
+ * so engine modules can stop long fetches without importing vscode
+ */
+export interface CancellationSignal {
+  readonly isCancellationRequested: boolean;
 }
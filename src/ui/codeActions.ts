@@ -5,11 +5,16 @@
 
 import * as vscode from 'vscode';
 import { PatternStore } from '../engine/patternStore';
+import { SuppressionStore } from '../engine/suppressions';
+import { BugPattern } from '../types';
+
+// Languages whose line comments start with `#`
+const HASH_COMMENT_LANGUAGES = new Set(['python', 'ruby', 'shellscript', 'perl', 'r', 'yaml', 'dockerfile', 'makefile']);
 
 export class CodeGhostCodeActionProvider implements vscode.CodeActionProvider {
   private patternStore: PatternStore;
 
-  constructor(patternStore: PatternStore) {
+  constructor(patternStore: PatternStore, private suppressions?: SuppressionStore) {
     this.patternStore = patternStore;
   }
 
@@ -29,9 +34,16 @@ export class CodeGhostCodeActionProvider implements vscode.CodeActionProvider {
     const patterns = this.patternStore.getPatternsByLanguage(document.languageId);
 
     for (const pattern of patterns) {
+      if (this.suppressions?.isSuppressed(pattern.id)) {
+        continue;
+      }
+
       try {
-        const regex = new RegExp(pattern.regex, 'gi');
-        if (regex.test(lineText)) {
+        const { regex } = this.patternStore.compile(pattern);
+        if (regex?.test(lineText)) {
+          actions.push(...this.createSuppressActions(document, line, pattern));
+          actions.push(...this.createFeedbackActions(document, line, pattern));
+
           // Create fix action based on pattern
           const fix = this.generateFix(pattern, lineText);
           if (fix) {
@@ -57,6 +69,60 @@ export class CodeGhostCodeActionProvider implements vscode.CodeActionProvider {
     return actions;
   }
 
+  /**
+   * Actions that silence a pattern: a `codeghost-ignore-next-line` comment
+   * above this line, or a workspace suppression
+   */
+  private createSuppressActions(
+    document: vscode.TextDocument,
+    line: vscode.TextLine,
+    pattern: BugPattern
+  ): vscode.CodeAction[] {
+    const category = pattern.category.replace(/_/g, ' ');
+
+    const ignoreLine = new vscode.CodeAction(`🔕 Ignore ${category} on this line`, vscode.CodeActionKind.QuickFix);
+    const indent = line.text.substring(0, line.firstNonWhitespaceCharacterIndex);
+    const comment = HASH_COMMENT_LANGUAGES.has(document.languageId) ? '#' : '//';
+    ignoreLine.edit = new vscode.WorkspaceEdit();
+    ignoreLine.edit.insert(
+      document.uri,
+      new vscode.Position(line.lineNumber, 0),
+      `${indent}${comment} codeghost-ignore-next-line ${pattern.category}\n`
+    );
+
+    const suppress = new vscode.CodeAction(`🔕 Suppress ${category} pattern in workspace`, vscode.CodeActionKind.QuickFix);
+    suppress.command = {
+      command: 'codeghost.suppressPattern',
+      title: 'Suppress pattern in workspace',
+      arguments: [pattern.id],
+    };
+
+    return [ignoreLine, suppress];
+  }
+
+  /**
+   * Actions that rate a match, feeding the pattern's risk score
+   */
+  private createFeedbackActions(
+    document: vscode.TextDocument,
+    line: vscode.TextLine,
+    pattern: BugPattern
+  ): vscode.CodeAction[] {
+    const location = [pattern.id, this.patternStore.toRelativePath(document.fileName), line.lineNumber + 1];
+
+    const useful = new vscode.CodeAction('👍 CodeGhost: this match was useful', vscode.CodeActionKind.QuickFix);
+    useful.command = { command: 'codeghost.markUseful', title: 'Mark match as useful', arguments: location };
+
+    const falsePositive = new vscode.CodeAction('👎 CodeGhost: this match is a false positive', vscode.CodeActionKind.QuickFix);
+    falsePositive.command = {
+      command: 'codeghost.markFalsePositive',
+      title: 'Mark match as a false positive',
+      arguments: location,
+    };
+
+    return [useful, falsePositive];
+  }
+
   /**
    * Generate fix suggestion based on pattern
    */
@@ -4,6 +4,22 @@
  */
 
 import * as vscode from 'vscode';
+import { BugCategory, CommitLinks, PatternFeedback, SECURITY_CATEGORIES } from '../types';
+
+/** Key of the decoration type used for security matches, whatever their risk */
+const SECURITY = 0;
+
+/**
+ * Where a match is, for the hover's "Useful" / "False positive" links
+ */
+export interface HoverFeedback {
+  patternId: string;
+  /** Repo-relative path */
+  file: string;
+  /** 1-based line */
+  line: number;
+  summary?: PatternFeedback;
+}
 
 export class DecorationManager {
   private decorationTypes: Map<number, vscode.TextEditorDecorationType> = new Map();
@@ -13,9 +29,26 @@ export class DecorationManager {
   }
 
   /**
-   * Initialize decoration types for different risk levels
+   * Initialize decoration types for different risk levels, plus one for
+   * security matches
    */
   private initializeDecorationTypes(): void {
+    // Security (any risk)
+    this.decorationTypes.set(
+      SECURITY,
+      vscode.window.createTextEditorDecorationType({
+        backgroundColor: 'rgba(190, 80, 255, 0.15)',
+        border: '1px dashed rgba(190, 80, 255, 0.7)',
+        borderRadius: '3px',
+        overviewRulerColor: 'rgba(190, 80, 255, 0.9)',
+        overviewRulerLane: vscode.OverviewRulerLane.Full,
+        after: {
+          contentText: ' 👻🔓',
+          color: 'rgba(190, 80, 255, 0.9)',
+        },
+      })
+    );
+
     // High risk (8-10)
     this.decorationTypes.set(
       3,
@@ -73,19 +106,21 @@ export class DecorationManager {
     decorations: Array<{
       line: number;
       riskLevel: 1 | 2 | 3;
+      security?: boolean;
       hoverMessage: vscode.MarkdownString;
     }>
   ): void {
-    // Group decorations by risk level
+    // Group decorations by risk level, security matches on their own
     const decorationsByLevel = new Map<number, vscode.DecorationOptions[]>();
 
     for (const dec of decorations) {
-      if (!decorationsByLevel.has(dec.riskLevel)) {
-        decorationsByLevel.set(dec.riskLevel, []);
+      const level = dec.security ? SECURITY : dec.riskLevel;
+      if (!decorationsByLevel.has(level)) {
+        decorationsByLevel.set(level, []);
       }
 
       const range = editor.document.lineAt(dec.line).range;
-      decorationsByLevel.get(dec.riskLevel)!.push({
+      decorationsByLevel.get(level)!.push({
         range,
         hoverMessage: dec.hoverMessage,
       });
@@ -126,14 +161,22 @@ export class DecorationManager {
     category: string,
     reason: string,
     commitShas: string[],
-    patternDetails?: any
+    patternDetails?: any,
+    feedback?: HoverFeedback
   ): vscode.MarkdownString {
     const md = new vscode.MarkdownString();
     md.supportHtml = true;
-    md.isTrusted = true;
+    // Pattern data can come from other repositories (packs, the global
+    // library), so the only commands a hover may run are the feedback links
+    md.isTrusted = { enabledCommands: ['codeghost.markUseful', 'codeghost.markFalsePositive'] };
+
+    const security = SECURITY_CATEGORIES.has(category as BugCategory);
 
     // Header with ghost emoji and risk score
-    md.appendMarkdown(`### 👻 CodeGhost Alert\n\n`);
+    md.appendMarkdown(security ? `### 🔓 CodeGhost Security Alert\n\n` : `### 👻 CodeGhost Alert\n\n`);
+    if (security) {
+      md.appendMarkdown(`**This code looks like a security bug that was fixed here before.** Check how untrusted input reaches it.\n\n`);
+    }
     
     // Risk meter with proper visual
     const riskMeter = this.generateRiskMeter(riskScore);
@@ -141,16 +184,36 @@ export class DecorationManager {
 
     // Category with better formatting
     const categoryDisplay = category.replace(/_/g, ' ').toUpperCase();
-    md.appendMarkdown(`**Category:** ${categoryDisplay}\n\n`);
+    md.appendMarkdown(`**Category:** ${DecorationManager.escape(categoryDisplay)}\n\n`);
 
     // Detailed issue description
-    md.appendMarkdown(`**Issue:** ${reason}\n\n`);
+    md.appendMarkdown(`**Issue:** ${DecorationManager.escape(reason)}\n\n`);
+
+    const template = patternDetails?.template;
+    if (typeof template?.source === 'string' && Array.isArray(template.instances)) {
+      md.appendMarkdown(
+        `**🧩 Learned from ${template.instances.length} similar fixes:** ${DecorationManager.inlineCode(template.source)}\n\n`
+      );
+    }
+
+    if (patternDetails?.learned_in) {
+      md.appendMarkdown(`**🌐 Learned in a sibling repository, not here yet:** `);
+      md.appendText(patternDetails.learned_in.join(', '));
+      md.appendMarkdown(`\n\n`);
+    }
+
+    if (patternDetails?.origin) {
+      const repo = patternDetails.origin.source_repo ? ` (${patternDetails.origin.source_repo})` : '';
+      md.appendMarkdown(`**📦 From pattern pack:** `);
+      md.appendText(`${patternDetails.origin.pack}${repo}`);
+      md.appendMarkdown(`\n\n`);
+    }
 
     // Show code examples if available
     if (patternDetails?.buggyExample && patternDetails?.fixedExample) {
       md.appendMarkdown(`---\n\n`);
-      md.appendMarkdown(`**❌ Previous Bug:**\n\`\`\`\n${patternDetails.buggyExample.trim()}\n\`\`\`\n\n`);
-      md.appendMarkdown(`**✅ How it was fixed:**\n\`\`\`\n${patternDetails.fixedExample.trim()}\n\`\`\`\n\n`);
+      md.appendMarkdown(`**❌ Previous Bug:**\n${DecorationManager.codeBlock(patternDetails.buggyExample.trim())}\n\n`);
+      md.appendMarkdown(`**✅ How it was fixed:**\n${DecorationManager.codeBlock(patternDetails.fixedExample.trim())}\n\n`);
       md.appendMarkdown(`---\n\n`);
     }
 
@@ -172,9 +235,24 @@ export class DecorationManager {
       
       for (let i = 0; i < Math.min(3, commits.length); i++) {
         const commit = commits[i];
-        const shortSha = commit.sha.substring(0, 7);
-        const message = commit.message || 'Bug fix';
-        md.appendMarkdown(`- \`${shortSha}\` ${message}\n`);
+        const shortSha = DecorationManager.shortSha(commit.sha);
+        const message = DecorationManager.escape(commit.message || 'Bug fix');
+        const links: CommitLinks | undefined = commit.links;
+        const commitUrl = DecorationManager.webUrl(links?.commit_url);
+        const shaText = commitUrl ? `[\`${shortSha}\`](${commitUrl})` : `\`${shortSha}\``;
+        md.appendMarkdown(`- ${shaText} ${message}\n`);
+
+        const linkLine = links ? this.formatCommitLinks(links) : '';
+        if (linkLine) {
+          md.appendMarkdown(`  ${linkLine}\n`);
+        }
+        if (commit.reverts) {
+          md.appendMarkdown(`  ↩️ Reverts \`${DecorationManager.shortSha(commit.reverts)}\`\n`);
+        }
+        if (commit.fix_chain?.length) {
+          const others = commit.fix_chain.map((sha: string) => `\`${DecorationManager.shortSha(sha)}\``).join(', ');
+          md.appendMarkdown(`  🔁 Took ${commit.fix_chain.length + 1} attempts to fix (also ${others})\n`);
+        }
       }
       
       if (commits.length > 3) {
@@ -186,9 +264,99 @@ export class DecorationManager {
       }
     }
 
+    if (feedback) {
+      const args = encodeURIComponent(JSON.stringify([feedback.patternId, feedback.file, feedback.line]));
+      const summary = feedback.summary
+        ? ` · 👍 ${feedback.summary.useful} · 👎 ${feedback.summary.false_positive}`
+        : '';
+      md.appendMarkdown(
+        `\n---\n\n**Was this useful?** [👍 Useful](command:codeghost.markUseful?${args}) · ` +
+          `[👎 False positive](command:codeghost.markFalsePositive?${args})${summary}\n`
+      );
+    }
+
     return md;
   }
 
+  /**
+   * Render a commit's issues, pull request, Jira keys and co-authors as one
+   * line, linking whatever has a URL
+   */
+  private formatCommitLinks(links: CommitLinks): string {
+    const link = (text: string, url?: string) => {
+      const safe = DecorationManager.webUrl(url);
+      return safe ? `[${DecorationManager.escape(text)}](${safe})` : DecorationManager.escape(text);
+    };
+    const parts: string[] = [];
+
+    if (links.pull_request) {
+      const pr = links.pull_request;
+      const labels = (pr.labels || []).map((label) => ` ${DecorationManager.inlineCode(label)}`).join('');
+      parts.push(`PR ${link(`#${pr.number}`, pr.url)}${labels}`);
+    }
+
+    for (const issue of links.issues || []) {
+      const text = `${issue.repo ?? ''}#${issue.number}`;
+      parts.push(`${issue.keyword ? `${DecorationManager.escape(issue.keyword)} ` : ''}${link(text, issue.url)}`);
+    }
+
+    for (const jira of links.jira || []) {
+      parts.push(link(jira.key, jira.url));
+    }
+
+    if (links.co_authors?.length > 0) {
+      parts.push(`👥 ${DecorationManager.escape(links.co_authors.map((author) => author.name).join(', '))}`);
+    }
+
+    return parts.join(' · ');
+  }
+
+  /**
+   * Escape text (commit messages, names, reasons) so it renders literally
+   * instead of as markdown or HTML
+   */
+  private static escape(text: string): string {
+    return String(text).replace(/[\\`*_{}\[\]()#+\-.!|<>~&]/g, '\\$&').replace(/\r?\n/g, ' ');
+  }
+
+  /**
+   * A URL safe to link: only http(s), with characters that would end the
+   * markdown link percent-encoded; undefined for anything else
+   */
+  private static webUrl(url?: string): string | undefined {
+    if (typeof url !== 'string' || !/^https?:\/\/[^\s]+$/i.test(url)) {
+      return undefined;
+    }
+    return url.replace(/[()<>\[\]]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  }
+
+  /**
+   * The first 7 hex digits of a SHA (anything else is dropped)
+   */
+  private static shortSha(sha: string): string {
+    return String(sha).replace(/[^0-9a-f]/gi, '').substring(0, 7);
+  }
+
+  /**
+   * Code span that holds any text, using a longer backtick fence than the
+   * text contains
+   */
+  private static inlineCode(text: string): string {
+    const value = String(text).replace(/\r?\n/g, ' ');
+    const longest = Math.max(0, ...(value.match(/`+/g) || []).map((run) => run.length));
+    const fence = '`'.repeat(longest + 1);
+    return `${fence} ${value} ${fence}`;
+  }
+
+  /**
+   * Fenced code block that holds any text
+   */
+  private static codeBlock(text: string): string {
+    const longest = Math.max(2, ...(String(text).match(/`+/g) || []).map((run) => run.length));
+    const fence = '`'.repeat(longest + 1);
+    return `${fence}\n${text}\n${fence}`;
+  }
+
   /**
    * Generate visual risk meter
    */
@@ -5,6 +5,9 @@
 
 import * as vscode from 'vscode';
 import { PatternStore } from '../engine/patternStore';
+import { SuppressionStore } from '../engine/suppressions';
+import { FeedbackStore } from '../engine/feedback';
+import { BugCategory, SECURITY_CATEGORIES, Suppression } from '../types';
 
 export class StatsPanel {
   public static currentPanel: StatsPanel | undefined;
@@ -13,20 +16,34 @@ export class StatsPanel {
 
   private constructor(
     panel: vscode.WebviewPanel,
-    private patternStore: PatternStore
+    private patternStore: PatternStore,
+    private suppressions?: SuppressionStore,
+    private feedback?: FeedbackStore
   ) {
     this.panel = panel;
     this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+    this.panel.webview.onDidReceiveMessage(
+      (message) => {
+        if (message.command === 'liftSuppression') {
+          vscode.commands.executeCommand('codeghost.liftSuppression', message.patternId);
+        }
+      },
+      null,
+      this.disposables
+    );
     this.update();
   }
 
-  public static show(patternStore: PatternStore) {
+  public static show(patternStore: PatternStore, suppressions?: SuppressionStore, feedback?: FeedbackStore) {
     const column = vscode.window.activeTextEditor
       ? vscode.window.activeTextEditor.viewColumn
       : undefined;
 
     // If we already have a panel, show it
     if (StatsPanel.currentPanel) {
+      StatsPanel.currentPanel.patternStore = patternStore;
+      StatsPanel.currentPanel.suppressions = suppressions;
+      StatsPanel.currentPanel.feedback = feedback;
       StatsPanel.currentPanel.panel.reveal(column);
       StatsPanel.currentPanel.update();
       return;
@@ -43,7 +60,7 @@ export class StatsPanel {
       }
     );
 
-    StatsPanel.currentPanel = new StatsPanel(panel, patternStore);
+    StatsPanel.currentPanel = new StatsPanel(panel, patternStore, suppressions, feedback);
   }
 
   public update() {
@@ -62,13 +79,15 @@ export class StatsPanel {
     // Generate pattern list HTML
     const patternListHtml = sortedPatterns
       .map((pattern) => {
-        const categoryDisplay = pattern.category.replace(/_/g, ' ').toUpperCase();
+        const categoryDisplay =
+          (SECURITY_CATEGORIES.has(pattern.category) ? '🔓 ' : '') + pattern.category.replace(/_/g, ' ').toUpperCase();
         const riskColor = pattern.risk_base >= 8 ? '#ff4444' : pattern.risk_base >= 6 ? '#ffaa00' : '#44ff44';
+        const feedback = this.feedback?.get(pattern.id);
         
         return `
           <div class="pattern-card">
             <div class="pattern-header">
-              <span class="pattern-category">${categoryDisplay}</span>
+              <span class="pattern-category">${categoryDisplay}${this.suppressions?.isSuppressed(pattern.id) ? ' 🔕' : ''}</span>
               <span class="pattern-risk" style="background-color: ${riskColor}">${pattern.risk_base}/10</span>
             </div>
             <div class="pattern-details">
@@ -84,7 +103,30 @@ export class StatsPanel {
                 <span class="stat-label">Commits:</span>
                 <span class="stat-value">${pattern.commits.length}</span>
               </div>
+              ${pattern.validation ? `
+              <div class="pattern-stat">
+                <span class="stat-label">HEAD hits:</span>
+                <span class="stat-value">${pattern.validation.head_hits} (${(pattern.validation.hit_rate * 100).toFixed(2)}%)${pattern.validation.status === 'demoted' ? ' · demoted' : ''}</span>
+              </div>
+              ` : ''}
+              ${pattern.origin ? `
+              <div class="pattern-stat">
+                <span class="stat-label">Pack:</span>
+                <span class="stat-value">${this.escapeHtml(pattern.origin.pack)}</span>
+              </div>
+              ` : ''}
+              ${feedback ? `
+              <div class="pattern-stat">
+                <span class="stat-label">Feedback:</span>
+                <span class="stat-value">👍 ${feedback.useful} · 👎 ${feedback.false_positive} (${Math.round(feedback.precision * 100)}% precision)${feedback.demoted ? ' · demoted' : ''}</span>
+              </div>
+              ` : ''}
             </div>
+            ${pattern.quarantined ? `
+            <div class="pattern-quarantine">⚠️ Quarantined, never matched: ${this.escapeHtml(pattern.quarantined)}
+              <pre><code>${this.escapeHtml(pattern.regex)}</code></pre>
+            </div>
+            ` : ''}
             ${pattern.buggyExample ? `
             <details class="pattern-examples">
               <summary>View Examples</summary>
@@ -105,6 +147,39 @@ export class StatsPanel {
       })
       .join('');
 
+    // Suppressions in effect, with the ones lifted since as history
+    const activeSuppressions = this.suppressions?.getActive() ?? [];
+    const liftedSuppressions = this.suppressions?.getLifted() ?? [];
+    const suppressionRow = (suppression: Suppression, lifted: boolean) => `
+          <div class="suppression-item">
+            <div class="suppression-header">
+              <span class="pattern-category">${suppression.category.replace(/_/g, ' ').toUpperCase()}</span>
+              ${lifted ? '' : `<button data-lift="${this.escapeHtml(suppression.pattern_id)}">Lift</button>`}
+            </div>
+            <pre><code>${this.escapeHtml(suppression.regex)}</code></pre>
+            <div class="suppression-meta">
+              ${this.escapeHtml(suppression.reason)} · ${this.escapeHtml(suppression.author)},
+              ${new Date(suppression.created_at).toLocaleString()}
+              ${lifted ? ` · lifted by ${this.escapeHtml(suppression.lifted_by ?? '')}, ${new Date(suppression.lifted_at!).toLocaleString()}` : ''}
+            </div>
+          </div>
+        `;
+    const suppressionsHtml =
+      activeSuppressions.length === 0 && liftedSuppressions.length === 0
+        ? ''
+        : `
+        <div class="section">
+          <div class="section-title">🔕 Suppressed Patterns</div>
+          ${activeSuppressions.map((suppression) => suppressionRow(suppression, false)).join('')}
+          ${liftedSuppressions.length > 0 ? `
+          <details class="pattern-examples">
+            <summary>History (${liftedSuppressions.length} lifted)</summary>
+            ${liftedSuppressions.map((suppression) => suppressionRow(suppression, true)).join('')}
+          </details>
+          ` : ''}
+        </div>
+      `;
+
     // Generate category breakdown
     const categoryBreakdown = Object.entries(stats.categoryCounts)
       .sort((a, b) => b[1] - a[1])
@@ -112,7 +187,7 @@ export class StatsPanel {
         const percent = ((count / stats.totalPatterns) * 100).toFixed(1);
         return `
           <div class="category-item">
-            <span class="category-name">${cat.replace(/_/g, ' ')}</span>
+            <span class="category-name">${SECURITY_CATEGORIES.has(cat as BugCategory) ? '🔓 ' : ''}${cat.replace(/_/g, ' ')}</span>
             <span class="category-count">${count} (${percent}%)</span>
           </div>
         `;
@@ -221,6 +296,34 @@ export class StatsPanel {
             font-weight: bold;
             color: var(--vscode-foreground);
           }
+          .suppression-item {
+            padding: 8px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+          }
+          .suppression-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+          }
+          .suppression-meta {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+          }
+          button {
+            color: var(--vscode-button-foreground);
+            background-color: var(--vscode-button-background);
+            border: none;
+            border-radius: 2px;
+            padding: 4px 10px;
+            cursor: pointer;
+          }
+          button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+          }
+          .pattern-quarantine {
+            margin: 10px 0;
+            color: var(--vscode-errorForeground);
+          }
           .pattern-examples {
             margin-top: 10px;
           }
@@ -296,6 +399,12 @@ export class StatsPanel {
             <div class="value">${Object.keys(stats.categoryCounts).length}</div>
             <div class="label">Categories</div>
           </div>
+          ${stats.quarantined > 0 ? `
+          <div class="stat-box">
+            <div class="value">${stats.quarantined}</div>
+            <div class="label">⚠️ Quarantined</div>
+          </div>
+          ` : ''}
         </div>
 
         <div class="section">
@@ -308,9 +417,19 @@ export class StatsPanel {
           ${patternListHtml}
         </div>
 
+        ${suppressionsHtml}
+
         <div class="last-updated">
           Last updated: ${new Date(stats.lastUpdated).toLocaleString()}
         </div>
+        <script>
+          const vscode = acquireVsCodeApi();
+          document.querySelectorAll('[data-lift]').forEach((button) => {
+            button.addEventListener('click', () => {
+              vscode.postMessage({ command: 'liftSuppression', patternId: button.dataset.lift });
+            });
+          });
+        </script>
       </body>
       </html>
     `;